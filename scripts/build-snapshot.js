@@ -0,0 +1,164 @@
+#!/usr/bin/env node
+// Builds resources/catalog-snapshot.json from a local clone of the default rules repository.
+//
+//   git clone --depth 1 https://github.com/PatrickJS/awesome-cursorrules.git /tmp/awesome-cursorrules
+//   npm run snapshot -- /tmp/awesome-cursorrules
+//
+// Options: --source <id> (default PatrickJS/awesome-cursorrules), --out <file>, and --path <dir>:<directory|file>
+// (repeatable, defaults to the default source's rules:directory and rules-new:file).
+// `npm run snapshot -- --check [--out <file>]` only verifies the snapshot has rules; packaging runs it so a
+// release never ships an empty one.
+// .github/workflows/catalog-snapshot.yml runs it weekly and opens a pull request when the rules changed.
+// Content shas are git blob shas, so the first refresh after seeding only downloads rules changed since the snapshot.
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { execFileSync } = require('child_process');
+
+const SNAPSHOT_VERSION = 1;
+
+function parseArgs(argv) {
+    const options = {
+        clone: undefined,
+        check: false,
+        sourceId: 'PatrickJS/awesome-cursorrules',
+        out: path.join(__dirname, '..', 'resources', 'catalog-snapshot.json'),
+        paths: []
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--check') {
+            options.check = true;
+        } else if (arg === '--source') {
+            options.sourceId = argv[++i];
+        } else if (arg === '--out') {
+            options.out = path.resolve(argv[++i]);
+        } else if (arg === '--path') {
+            const [dir, format] = (argv[++i] || '').split(':');
+            if (format !== 'directory' && format !== 'file') {
+                throw new Error(`--path expects <dir>:<directory|file>, got "${argv[i]}"`);
+            }
+            options.paths.push({ path: dir, format });
+        } else if (!options.clone) {
+            options.clone = path.resolve(arg);
+        } else {
+            throw new Error(`Unexpected argument: ${arg}`);
+        }
+    }
+
+    if (!options.clone && !options.check) {
+        throw new Error('Usage: build-snapshot.js <path-to-clone> [--source id] [--out file] [--path dir:format]');
+    }
+    if (options.paths.length === 0) {
+        options.paths = [
+            { path: 'rules', format: 'directory' },
+            { path: 'rules-new', format: 'file' }
+        ];
+    }
+    return options;
+}
+
+// Same sha git (and the GitHub tree API) reports for the file
+function gitBlobSha(content) {
+    return crypto.createHash('sha1').update(`blob ${content.length}\0`).update(content).digest('hex');
+}
+
+function readIfExists(file) {
+    return fs.existsSync(file) ? fs.readFileSync(file) : undefined;
+}
+
+function collectRules(clone, rulesPath) {
+    const dir = path.join(clone, rulesPath.path);
+    if (!fs.existsSync(dir)) {
+        console.warn(`⚠️ ${rulesPath.path} not found in ${clone}, skipping`);
+        return [];
+    }
+
+    const rules = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+        const rulePath = rulesPath.path ? `${rulesPath.path}/${entry.name}` : entry.name;
+
+        if (rulesPath.format === 'directory' && entry.isDirectory()) {
+            const content = readIfExists(path.join(dir, entry.name, '.cursorrules'));
+            if (!content) {
+                continue;
+            }
+            const readme = readIfExists(path.join(dir, entry.name, 'README.md'));
+            rules.push({
+                path: rulePath,
+                format: 'directory',
+                content: content.toString('utf-8'),
+                contentSha: gitBlobSha(content),
+                ...(readme && { readme: readme.toString('utf-8') })
+            });
+        } else if (rulesPath.format === 'file' && entry.isFile() && entry.name.endsWith('.mdc')) {
+            const content = fs.readFileSync(path.join(dir, entry.name));
+            rules.push({
+                path: rulePath,
+                format: 'file',
+                content: content.toString('utf-8'),
+                contentSha: gitBlobSha(content)
+            });
+        }
+    }
+
+    console.log(`📁 ${rulesPath.path}: ${rules.length} rules`);
+    return rules;
+}
+
+function readCommit(clone) {
+    try {
+        return execFileSync('git', ['-C', clone, 'rev-parse', 'HEAD'], { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+    } catch {
+        return undefined;
+    }
+}
+
+function checkSnapshot(file) {
+    const snapshot = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (snapshot.version !== SNAPSHOT_VERSION || !Array.isArray(snapshot.rules)) {
+        throw new Error(`${path.relative(process.cwd(), file)} is not a version ${SNAPSHOT_VERSION} snapshot`);
+    }
+    if (snapshot.rules.length === 0) {
+        throw new Error(`${path.relative(process.cwd(), file)} has no rules; regenerate it with npm run snapshot -- <path-to-clone>`);
+    }
+    console.log(`✅ ${path.relative(process.cwd(), file)}: ${snapshot.rules.length} rules from ${snapshot.sourceId}${snapshot.commit ? `@${snapshot.commit.slice(0, 7)}` : ''}`);
+}
+
+function main() {
+    const options = parseArgs(process.argv.slice(2));
+    if (options.check) {
+        checkSnapshot(options.out);
+        return;
+    }
+    const rules = options.paths.flatMap(rulesPath => collectRules(options.clone, rulesPath));
+    const commit = readCommit(options.clone);
+
+    // Leave an up to date snapshot untouched, so the scheduled regeneration only changes it with the rules
+    const existing = readIfExists(options.out);
+    const previous = existing ? JSON.parse(existing.toString('utf-8')) : undefined;
+    if (commit && previous?.sourceId === options.sourceId && previous.commit === commit && previous.rules?.length === rules.length) {
+        console.log(`⏭️ ${path.relative(process.cwd(), options.out)} is already at ${options.sourceId}@${commit.slice(0, 7)}`);
+        return;
+    }
+
+    const snapshot = {
+        version: SNAPSHOT_VERSION,
+        sourceId: options.sourceId,
+        generatedAt: new Date().toISOString(),
+        ...(commit && { commit }),
+        rules
+    };
+
+    fs.writeFileSync(options.out, JSON.stringify(snapshot, null, 2) + '\n');
+    console.log(`✅ Wrote ${rules.length} rules to ${path.relative(process.cwd(), options.out)}`);
+}
+
+try {
+    main();
+} catch (error) {
+    console.error(`❌ ${error.message || error}`);
+    process.exit(1);
+}
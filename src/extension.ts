@@ -2,10 +2,18 @@ import * as vscode from 'vscode';
 import { RulesManager } from './managers/RulesManager';
 import { DatabaseManager } from './managers/DatabaseManager';
 import { GitHubService } from './services/GitHubService';
+import { LocalRulesService } from './services/LocalRulesService';
+import { RuleImportService } from './services/RuleImportService';
+import { CollectionService } from './services/CollectionService';
+import { ManifestService } from './services/ManifestService';
+import { UpdateSchedulerService } from './services/UpdateSchedulerService';
+import { CatalogSnapshotService } from './services/CatalogSnapshotService';
 import { RulesExplorerProvider } from './providers/RulesExplorerProvider';
 import { ActiveRulesProvider } from './providers/ActiveRulesProvider';
 import { FavoritesProvider } from './providers/FavoritesProvider';
+import { PresetsProvider } from './providers/PresetsProvider';
 import { TokenSetupViewProvider } from './providers/TokenSetupViewProvider';
+import { RuleContentProvider } from './providers/RuleContentProvider';
 import { CommandManager } from './managers/CommandManager';
 import { NotificationManager } from './managers/NotificationManager';
 import { WorkspaceManager } from './managers/WorkspaceManager';
@@ -23,32 +31,60 @@ export async function activate(context: vscode.ExtensionContext) {
         const githubService = new GitHubService(context); // Pass context for secure token storage
         const notificationManager = new NotificationManager();
         const workspaceManager = new WorkspaceManager();
+        const localRulesService = new LocalRulesService();
+        const ruleImportService = new RuleImportService();
+        const collectionService = new CollectionService();
+        const manifestService = new ManifestService();
+        const catalogSnapshotService = new CatalogSnapshotService(context.extensionUri, githubService);
         
         // Initialize rules manager with all dependencies
         rulesManager = new RulesManager(
             databaseManager,
             githubService,
             notificationManager,
-            workspaceManager
+            workspaceManager,
+            localRulesService,
+            ruleImportService,
+            collectionService,
+            manifestService
         );
         
-        // Check token configuration using secure storage
-        const hasToken = !!(await githubService.getSecureToken());
-        await vscode.commands.executeCommand('setContext', 'solidrules.tokenConfigured', hasToken);
-        console.log(`🔒 Token configured: ${hasToken ? 'Yes' : 'No'}`);
+        // Local folder sources work without a token, so they also unlock the rule views
+        const hasLocalSources = localRulesService.hasLocalSources();
+        await vscode.commands.executeCommand('setContext', 'solidrules.localSourcesConfigured', hasLocalSources);
+        console.log(`📂 Local rule sources configured: ${hasLocalSources ? 'Yes' : 'No'}`);
 
         // Register providers with proper error handling
         const rulesExplorerProvider = new RulesExplorerProvider(rulesManager);
         const activeRulesProvider = new ActiveRulesProvider(rulesManager);
         const favoritesProvider = new FavoritesProvider(rulesManager);
+        const presetsProvider = new PresetsProvider(rulesManager);
         const tokenSetupProvider = new TokenSetupViewProvider(context);
         const activeRuleDecorator = new ActiveRuleDecorator();
         
         // Register tree data providers with error handling
+        const rulesExplorerView = vscode.window.createTreeView('solidrules.rulesExplorer', { treeDataProvider: rulesExplorerProvider });
         context.subscriptions.push(
-            vscode.window.registerTreeDataProvider('solidrules.rulesExplorer', rulesExplorerProvider),
+            rulesExplorerView,
             vscode.window.registerTreeDataProvider('solidrules.activeRules', activeRulesProvider),
-            vscode.window.registerTreeDataProvider('solidrules.favorites', favoritesProvider)
+            vscode.window.registerTreeDataProvider('solidrules.favorites', favoritesProvider),
+            vscode.window.registerTreeDataProvider('solidrules.presets', presetsProvider)
+        );
+        
+        // Anonymous mode: without a token all views stay browsable and the explorer recommends a token
+        const updateAnonymousMode = async () => {
+            const hasToken = !!(await githubService.getSecureToken());
+            await vscode.commands.executeCommand('setContext', 'solidrules.tokenConfigured', hasToken);
+            await vscode.commands.executeCommand('setContext', 'solidrules.anonymousMode', !hasToken);
+            await vscode.commands.executeCommand('setContext', 'solidrules.tokenSetupSkipped', githubService.isTokenSetupSkipped());
+            rulesExplorerView.message = hasToken
+                ? ''
+                : 'Anonymous mode: GitHub allows 60 requests per hour. Configure a token (🔑) for 5000.';
+            console.log(`🔒 Token configured: ${hasToken ? 'Yes' : 'No (anonymous mode)'}`);
+        };
+        await updateAnonymousMode();
+        context.subscriptions.push(
+            githubService.onDidChangeToken(() => updateAnonymousMode().catch(error => console.error('❌ Failed to update anonymous mode:', error)))
         );
         
         // Register file decoration provider for visual styling
@@ -56,6 +92,13 @@ export async function activate(context: vscode.ExtensionContext) {
             vscode.window.registerFileDecorationProvider(activeRuleDecorator)
         );
         
+        // Register read-only rule documents used by diff views
+        const ruleContentProvider = new RuleContentProvider(rulesManager);
+        context.subscriptions.push(
+            vscode.workspace.registerTextDocumentContentProvider(RuleContentProvider.scheme, ruleContentProvider),
+            ruleContentProvider
+        );
+        
         // Register webview view provider
         context.subscriptions.push(
             vscode.window.registerWebviewViewProvider(TokenSetupViewProvider.viewType, tokenSetupProvider)
@@ -63,22 +106,30 @@ export async function activate(context: vscode.ExtensionContext) {
         
         console.log('✅ TokenSetupViewProvider registered with viewType:', TokenSetupViewProvider.viewType);
         
+        // Background update checks and the pending updates status bar item
+        const updateScheduler = new UpdateSchedulerService(rulesManager);
+        context.subscriptions.push(updateScheduler);
+        
         // Initialize command manager with proper error handling
         commandManager = new CommandManager(
             rulesManager,
-            rulesExplorerProvider
+            rulesExplorerProvider,
+            updateScheduler
         );
         
         // Register all commands
         commandManager.registerCommands(context);
         
         // Initialize database and sync rules with proper error handling
-        await databaseManager.initialize();
+        // A fresh install starts from the bundled catalog instead of an empty library
+        await databaseManager.initialize(() => catalogSnapshotService.loadRules());
         console.log('✅ Database initialized');
         
         await rulesManager.initializeRules();
         console.log('✅ Rules initialized');
         
+        updateScheduler.start();
+        
         // Schedule initial workspace sync after extension loads with error handling
         setTimeout(async () => {
             try {
@@ -91,6 +142,32 @@ export async function activate(context: vscode.ExtensionContext) {
             }
         }, 1000); // 1 second delay to let extension fully load
         
+        // Sync only the affected folders when a multi-root workspace changes
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(async (event) => {
+                try {
+                    await rulesManager.handleWorkspaceFoldersChanged(event);
+                } catch (error) {
+                    console.error('❌ Workspace folder sync failed:', error);
+                }
+            })
+        );
+        
+        // Reindex and rewatch local folders when their configuration changes
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeConfiguration(async (event) => {
+                if (!event.affectsConfiguration('solidrules.localRuleSources')) {
+                    return;
+                }
+                try {
+                    await vscode.commands.executeCommand('setContext', 'solidrules.localSourcesConfigured', localRulesService.hasLocalSources());
+                    await rulesManager.handleLocalSourcesChanged();
+                } catch (error) {
+                    console.error('❌ Local rule sources update failed:', error);
+                }
+            })
+        );
+        
         // Register workspace sync on window close with enhanced error handling
         context.subscriptions.push(
             vscode.workspace.onWillSaveTextDocument(async () => {
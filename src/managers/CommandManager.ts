@@ -1,37 +1,77 @@
 import * as vscode from 'vscode';
 import { RulesManager } from './RulesManager';
 import { RulesExplorerProvider } from '../providers/RulesExplorerProvider';
+import { RuleContentProvider } from '../providers/RuleContentProvider';
+import { RuleEditorPanel } from '../providers/RuleEditorPanel';
+import { UpdateSchedulerService } from '../services/UpdateSchedulerService';
+import { MdcRuleSettings, MdcRuleType, formatRuleVersion, MDC_RULE_TYPE_LABELS, ImportConflictResolution, RuleImportCandidate, CursorRule, RuleCollection, RulePreset, PresetApplyMode, SavedSearch } from '../types';
+import { getSearchCompletions, SearchQualifierValues } from '../utils/searchQuery';
+
+// A search box entry: the query it runs, or for completions the query it fills in
+interface SearchQuickPickItem extends vscode.QuickPickItem {
+    readonly query: string;
+    readonly completion?: boolean;
+}
 
 export class CommandManager {
     private disposables: vscode.Disposable[] = [];
+    private extensionUri: vscode.Uri | undefined;
 
     constructor(
         private rulesManager: RulesManager,
-        private rulesExplorerProvider: RulesExplorerProvider
+        private rulesExplorerProvider: RulesExplorerProvider,
+        private updateScheduler: UpdateSchedulerService
     ) {}
 
     registerCommands(context: vscode.ExtensionContext): void {
+        this.extensionUri = context.extensionUri;
+
         // Register all commands with enhanced error handling
         this.disposables.push(
             vscode.commands.registerCommand('solidrules.refreshRules', () => this.handleCommand('refreshRules', () => this.refreshRules())),
             vscode.commands.registerCommand('solidrules.searchRules', () => this.handleCommand('searchRules', () => this.searchRules())),
+            vscode.commands.registerCommand('solidrules.saveSearch', () => this.handleCommand('saveSearch', () => this.saveSearch())),
+            vscode.commands.registerCommand('solidrules.deleteSavedSearch', () => this.handleCommand('deleteSavedSearch', () => this.deleteSavedSearch())),
             vscode.commands.registerCommand('solidrules.activateRule', (ruleId: string) => this.handleCommand('activateRule', () => this.activateRule(ruleId))),
             vscode.commands.registerCommand('solidrules.deactivateRule', (ruleId: string) => this.handleCommand('deactivateRule', () => this.deactivateRule(ruleId))),
-            vscode.commands.registerCommand('solidrules.toggleRule', (ruleId: string) => this.handleCommand('toggleRule', () => this.toggleRule(ruleId))),
+            vscode.commands.registerCommand('solidrules.toggleRule', (ruleId: string, workspaceId?: string) => this.handleCommand('toggleRule', () => this.toggleRule(ruleId, workspaceId))),
+            vscode.commands.registerCommand('solidrules.editRuleType', (ruleIdOrTreeItem?: any) => this.handleCommand('editRuleType', () => this.editRuleType(ruleIdOrTreeItem))),
             vscode.commands.registerCommand('solidrules.bulkToggle', () => this.handleCommand('bulkToggle', () => this.showBulkToggleMenu())),
             vscode.commands.registerCommand('solidrules.deleteRule', (ruleId: string) => this.handleCommand('deleteRule', () => this.deleteRule(ruleId))),
             vscode.commands.registerCommand('solidrules.previewRule', (ruleId: string) => this.handleCommand('previewRule', () => this.previewRule(ruleId))),
             vscode.commands.registerCommand('solidrules.addToFavorites', (ruleId: string) => this.handleCommand('addToFavorites', () => this.addToFavorites(ruleId))),
             vscode.commands.registerCommand('solidrules.removeFromFavorites', (ruleId: string) => this.handleCommand('removeFromFavorites', () => this.removeFromFavorites(ruleId))),
             vscode.commands.registerCommand('solidrules.importCustomRule', () => this.handleCommand('importCustomRule', () => this.importCustomRule())),
+            vscode.commands.registerCommand('solidrules.editCustomRule', (ruleIdOrTreeItem?: any) => this.handleCommand('editCustomRule', () => this.editCustomRule(ruleIdOrTreeItem))),
+            vscode.commands.registerCommand('solidrules.adoptWorkspaceRules', (workspaceIdOrTreeItem?: any) => this.handleCommand('adoptWorkspaceRules', () => this.adoptWorkspaceRules(workspaceIdOrTreeItem))),
+            vscode.commands.registerCommand('solidrules.createPreset', () => this.handleCommand('createPreset', () => this.createPreset())),
+            vscode.commands.registerCommand('solidrules.editPreset', (presetIdOrTreeItem?: any) => this.handleCommand('editPreset', () => this.editPreset(presetIdOrTreeItem))),
+            vscode.commands.registerCommand('solidrules.renamePreset', (presetIdOrTreeItem?: any) => this.handleCommand('renamePreset', () => this.renamePreset(presetIdOrTreeItem))),
+            vscode.commands.registerCommand('solidrules.deletePreset', (presetIdOrTreeItem?: any) => this.handleCommand('deletePreset', () => this.deletePreset(presetIdOrTreeItem))),
+            vscode.commands.registerCommand('solidrules.applyPreset', (presetIdOrTreeItem?: any) => this.handleCommand('applyPreset', () => this.applyPreset(presetIdOrTreeItem, 'apply'))),
+            vscode.commands.registerCommand('solidrules.replaceWithPreset', (presetIdOrTreeItem?: any) => this.handleCommand('replaceWithPreset', () => this.applyPreset(presetIdOrTreeItem, 'replace'))),
+            vscode.commands.registerCommand('solidrules.diffPreset', (presetIdOrTreeItem?: any) => this.handleCommand('diffPreset', () => this.diffPreset(presetIdOrTreeItem))),
+            vscode.commands.registerCommand('solidrules.exportPresets', (presetIdOrTreeItem?: any) => this.handleCommand('exportPresets', () => this.exportPresets(presetIdOrTreeItem))),
+            vscode.commands.registerCommand('solidrules.applyTeamManifest', (workspaceIdOrTreeItem?: any) => this.handleCommand('applyTeamManifest', () => this.applyTeamManifest(workspaceIdOrTreeItem))),
+            vscode.commands.registerCommand('solidrules.saveTeamManifest', (workspaceIdOrTreeItem?: any) => this.handleCommand('saveTeamManifest', () => this.saveTeamManifest(workspaceIdOrTreeItem))),
             vscode.commands.registerCommand('solidrules.exportRules', () => this.handleCommand('exportRules', () => this.exportRules())),
+            vscode.commands.registerCommand('solidrules.importCollection', () => this.handleCommand('importCollection', () => this.importCollection())),
             vscode.commands.registerCommand('solidrules.settings', () => this.handleCommand('settings', () => this.openSettings())),
             vscode.commands.registerCommand('solidrules.updateRule', (ruleId: string) => this.handleCommand('updateRule', () => this.updateRule(ruleId))),
-            vscode.commands.registerCommand('solidrules.updateAllRules', () => this.handleCommand('updateAllRules', () => this.updateAllRules())),
+            vscode.commands.registerCommand('solidrules.pinRule', (ruleIdOrTreeItem?: any) => this.handleCommand('pinRule', () => this.pinRule(ruleIdOrTreeItem))),
+            vscode.commands.registerCommand('solidrules.unpinRule', (ruleIdOrTreeItem?: any) => this.handleCommand('unpinRule', () => this.unpinRule(ruleIdOrTreeItem))),
+            vscode.commands.registerCommand('solidrules.rollbackRule', (ruleIdOrTreeItem?: any) => this.handleCommand('rollbackRule', () => this.rollbackRule(ruleIdOrTreeItem))),
+            vscode.commands.registerCommand('solidrules.reviewRuleUpdate', (ruleIdOrTreeItem?: any) => this.handleCommand('reviewRuleUpdate', () => this.reviewRuleUpdate(ruleIdOrTreeItem))),
+            vscode.commands.registerCommand('solidrules.updateAllRules', () => this.handleCommand('updateAllRules', () => this.reviewUpdates())),
             vscode.commands.registerCommand('solidrules.syncWorkspace', () => this.handleCommand('syncWorkspace', () => this.syncWorkspace())),
+            vscode.commands.registerCommand('solidrules.selectWorkspaceFolder', (workspaceId?: string) => this.handleCommand('selectWorkspaceFolder', () => this.selectWorkspaceFolder(workspaceId))),
             vscode.commands.registerCommand('solidrules.clearFilters', () => this.handleCommand('clearFilters', () => this.clearFilters())),
             vscode.commands.registerCommand('solidrules.filterByTechnology', () => this.handleCommand('filterByTechnology', () => this.filterByTechnology())),
             vscode.commands.registerCommand('solidrules.filterByCategory', () => this.handleCommand('filterByCategory', () => this.filterByCategory())),
+            vscode.commands.registerCommand('solidrules.filterBySource', () => this.handleCommand('filterBySource', () => this.filterBySource())),
+            vscode.commands.registerCommand('solidrules.groupRules', () => this.handleCommand('groupRules', () => this.groupRules())),
+            vscode.commands.registerCommand('solidrules.checkForUpdates', () => this.handleCommand('checkForUpdates', () => this.checkForUpdates())),
+            vscode.commands.registerCommand('solidrules.checkSourceForUpdates', (sourceIdOrTreeItem?: any) => this.handleCommand('checkSourceForUpdates', () => this.checkSourceForUpdates(sourceIdOrTreeItem))),
             vscode.commands.registerCommand('solidrules.sortRules', () => this.handleCommand('sortRules', () => this.sortRules())),
             vscode.commands.registerCommand('solidrules.configureGitHubToken', () => this.handleCommand('configureGitHubToken', () => this.configureGitHubToken())),
             vscode.commands.registerCommand('solidrules.resetGitHubToken', () => this.handleCommand('resetGitHubToken', () => this.resetGitHubToken())),
@@ -65,12 +105,11 @@ export class CommandManager {
 
     private async searchRules(): Promise<void> {
         try {
-            const currentQuery = this.rulesExplorerProvider.getSearchQuery();
-            const query = await vscode.window.showInputBox({
-                prompt: 'Search rules by name, technology, or content',
-                placeHolder: 'Enter search query...',
-                value: currentQuery
-            });
+            const [values, savedSearches] = await Promise.all([
+                this.rulesManager.getSearchQualifierValues(),
+                this.rulesManager.getSavedSearches()
+            ]);
+            const query = await this.pickSearchQuery(this.rulesExplorerProvider.getSearchQuery(), values, savedSearches);
 
             if (query !== undefined) {
                 await this.rulesExplorerProvider.applySearch(query);
@@ -80,6 +119,130 @@ export class CommandManager {
         }
     }
 
+    // Search box completing qualifiers and their values as they are typed. Accepting a completion
+    // fills it in and keeps the box open; accepting the query or a saved search runs it
+    private pickSearchQuery(initialQuery: string, values: SearchQualifierValues, savedSearches: SavedSearch[]): Promise<string | undefined> {
+        return new Promise(resolve => {
+            const quickPick = vscode.window.createQuickPick<SearchQuickPickItem>();
+            quickPick.title = 'Search Rules';
+            quickPick.placeholder = 'hooks tech:react category:Frontend is:active -tag:legacy "server components"';
+            quickPick.value = initialQuery;
+
+            // Items are computed from the query, so alwaysShow keeps the quick pick's own filtering out of the way
+            const updateItems = () => {
+                const value = quickPick.value.trim();
+                const items: SearchQuickPickItem[] = [{
+                    label: value ? `$(search) ${value}` : '$(list-flat) Show all rules',
+                    description: value ? 'Search' : '',
+                    query: value,
+                    alwaysShow: true
+                }];
+
+                for (const completion of getSearchCompletions(quickPick.value, values)) {
+                    items.push({
+                        label: completion.label,
+                        ...(completion.description && { description: completion.description }),
+                        query: completion.query,
+                        completion: true,
+                        alwaysShow: true
+                    });
+                }
+
+                const lowerValue = value.toLowerCase();
+                const matchingSearches = savedSearches.filter(search =>
+                    !lowerValue || search.name.toLowerCase().includes(lowerValue) || search.query.toLowerCase().includes(lowerValue));
+                if (matchingSearches.length > 0) {
+                    items.push({ label: 'Saved searches', kind: vscode.QuickPickItemKind.Separator, query: '' });
+                    items.push(...matchingSearches.map(search => ({
+                        label: `$(bookmark) ${search.name}`,
+                        description: search.query,
+                        query: search.query,
+                        alwaysShow: true
+                    })));
+                }
+                quickPick.items = items;
+            };
+
+            quickPick.onDidChangeValue(updateItems);
+            quickPick.onDidAccept(() => {
+                const item = quickPick.selectedItems[0];
+                if (item?.completion) {
+                    quickPick.value = item.query;
+                    updateItems();
+                    return;
+                }
+                resolve(item ? item.query : quickPick.value.trim());
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => {
+                resolve(undefined);
+                quickPick.dispose();
+            });
+
+            updateItems();
+            quickPick.show();
+        });
+    }
+
+    private async saveSearch(): Promise<void> {
+        try {
+            const query = this.rulesExplorerProvider.getSearchQuery().trim();
+            if (!query) {
+                vscode.window.showInformationMessage('Search for rules first, then save the search to run it again later.');
+                return;
+            }
+
+            const name = await vscode.window.showInputBox({
+                prompt: `Name for "${query}"`,
+                placeHolder: 'Active React rules',
+                validateInput: value => value.trim() ? null : 'Search name is required'
+            });
+            if (!name) {
+                return;
+            }
+
+            const existing = (await this.rulesManager.getSavedSearches()).find(search => search.name.toLowerCase() === name.trim().toLowerCase());
+            if (existing) {
+                const choice = await vscode.window.showWarningMessage(
+                    `A saved search named "${existing.name}" already exists (${existing.query}). Replace it?`,
+                    { modal: true },
+                    'Replace'
+                );
+                if (choice !== 'Replace') {
+                    return;
+                }
+            }
+
+            const search = await this.rulesManager.saveSearch(name, query);
+            vscode.window.showInformationMessage(`Saved search "${search.name}"`);
+        } catch (error) {
+            console.error('Failed to save search:', error);
+            vscode.window.showErrorMessage(`Failed to save search: ${error}`);
+        }
+    }
+
+    private async deleteSavedSearch(): Promise<void> {
+        try {
+            const savedSearches = await this.rulesManager.getSavedSearches();
+            if (savedSearches.length === 0) {
+                vscode.window.showInformationMessage('No saved searches yet. Run "Save Search" after searching to save one.');
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(
+                savedSearches.map(search => ({ label: search.name, description: search.query, search })),
+                { placeHolder: 'Select a saved search to delete' }
+            );
+            if (selected) {
+                await this.rulesManager.deleteSavedSearch(selected.search.name);
+                vscode.window.showInformationMessage(`Deleted saved search "${selected.search.name}"`);
+            }
+        } catch (error) {
+            console.error('Failed to delete saved search:', error);
+            vscode.window.showErrorMessage(`Failed to delete saved search: ${error}`);
+        }
+    }
+
     private async activateRule(ruleIdOrTreeItem?: string | any): Promise<void> {
         try {
             let ruleId: string | undefined;
@@ -131,13 +294,15 @@ export class CommandManager {
     private async deactivateRule(ruleIdOrTreeItem?: string | any): Promise<void> {
         try {
             let ruleId: string | undefined;
+            let workspaceId: string | undefined;
             
             // Handle different argument types
             if (typeof ruleIdOrTreeItem === 'string') {
                 ruleId = ruleIdOrTreeItem;
             } else if (ruleIdOrTreeItem?.rule?.id) {
-                // TreeItem passed from context menu
+                // TreeItem passed from context menu (carries its folder in multi-root workspaces)
                 ruleId = ruleIdOrTreeItem.rule.id;
+                workspaceId = ruleIdOrTreeItem.workspaceId;
             }
             
             if (!ruleId) {
@@ -168,17 +333,17 @@ export class CommandManager {
             }
 
             if (ruleId) {
-                await this.rulesManager.deactivateRule(ruleId);
+                await this.rulesManager.deactivateRule(ruleId, true, false, workspaceId);
             }
         } catch (error) {
             console.error('Failed to deactivate rule:', error);
         }
     }
 
-    private async toggleRule(ruleId: string): Promise<void> {
+    private async toggleRule(ruleId: string, workspaceId?: string): Promise<void> {
         try {
             // Use ultra-fast toggle for immediate response
-            await this.rulesManager.ultraFastToggleRule(ruleId);
+            await this.rulesManager.ultraFastToggleRule(ruleId, workspaceId);
         } catch (error) {
             console.error('Failed to toggle rule:', error);
             // Fallback to notification on error
@@ -186,63 +351,43 @@ export class CommandManager {
         }
     }
 
-    // Enhanced bulk operations for better performance
-    private async bulkToggleRules(ruleIds: string[]): Promise<void> {
-        try {
-            if (ruleIds.length === 0) return;
-            
-            // Show progress for bulk operations
-            await vscode.window.withProgress({
-                location: vscode.ProgressLocation.Notification,
-                title: `Toggling ${ruleIds.length} rules...`,
-                cancellable: false
-            }, async (progress) => {
-                progress.report({ increment: 0 });
-                
-                // Use batch toggle for maximum performance
-                await this.rulesManager.batchToggleRules(ruleIds);
-                
-                progress.report({ increment: 100 });
-            });
-            
-            vscode.window.showInformationMessage(`Successfully toggled ${ruleIds.length} rules`);
-        } catch (error) {
-            console.error('Failed to bulk toggle rules:', error);
-            vscode.window.showErrorMessage(`Failed to toggle rules: ${error}`);
-        }
-    }
-
-    // Show menu for bulk toggle operations
+    // Bulk selection of the active set: active rules start checked, so the selection becomes the new active set
     private async showBulkToggleMenu(): Promise<void> {
         try {
-            const rules = await this.rulesManager.getAllRules();
-            if (rules.length === 0) {
-                vscode.window.showInformationMessage('No rules available');
+            const activeRuleIds = (await this.rulesManager.getActiveRules()).map(rule => rule.id);
+            const ruleIds = await this.pickRules(activeRuleIds, 'Check the rules that should be active (checked rules are active now)');
+            if (!ruleIds) {
                 return;
             }
 
-            const quickPickItems = rules.map(rule => ({
-                label: rule.name,
-                description: `${rule.category} • ${rule.technologies.join(', ')} • ${rule.isActive ? '✓ Active' : 'Inactive'}`,
-                detail: rule.description,
-                picked: false, // Default selection
-                rule: rule
-            }));
+            if (ruleIds.length === 0 && activeRuleIds.length > 0) {
+                const choice = await vscode.window.showWarningMessage(
+                    `Deactivate all ${activeRuleIds.length} active rules?`,
+                    { modal: true },
+                    'Deactivate All'
+                );
+                if (choice !== 'Deactivate All') {
+                    return;
+                }
+            }
 
-            const selected = await vscode.window.showQuickPick(quickPickItems, {
-                placeHolder: 'Select rules to toggle (multiple selection)',
-                canPickMany: true,
-                matchOnDescription: true,
-                matchOnDetail: true
-            });
+            // Show progress for bulk operations
+            const change = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Updating active rules...`,
+                cancellable: false
+            }, () => this.rulesManager.setActiveRules(ruleIds));
 
-            if (selected && selected.length > 0) {
-                const ruleIds = selected.map(item => item.rule.id);
-                await this.bulkToggleRules(ruleIds);
+            if (change.activated.length === 0 && change.deactivated.length === 0) {
+                vscode.window.showInformationMessage('Active rules unchanged');
+                return;
             }
+            vscode.window.showInformationMessage(
+                `Activated ${change.activated.length} and deactivated ${change.deactivated.length} rules`
+            );
         } catch (error) {
-            console.error('Failed to show bulk toggle menu:', error);
-            vscode.window.showErrorMessage(`Failed to show bulk toggle menu: ${error}`);
+            console.error('Failed to update active rules:', error);
+            vscode.window.showErrorMessage(`Failed to update active rules: ${error}`);
         }
     }
 
@@ -393,42 +538,612 @@ export class CommandManager {
 
     private async importCustomRule(): Promise<void> {
         try {
-            const name = await vscode.window.showInputBox({
-                prompt: 'Enter rule name',
-                placeHolder: 'My Custom Rule'
+            const importOptions = [
+                { label: '$(edit) Write a New Rule', description: 'Open the rule editor', value: 'editor' },
+                { label: '$(file) Import from Files', description: '.mdc, .cursorrules, .md or a SolidRules JSON export', value: 'files' },
+                { label: '$(folder) Import from Folder', description: 'Every rule file in a folder and its subfolders', value: 'folder' }
+            ];
+
+            const selected = await vscode.window.showQuickPick(importOptions, {
+                placeHolder: 'How do you want to add custom rules?'
             });
+            if (!selected) {
+                return;
+            }
+
+            if (selected.value === 'editor') {
+                await RuleEditorPanel.show(this.extensionUri!, this.rulesManager);
+                return;
+            }
+
+            const uris = await vscode.window.showOpenDialog(selected.value === 'folder'
+                ? { canSelectFiles: false, canSelectFolders: true, canSelectMany: true, openLabel: 'Import Rules' }
+                : {
+                    canSelectFiles: true,
+                    canSelectFolders: false,
+                    canSelectMany: true,
+                    openLabel: 'Import Rules',
+                    filters: { 'Rule Files': ['mdc', 'cursorrules', 'md', 'json'], 'All Files': ['*'] }
+                });
+            if (!uris || uris.length === 0) {
+                return;
+            }
+
+            const candidates = await this.rulesManager.readImportCandidates(uris.map(uri => uri.fsPath));
+            if (candidates.length === 0) {
+                vscode.window.showInformationMessage('No rule files found to import');
+                return;
+            }
+
+            await this.rulesManager.importRules(candidates, this.createConflictResolver());
+        } catch (error) {
+            console.error('Failed to import custom rule:', error);
+        }
+    }
+
+    private async editCustomRule(ruleIdOrTreeItem?: string | any): Promise<void> {
+        try {
+            let ruleId: string | undefined;
 
+            if (typeof ruleIdOrTreeItem === 'string') {
+                ruleId = ruleIdOrTreeItem;
+            } else if (ruleIdOrTreeItem?.rule?.id) {
+                // TreeItem passed from context menu
+                ruleId = ruleIdOrTreeItem.rule.id;
+            }
+
+            if (!ruleId) {
+                const customRules = (await this.rulesManager.getAllRules()).filter(rule => rule.isCustom);
+                if (customRules.length === 0) {
+                    vscode.window.showInformationMessage('No custom rules to edit');
+                    return;
+                }
+
+                const selectedRule = await vscode.window.showQuickPick(
+                    customRules.map(rule => ({ label: rule.name, description: rule.category, ruleId: rule.id })),
+                    { placeHolder: 'Select a custom rule to edit' }
+                );
+                if (!selectedRule) {
+                    return;
+                }
+                ruleId = selectedRule.ruleId;
+            }
+
+            await RuleEditorPanel.show(this.extensionUri!, this.rulesManager, ruleId);
+        } catch (error) {
+            console.error('Failed to edit custom rule:', error);
+            vscode.window.showErrorMessage(`Failed to edit custom rule: ${error}`);
+        }
+    }
+
+    private async editRuleType(ruleIdOrTreeItem?: string | any): Promise<void> {
+        try {
+            let ruleId: string | undefined;
+            let workspaceId: string | undefined;
+
+            if (typeof ruleIdOrTreeItem === 'string') {
+                ruleId = ruleIdOrTreeItem;
+            } else if (ruleIdOrTreeItem?.rule?.id) {
+                // TreeItem passed from context menu (carries its folder in multi-root workspaces)
+                ruleId = ruleIdOrTreeItem.rule.id;
+                workspaceId = ruleIdOrTreeItem.workspaceId;
+            }
+
+            if (!ruleId) {
+                const activeRules = await this.rulesManager.getActiveRules();
+                if (activeRules.length === 0) {
+                    vscode.window.showInformationMessage('No rules are currently active');
+                    return;
+                }
+
+                const selectedRule = await vscode.window.showQuickPick(
+                    activeRules.map(rule => ({ label: rule.name, description: rule.category, ruleId: rule.id })),
+                    { placeHolder: 'Select a rule to edit its type' }
+                );
+                if (!selectedRule) {
+                    return;
+                }
+                ruleId = selectedRule.ruleId;
+            }
+
+            const rule = await this.rulesManager.getRuleById(ruleId);
+            if (!rule) {
+                vscode.window.showErrorMessage('Rule not found');
+                return;
+            }
+
+            const { effective, ruleSettings, workspaceSettings } = await this.rulesManager.getRuleSettings(ruleId, workspaceId);
+
+            // Scope: the rule everywhere, or an override for this workspace folder only
+            const scopeItems: { label: string; description: string; scope: 'rule' | 'workspace' }[] = [
+                { label: 'This workspace folder only', description: workspaceSettings ? 'Overridden' : '', scope: 'workspace' },
+                { label: 'All workspaces', description: ruleSettings ? 'Customized' : 'Default', scope: 'rule' }
+            ];
+            const selectedScope = await vscode.window.showQuickPick(scopeItems, {
+                placeHolder: `Edit rule type of "${rule.name}" (currently ${MDC_RULE_TYPE_LABELS[effective.ruleType]})`
+            });
+            if (!selectedScope) {
+                return;
+            }
+
+            const current = selectedScope.scope === 'workspace' ? workspaceSettings : ruleSettings;
+            const typeDescriptions: Record<MdcRuleType, string> = {
+                always: 'Always included in the model context',
+                autoAttached: 'Included when files matching glob patterns are referenced',
+                agentRequested: 'Available to the agent, which decides from the description',
+                manual: 'Only included when mentioned explicitly with @ruleName'
+            };
+            const typeItems: { label: string; description: string; ruleType: MdcRuleType | 'reset' }[] = (Object.keys(MDC_RULE_TYPE_LABELS) as MdcRuleType[])
+                .map(ruleType => ({
+                    label: MDC_RULE_TYPE_LABELS[ruleType],
+                    description: `${typeDescriptions[ruleType]}${effective.ruleType === ruleType ? ' (current)' : ''}`,
+                    ruleType
+                }));
+            if (current) {
+                typeItems.push({
+                    label: 'Reset to Default',
+                    description: selectedScope.scope === 'workspace' ? 'Use the rule\'s own type in this folder' : 'Use the source frontmatter or category defaults',
+                    ruleType: 'reset'
+                });
+            }
+
+            const selectedType = await vscode.window.showQuickPick(typeItems, { placeHolder: 'Select rule type' });
+            if (!selectedType) {
+                return;
+            }
+
+            let settings: MdcRuleSettings | undefined;
+            if (selectedType.ruleType === 'reset') {
+                settings = undefined;
+            } else if (selectedType.ruleType === 'autoAttached') {
+                const globs = await vscode.window.showInputBox({
+                    prompt: 'Glob patterns that attach this rule (comma-separated)',
+                    value: effective.globs || '',
+                    placeHolder: '*.ts, src/**/*.tsx',
+                    validateInput: value => value.trim() ? null : 'At least one glob pattern is required'
+                });
+                if (globs === undefined) {
+                    return;
+                }
+                settings = { ruleType: 'autoAttached', globs: globs.trim() };
+            } else if (selectedType.ruleType === 'agentRequested') {
+                const description = await vscode.window.showInputBox({
+                    prompt: 'Description the agent uses to decide when to apply this rule',
+                    value: effective.description || rule.description || rule.name,
+                    validateInput: value => value.trim() ? null : 'A description is required for Agent Requested rules'
+                });
+                if (description === undefined) {
+                    return;
+                }
+                settings = { ruleType: 'agentRequested', description: description.trim() };
+            } else {
+                settings = { ruleType: selectedType.ruleType };
+            }
+
+            await this.rulesManager.updateRuleSettings(ruleId, settings, selectedScope.scope, workspaceId);
+            vscode.window.showInformationMessage(
+                settings
+                    ? `"${rule.name}" is now ${MDC_RULE_TYPE_LABELS[settings.ruleType]}${selectedScope.scope === 'workspace' ? ' in this workspace folder' : ''}`
+                    : `"${rule.name}" reset to its default rule type`
+            );
+        } catch (error) {
+            console.error('Failed to edit rule type:', error);
+            vscode.window.showErrorMessage(`Failed to edit rule type: ${error}`);
+        }
+    }
+
+    private async adoptWorkspaceRules(workspaceIdOrTreeItem?: any): Promise<void> {
+        try {
+            // Workspace folder nodes in the Active Rules view carry their folder id
+            const workspaceId: string | undefined = typeof workspaceIdOrTreeItem === 'string'
+                ? workspaceIdOrTreeItem
+                : workspaceIdOrTreeItem?.workspaceId;
+
+            const candidates = await this.rulesManager.getWorkspaceRuleCandidates(workspaceId);
+            if (candidates.length === 0) {
+                vscode.window.showInformationMessage('No unmanaged rules found in .cursor/rules');
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(
+                candidates.map(candidate => ({
+                    label: candidate.fileName,
+                    description: candidate.isGenerated ? 'Generated by SolidRules' : 'Hand-written',
+                    detail: candidate.matchingRule
+                        ? `Same name as library rule "${candidate.matchingRule.name}"`
+                        : candidate.description || '',
+                    picked: true,
+                    candidate
+                })),
+                {
+                    placeHolder: 'Select workspace rules to adopt into the library',
+                    canPickMany: true
+                }
+            );
+
+            if (!selected || selected.length === 0) {
+                return;
+            }
+
+            let adoptedCount = 0;
+            for (const { candidate } of selected) {
+                // Let the user compare against the library rule that would write the same file
+                if (candidate.matchingRule) {
+                    await vscode.commands.executeCommand(
+                        'vscode.diff',
+                        RuleContentProvider.createUri(candidate.matchingRule.id, candidate.fileName),
+                        vscode.Uri.file(candidate.filePath),
+                        `${candidate.matchingRule.name} (Library) ↔ ${candidate.fileName} (Workspace)`,
+                        { preview: true }
+                    );
+
+                    const choice = await vscode.window.showInformationMessage(
+                        `"${candidate.fileName}" has the same name as library rule "${candidate.matchingRule.name}". Adopt the workspace version as a custom rule?`,
+                        { modal: true },
+                        'Adopt',
+                        'Skip'
+                    );
+                    if (choice !== 'Adopt') {
+                        continue;
+                    }
+                }
+
+                await this.rulesManager.adoptWorkspaceRule(candidate, workspaceId);
+                adoptedCount++;
+            }
+
+            if (adoptedCount > 0) {
+                const handWrittenCount = selected.filter(item => !item.candidate.isGenerated).length;
+                vscode.window.showInformationMessage(
+                    `Adopted ${adoptedCount} workspace rule${adoptedCount === 1 ? '' : 's'}` +
+                    (handWrittenCount > 0 ? '. Hand-written files are kept as-is and never overwritten.' : '')
+                );
+            }
+        } catch (error) {
+            console.error('Failed to adopt workspace rules:', error);
+            vscode.window.showErrorMessage(`Failed to adopt workspace rules: ${error}`);
+        }
+    }
+
+    // Preset from a Presets view node or id, or picked from all presets
+    private async resolvePreset(presetIdOrTreeItem?: any, placeHolder: string = 'Select a preset'): Promise<RulePreset | undefined> {
+        if (presetIdOrTreeItem?.preset) {
+            return presetIdOrTreeItem.preset;
+        }
+        if (typeof presetIdOrTreeItem === 'string') {
+            const preset = await this.rulesManager.getPresetById(presetIdOrTreeItem);
+            if (!preset) {
+                vscode.window.showErrorMessage('Preset not found');
+            }
+            return preset || undefined;
+        }
+
+        const presets = await this.rulesManager.getPresets();
+        if (presets.length === 0) {
+            vscode.window.showInformationMessage('No presets yet. Run "Create Preset" to save your active rules as one.');
+            return undefined;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            presets.map(preset => ({
+                label: preset.name,
+                description: `${preset.ruleIds.length} rules`,
+                detail: preset.description || '',
+                preset
+            })),
+            { placeHolder }
+        );
+        return selected?.preset;
+    }
+
+    // Multi-select of library rules; the given ids start checked and are listed first
+    private async pickRules(checkedRuleIds: ReadonlyArray<string>, placeHolder: string): Promise<string[] | undefined> {
+        const rules = await this.rulesManager.getAllRules();
+        if (rules.length === 0) {
+            vscode.window.showInformationMessage('No rules available');
+            return undefined;
+        }
+
+        const checked = new Set(checkedRuleIds);
+        const selected = await vscode.window.showQuickPick(
+            rules
+                .sort((a, b) => Number(checked.has(b.id)) - Number(checked.has(a.id)) || a.name.localeCompare(b.name))
+                .map(rule => ({
+                    label: rule.name,
+                    description: `${rule.category} • ${rule.technologies.join(', ')}${rule.isActive ? ' • ✓ Active' : ''}`,
+                    detail: rule.description,
+                    picked: checked.has(rule.id),
+                    rule
+                })),
+            {
+                placeHolder,
+                canPickMany: true,
+                matchOnDescription: true,
+                matchOnDetail: true
+            }
+        );
+        return selected?.map(item => item.rule.id);
+    }
+
+    private async createPreset(): Promise<void> {
+        try {
+            const activeRules = await this.rulesManager.getActiveRules();
+            const ruleIds = await this.pickRules(
+                activeRules.map(rule => rule.id),
+                'Select the rules in this preset (your active rules are preselected)'
+            );
+            if (!ruleIds || ruleIds.length === 0) {
+                return;
+            }
+
+            const name = await vscode.window.showInputBox({
+                prompt: 'Preset name',
+                placeHolder: 'Next.js + Tailwind + Prisma',
+                validateInput: value => value.trim() ? null : 'Preset name is required'
+            });
             if (!name) {
                 return;
             }
 
-            const content = await vscode.window.showInputBox({
-                prompt: 'Enter rule content',
-                placeHolder: 'You are an expert developer...'
+            const existing = (await this.rulesManager.getPresets()).find(preset => preset.name.toLowerCase() === name.trim().toLowerCase());
+            if (existing) {
+                const choice = await vscode.window.showWarningMessage(
+                    `A preset named "${existing.name}" already exists. Replace its rules?`,
+                    { modal: true },
+                    'Replace'
+                );
+                if (choice !== 'Replace') {
+                    return;
+                }
+            }
+
+            const description = await vscode.window.showInputBox({
+                prompt: 'Description (optional)',
+                placeHolder: 'Full-stack TypeScript app with Prisma'
+            });
+            if (description === undefined) {
+                return;
+            }
+
+            const preset = await this.rulesManager.savePreset(name, ruleIds, description);
+            vscode.window.showInformationMessage(`Saved preset "${preset.name}" with ${preset.ruleIds.length} rules`);
+        } catch (error) {
+            console.error('Failed to create preset:', error);
+            vscode.window.showErrorMessage(`Failed to create preset: ${error}`);
+        }
+    }
+
+    private async editPreset(presetIdOrTreeItem?: any): Promise<void> {
+        try {
+            const preset = await this.resolvePreset(presetIdOrTreeItem, 'Select a preset to edit');
+            if (!preset) {
+                return;
+            }
+
+            const ruleIds = await this.pickRules(preset.ruleIds, `Select the rules in "${preset.name}"`);
+            if (!ruleIds) {
+                return;
+            }
+
+            // Rules missing from the library cannot be shown, so they stay in the preset
+            const allRuleIds = new Set((await this.rulesManager.getAllRules()).map(rule => rule.id));
+            const missingRuleIds = preset.ruleIds.filter(ruleId => !allRuleIds.has(ruleId));
+
+            await this.rulesManager.savePreset(preset.name, [...ruleIds, ...missingRuleIds], undefined, preset.id);
+            vscode.window.showInformationMessage(`Updated preset "${preset.name}"`);
+        } catch (error) {
+            console.error('Failed to edit preset:', error);
+            vscode.window.showErrorMessage(`Failed to edit preset: ${error}`);
+        }
+    }
+
+    private async renamePreset(presetIdOrTreeItem?: any): Promise<void> {
+        try {
+            const preset = await this.resolvePreset(presetIdOrTreeItem, 'Select a preset to rename');
+            if (!preset) {
+                return;
+            }
+
+            const name = await vscode.window.showInputBox({
+                prompt: 'Preset name',
+                value: preset.name,
+                validateInput: value => value.trim() ? null : 'Preset name is required'
             });
+            if (!name || name.trim() === preset.name) {
+                return;
+            }
+
+            await this.rulesManager.savePreset(name, preset.ruleIds, undefined, preset.id);
+        } catch (error) {
+            console.error('Failed to rename preset:', error);
+            vscode.window.showErrorMessage(`Failed to rename preset: ${error}`);
+        }
+    }
+
+    private async deletePreset(presetIdOrTreeItem?: any): Promise<void> {
+        try {
+            const preset = await this.resolvePreset(presetIdOrTreeItem, 'Select a preset to delete');
+            if (!preset) {
+                return;
+            }
+
+            const choice = await vscode.window.showWarningMessage(
+                `Delete preset "${preset.name}"? Its rules stay in the library and keep their current state.`,
+                { modal: true },
+                'Delete'
+            );
+            if (choice === 'Delete') {
+                await this.rulesManager.deletePreset(preset.id);
+            }
+        } catch (error) {
+            console.error('Failed to delete preset:', error);
+            vscode.window.showErrorMessage(`Failed to delete preset: ${error}`);
+        }
+    }
 
-            if (!content) {
+    private async applyPreset(presetIdOrTreeItem: any, mode: PresetApplyMode): Promise<void> {
+        try {
+            const preset = await this.resolvePreset(
+                presetIdOrTreeItem,
+                mode === 'replace' ? 'Select a preset to replace the active rules with' : 'Select a preset to activate'
+            );
+            if (!preset) {
                 return;
             }
 
-            const technologiesInput = await vscode.window.showInputBox({
-                prompt: 'Enter technologies (comma-separated)',
-                placeHolder: 'React, TypeScript, Node.js'
+            if (mode === 'replace') {
+                const diff = await this.rulesManager.getPresetDiff(preset.id);
+                if (diff.notInPreset.length > 0) {
+                    const choice = await vscode.window.showWarningMessage(
+                        `Replacing with "${preset.name}" deactivates ${diff.notInPreset.length} rules: ${diff.notInPreset.map(rule => rule.name).join(', ')}`,
+                        { modal: true },
+                        'Replace'
+                    );
+                    if (choice !== 'Replace') {
+                        return;
+                    }
+                }
+            }
+
+            const diff = await this.rulesManager.applyPreset(preset.id, mode);
+            const deactivated = mode === 'replace' ? diff.notInPreset.length : 0;
+            vscode.window.showInformationMessage(
+                `Applied preset "${preset.name}": ${diff.toActivate.length} activated` +
+                `${deactivated > 0 ? `, ${deactivated} deactivated` : ''}` +
+                `${diff.alreadyActive.length > 0 ? `, ${diff.alreadyActive.length} already active` : ''}` +
+                `${diff.missingRuleIds.length > 0 ? ` (${diff.missingRuleIds.length} not in library)` : ''}`
+            );
+        } catch (error) {
+            console.error('Failed to apply preset:', error);
+            vscode.window.showErrorMessage(`Failed to apply preset: ${error}`);
+        }
+    }
+
+    // Preset compared with the target folder's active rules, with apply and replace offered on top
+    private async diffPreset(presetIdOrTreeItem?: any): Promise<void> {
+        try {
+            const preset = await this.resolvePreset(presetIdOrTreeItem, 'Select a preset to compare');
+            if (!preset) {
+                return;
+            }
+
+            const diff = await this.rulesManager.getPresetDiff(preset.id);
+            type DiffItem = vscode.QuickPickItem & { action?: PresetApplyMode; ruleId?: string };
+            const section = (label: string, rules: ReadonlyArray<CursorRule>, icon: string): DiffItem[] => rules.length === 0 ? [] : [
+                { label, kind: vscode.QuickPickItemKind.Separator },
+                ...rules.map(rule => ({ label: `$(${icon}) ${rule.name}`, description: rule.category, ruleId: rule.id }))
+            ];
+
+            const items: DiffItem[] = [
+                { label: '$(add) Apply Preset', description: `Activate ${diff.toActivate.length} rules`, action: 'apply' },
+                { label: '$(replace-all) Replace with Preset', description: `Activate ${diff.toActivate.length}, deactivate ${diff.notInPreset.length}`, action: 'replace' },
+                ...section('Activated by this preset', diff.toActivate, 'diff-added'),
+                ...section('Already active', diff.alreadyActive, 'check'),
+                ...section('Deactivated when replacing', diff.notInPreset, 'diff-removed'),
+                ...(diff.missingRuleIds.length === 0 ? [] : [
+                    { label: 'Not in library', kind: vscode.QuickPickItemKind.Separator },
+                    ...diff.missingRuleIds.map(ruleId => ({ label: `$(warning) ${ruleId}` }))
+                ])
+            ];
+
+            const selected = await vscode.window.showQuickPick(items, {
+                placeHolder: `"${preset.name}" compared with the active rules of ${this.rulesManager.getWorkspaceStats()}`,
+                matchOnDescription: true
             });
 
-            const technologies = technologiesInput ? 
-                technologiesInput.split(',').map(t => t.trim()).filter(t => t) : 
-                [];
+            if (selected?.action) {
+                await this.applyPreset(preset.id, selected.action);
+            } else if (selected?.ruleId) {
+                await this.previewRule(selected.ruleId);
+            }
+        } catch (error) {
+            console.error('Failed to compare preset:', error);
+            vscode.window.showErrorMessage(`Failed to compare preset: ${error}`);
+        }
+    }
+
+    private async exportPresets(presetIdOrTreeItem?: any): Promise<void> {
+        try {
+            let presets: RulePreset[];
+            if (presetIdOrTreeItem) {
+                const preset = await this.resolvePreset(presetIdOrTreeItem);
+                presets = preset ? [preset] : [];
+            } else {
+                const allPresets = await this.rulesManager.getPresets();
+                if (allPresets.length === 0) {
+                    vscode.window.showInformationMessage('No presets to export');
+                    return;
+                }
+                const selected = await vscode.window.showQuickPick(
+                    allPresets.map(preset => ({ label: preset.name, description: `${preset.ruleIds.length} rules`, picked: true, preset })),
+                    { placeHolder: 'Select presets to export', canPickMany: true }
+                );
+                presets = selected?.map(item => item.preset) || [];
+            }
+            if (presets.length === 0) {
+                return;
+            }
 
-            await this.rulesManager.importCustomRule(name, content, technologies);
+            const collection = await this.rulesManager.exportPresets(presets.map(preset => preset.id));
+            await this.saveCollection(collection, presets.length === 1 ? presets[0]!.name : 'presets');
         } catch (error) {
-            console.error('Failed to import custom rule:', error);
+            console.error('Failed to export presets:', error);
+            vscode.window.showErrorMessage(`Failed to export presets: ${error}`);
+        }
+    }
+
+    private async applyTeamManifest(workspaceIdOrTreeItem?: any): Promise<void> {
+        try {
+            const workspaceId = await this.resolveManifestWorkspace(workspaceIdOrTreeItem);
+            if (workspaceId) {
+                await this.rulesManager.reconcileTeamManifest(workspaceId, true);
+            }
+        } catch (error) {
+            console.error('Failed to apply team manifest:', error);
+            vscode.window.showErrorMessage(`Failed to apply team manifest: ${error}`);
+        }
+    }
+
+    private async saveTeamManifest(workspaceIdOrTreeItem?: any): Promise<void> {
+        try {
+            const workspaceId = await this.resolveManifestWorkspace(workspaceIdOrTreeItem);
+            if (workspaceId) {
+                await this.rulesManager.writeTeamManifest(workspaceId);
+            }
+        } catch (error) {
+            console.error('Failed to save team manifest:', error);
+            vscode.window.showErrorMessage(`Failed to save team manifest: ${error}`);
+        }
+    }
+
+    // Folder from a workspace folder node, or picked when several folders are open
+    private async resolveManifestWorkspace(workspaceIdOrTreeItem?: any): Promise<string | undefined> {
+        const workspaceId: string | undefined = typeof workspaceIdOrTreeItem === 'string'
+            ? workspaceIdOrTreeItem
+            : workspaceIdOrTreeItem?.workspaceId;
+        if (workspaceId) {
+            return workspaceId;
+        }
+
+        const folders = this.rulesManager.getWorkspaceFolders();
+        if (folders.length === 0) {
+            vscode.window.showErrorMessage('Open a folder to use a team manifest');
+            return undefined;
         }
+        if (folders.length === 1) {
+            return folders[0]!.workspaceId;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            folders.map(folder => ({ label: folder.name, detail: folder.workspaceId, workspaceId: folder.workspaceId })),
+            { placeHolder: 'Select a workspace folder' }
+        );
+        return selected?.workspaceId;
     }
 
     private async exportRules(): Promise<void> {
         try {
-            const exportOptions = [
+            const exportOptions: { label: string; value: 'all' | 'active' | 'favorites' }[] = [
                 { label: 'Export All Rules', value: 'all' },
                 { label: 'Export Active Rules', value: 'active' },
                 { label: 'Export Favorite Rules', value: 'favorites' }
@@ -442,24 +1157,163 @@ export class CommandManager {
                 return;
             }
 
-            switch (selected.value) {
-                case 'all':
-                    await this.rulesManager.exportRules();
-                    break;
-                case 'active':
-                    const activeRules = await this.rulesManager.getActiveRules();
-                    await this.rulesManager.exportRules(activeRules.map(r => r.id));
-                    break;
-                case 'favorites':
-                    const favoriteRules = await this.rulesManager.getFavoriteRules();
-                    await this.rulesManager.exportRules(favoriteRules.map(r => r.id));
-                    break;
+            const name = await vscode.window.showInputBox({
+                prompt: 'Collection name (optional)',
+                placeHolder: 'Team frontend rules'
+            });
+            if (name === undefined) {
+                return;
             }
+
+            const collection = await this.rulesManager.exportCollection(selected.value, name.trim() || undefined);
+            await this.saveCollection(collection, name.trim() || 'rules');
         } catch (error) {
             console.error('Failed to export rules:', error);
+            vscode.window.showErrorMessage(`Failed to export rules: ${error}`);
+        }
+    }
+
+    private async saveCollection(collection: RuleCollection, baseName: string): Promise<void> {
+        const content = this.rulesManager.serializeCollection(collection);
+
+        const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const fileName = `${baseName.replace(/[^a-zA-Z0-9-_]+/g, '-').toLowerCase()}.solidrules-collection.json`;
+        const target = await vscode.window.showSaveDialog({
+            ...(defaultFolder && { defaultUri: vscode.Uri.joinPath(defaultFolder, fileName) }),
+            filters: { 'Rule Collections': ['json'] },
+            saveLabel: 'Export Collection'
+        });
+        if (!target) {
+            return;
+        }
+
+        await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf-8'));
+        const presetCount = collection.presets?.length || 0;
+        const action = await vscode.window.showInformationMessage(
+            `Exported ${collection.rules.length} rules${presetCount > 0 ? ` and ${presetCount} presets` : ''} to ${target.fsPath}`,
+            'Open File'
+        );
+        if (action === 'Open File') {
+            await vscode.window.showTextDocument(target);
+        }
+    }
+
+    private async importCollection(): Promise<void> {
+        try {
+            const uris = await vscode.window.showOpenDialog({
+                canSelectFiles: true,
+                canSelectFolders: false,
+                canSelectMany: false,
+                openLabel: 'Import Collection',
+                filters: { 'Rule Collections': ['json'] }
+            });
+            const filePath = uris?.[0]?.fsPath;
+            if (!filePath) {
+                return;
+            }
+
+            const collection = await this.rulesManager.readCollection(filePath);
+
+            // Folder paths differ between machines: match exported folders by name, ask for the rest
+            const workspaceFolders = vscode.workspace.workspaceFolders || [];
+            const workspaceMapping = new Map<string, string>();
+            for (const exported of collection.workspaces) {
+                if (exported.activeRules.length === 0 && !exported.ruleSettings) {
+                    continue;
+                }
+
+                const sameName = workspaceFolders.find(folder => folder.name === exported.name);
+                if (sameName) {
+                    workspaceMapping.set(exported.name, sameName.uri.fsPath);
+                    continue;
+                }
+                if (workspaceFolders.length === 1 && collection.workspaces.length === 1) {
+                    workspaceMapping.set(exported.name, workspaceFolders[0]!.uri.fsPath);
+                    continue;
+                }
+                if (workspaceFolders.length === 0) {
+                    continue;
+                }
+
+                const target = await vscode.window.showQuickPick(
+                    [
+                        ...workspaceFolders.map(folder => ({ label: folder.name, description: folder.uri.fsPath, workspaceId: folder.uri.fsPath })),
+                        { label: 'Skip', description: 'Do not apply this folder\'s active rules', workspaceId: '' }
+                    ],
+                    { placeHolder: `Apply the ${exported.activeRules.length} active rules of "${exported.name}" to which folder?`, ignoreFocusOut: true }
+                );
+                if (target?.workspaceId) {
+                    workspaceMapping.set(exported.name, target.workspaceId);
+                }
+            }
+
+            let mode: 'merge' | 'replace' = 'merge';
+            if (workspaceMapping.size > 0) {
+                const modeChoice = await vscode.window.showQuickPick(
+                    [
+                        { label: 'Merge', description: 'Add the collection\'s active rules to the ones already active', mode: 'merge' as const },
+                        { label: 'Replace', description: 'Make active rules match the collection exactly', mode: 'replace' as const }
+                    ],
+                    { placeHolder: 'How should active rules be applied?', ignoreFocusOut: true }
+                );
+                if (!modeChoice) {
+                    return;
+                }
+                mode = modeChoice.mode;
+            }
+
+            const result = await this.rulesManager.importCollection(collection, filePath, { mode, workspaceMapping }, this.createConflictResolver());
+
+            vscode.window.showInformationMessage(
+                `Imported ${collection.name ? `"${collection.name}": ` : ''}${result.importedRules} rules` +
+                `${result.skippedRules > 0 ? ` (${result.skippedRules} skipped)` : ''}, ` +
+                `${result.favorites} favorites, active rules for ${result.workspaces} workspace folder${result.workspaces === 1 ? '' : 's'}` +
+                `${result.presets > 0 ? `, ${result.presets} presets` : ''}`
+            );
+        } catch (error) {
+            console.error('Failed to import rule collection:', error);
+            vscode.window.showErrorMessage(`Failed to import rule collection: ${error}`);
         }
     }
 
+    // Prompts once per conflicting import; a choice made "for all" applies to every remaining conflict.
+    // Library rules cannot be overwritten, so "Overwrite All" renames them instead
+    private createConflictResolver(): (candidate: RuleImportCandidate, existing: CursorRule) => Promise<ImportConflictResolution> {
+        let resolutionForAll: ImportConflictResolution | undefined;
+
+        return async (candidate, existing) => {
+            let resolution = resolutionForAll;
+            if (!resolution) {
+                const choice = await this.pickConflictResolution(candidate.name, existing.name, existing.isCustom);
+                if (choice?.forAll) {
+                    resolutionForAll = choice.resolution;
+                }
+                resolution = choice?.resolution || 'skip';
+            }
+            return resolution === 'overwrite' && !existing.isCustom ? 'rename' : resolution;
+        };
+    }
+
+    private async pickConflictResolution(
+        candidateName: string,
+        existingName: string,
+        canOverwrite: boolean
+    ): Promise<{ resolution: ImportConflictResolution; forAll: boolean } | undefined> {
+        const conflictOptions: { label: string; description: string; resolution: ImportConflictResolution; forAll: boolean }[] = [
+            { label: 'Skip', description: 'Keep the existing rule', resolution: 'skip', forAll: false },
+            ...(canOverwrite ? [{ label: 'Overwrite', description: 'Replace the existing custom rule', resolution: 'overwrite' as const, forAll: false }] : []),
+            { label: 'Rename', description: 'Import as a new rule with a numbered name', resolution: 'rename', forAll: false },
+            { label: 'Skip All', description: 'Skip every remaining conflict', resolution: 'skip', forAll: true },
+            { label: 'Overwrite All', description: 'Overwrite remaining custom rules, rename the rest', resolution: 'overwrite', forAll: true },
+            { label: 'Rename All', description: 'Rename every remaining conflict', resolution: 'rename', forAll: true }
+        ];
+
+        return vscode.window.showQuickPick(conflictOptions, {
+            placeHolder: `"${candidateName}" conflicts with existing ${canOverwrite ? 'custom' : 'library'} rule "${existingName}"`,
+            ignoreFocusOut: true
+        });
+    }
+
     private async openSettings(): Promise<void> {
         try {
             await vscode.commands.executeCommand('workbench.action.openSettings', 'solidrules');
@@ -476,11 +1330,214 @@ export class CommandManager {
         }
     }
 
-    private async updateAllRules(): Promise<void> {
+    private async reviewRuleUpdate(ruleIdOrTreeItem?: any): Promise<void> {
         try {
-            await this.rulesManager.updateAllRules();
+            const ruleId: string | undefined = typeof ruleIdOrTreeItem === 'string' ? ruleIdOrTreeItem : ruleIdOrTreeItem?.rule?.id;
+            if (!ruleId) {
+                vscode.window.showErrorMessage('No rule selected');
+                return;
+            }
+            if (await this.reviewUpdate(ruleId) === 'unchanged') {
+                vscode.window.showInformationMessage('The upstream version has no changes to review');
+            }
         } catch (error) {
-            console.error('Failed to update all rules:', error);
+            console.error('Failed to review rule update:', error);
+            vscode.window.showErrorMessage(`Failed to review rule update: ${error}`);
+        }
+    }
+
+    // Diff of the stored rule against its upstream version, then accept, skip or pin.
+    // Returns undefined when the user closed the prompt without deciding
+    private async reviewUpdate(ruleId: string): Promise<'accept' | 'skip' | 'pin' | 'unchanged' | undefined> {
+        const rule = await this.rulesManager.getRuleById(ruleId);
+        if (!rule) {
+            throw new Error('Rule not found');
+        }
+
+        const update = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Fetching the latest version of ${rule.name}...`,
+            cancellable: false
+        }, () => this.rulesManager.fetchRuleUpdate(ruleId));
+
+        // An empty diff: take the upstream version without asking, so the update is no longer pending
+        if (this.rulesManager.renderProjectRule(update) === this.rulesManager.renderProjectRule(rule)) {
+            await this.rulesManager.updateRule(ruleId);
+            console.log(`⏭️ No changes to review in ${rule.name} ${formatRuleVersion(update.version)}`);
+            return 'unchanged';
+        }
+
+        const fileName = this.rulesManager.getProjectRuleFileName(rule);
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            RuleContentProvider.createUri(rule.id, fileName),
+            RuleContentProvider.createUri(rule.id, fileName, update.version || String(update.lastUpdated?.getTime() || Date.now())),
+            `${rule.name}: ${formatRuleVersion(rule.version)} ↔ ${formatRuleVersion(update.version)} (Upstream)`,
+            { preview: true }
+        );
+
+        const choice = await vscode.window.showInformationMessage(
+            `Apply the upstream version of "${rule.name}"?`,
+            'Accept',
+            'Skip',
+            'Pin Current Version'
+        );
+
+        if (choice === 'Accept') {
+            await this.rulesManager.updateRule(ruleId);
+            vscode.window.showInformationMessage(`Updated "${rule.name}" to ${formatRuleVersion(update.version)}`);
+            return 'accept';
+        }
+        if (choice === 'Skip') {
+            await this.rulesManager.skipRuleUpdate(ruleId);
+            return 'skip';
+        }
+        if (choice === 'Pin Current Version') {
+            await this.rulesManager.setRulePinned(ruleId, true);
+            vscode.window.showInformationMessage(`Pinned "${rule.name}" to ${formatRuleVersion(rule.version)}`);
+            return 'pin';
+        }
+        return undefined;
+    }
+
+    // Pending updates as a list: review them one at a time (the list comes back until it is empty) or all in a row.
+    // Every update is applied through its own diff review
+    private async reviewUpdates(): Promise<void> {
+        try {
+            while (true) {
+                const updates = await this.rulesManager.getPendingUpdates();
+                if (updates.length === 0) {
+                    vscode.window.showInformationMessage('All rules are up to date');
+                    return;
+                }
+
+                type UpdateItem = vscode.QuickPickItem & { ruleId?: string; reviewAll?: boolean };
+                const items: UpdateItem[] = [
+                    { label: `$(checklist) Review All ${updates.length} Updates`, description: 'One after the other', reviewAll: true },
+                    { label: 'Updates', kind: vscode.QuickPickItemKind.Separator },
+                    ...updates.map(update => ({
+                        label: `$(diff) ${update.ruleName}`,
+                        description: `${formatRuleVersion(update.currentVersion)} → ${formatRuleVersion(update.latestVersion)}`,
+                        detail: `Checked ${this.rulesManager.formatLastUpdated(update.lastChecked)}`,
+                        ruleId: update.ruleId
+                    }))
+                ];
+
+                const selected = await vscode.window.showQuickPick(items, {
+                    placeHolder: 'Select an update to review its changes',
+                    ignoreFocusOut: true
+                });
+                if (!selected) {
+                    return;
+                }
+
+                if (selected.reviewAll) {
+                    for (const update of updates) {
+                        // Closing a review without deciding stops the rest
+                        if (!await this.reviewUpdate(update.ruleId)) {
+                            return;
+                        }
+                    }
+                    continue;
+                }
+                if (selected.ruleId && !await this.reviewUpdate(selected.ruleId)) {
+                    return;
+                }
+            }
+        } catch (error) {
+            console.error('Failed to review updates:', error);
+            vscode.window.showErrorMessage(`Failed to review updates: ${error}`);
+        }
+    }
+
+    // Pin at the current version, or at a stored previous version (which rolls the rule back to it)
+    private async pinRule(ruleIdOrTreeItem?: any): Promise<void> {
+        try {
+            const ruleId: string | undefined = typeof ruleIdOrTreeItem === 'string' ? ruleIdOrTreeItem : ruleIdOrTreeItem?.rule?.id;
+            const rule = ruleId ? await this.rulesManager.getRuleById(ruleId) : null;
+            if (!rule) {
+                vscode.window.showErrorMessage('No rule selected');
+                return;
+            }
+
+            const history = await this.rulesManager.getRuleHistory(rule.id);
+            let historyIndex = -1;
+            if (history.length > 0) {
+                const selected = await vscode.window.showQuickPick(
+                    [
+                        { label: `$(pinned) ${formatRuleVersion(rule.version)}`, description: 'Current version', index: -1 },
+                        ...history.map((entry, index) => ({
+                            label: `$(history) ${formatRuleVersion(entry.version)}`,
+                            description: `Fetched ${this.rulesManager.formatLastUpdated(entry.fetchedAt)}`,
+                            detail: entry.description,
+                            index
+                        }))
+                    ],
+                    { placeHolder: `Pin "${rule.name}" to which version?` }
+                );
+                if (!selected) {
+                    return;
+                }
+                historyIndex = selected.index;
+            }
+
+            if (historyIndex >= 0) {
+                const restored = await this.rulesManager.restoreRuleVersion(rule.id, historyIndex);
+                vscode.window.showInformationMessage(`Rolled back "${rule.name}" and pinned it to ${formatRuleVersion(restored.version)}`);
+            } else {
+                await this.rulesManager.setRulePinned(rule.id, true);
+                vscode.window.showInformationMessage(`Pinned "${rule.name}" to ${formatRuleVersion(rule.version)}; updates are skipped until you unpin it`);
+            }
+        } catch (error) {
+            console.error('Failed to pin rule:', error);
+            vscode.window.showErrorMessage(`Failed to pin rule: ${error}`);
+        }
+    }
+
+    private async unpinRule(ruleIdOrTreeItem?: any): Promise<void> {
+        try {
+            const ruleId: string | undefined = typeof ruleIdOrTreeItem === 'string' ? ruleIdOrTreeItem : ruleIdOrTreeItem?.rule?.id;
+            if (!ruleId) {
+                vscode.window.showErrorMessage('No rule selected');
+                return;
+            }
+            await this.rulesManager.setRulePinned(ruleId, false);
+        } catch (error) {
+            console.error('Failed to unpin rule:', error);
+            vscode.window.showErrorMessage(`Failed to unpin rule: ${error}`);
+        }
+    }
+
+    private async rollbackRule(ruleIdOrTreeItem?: any): Promise<void> {
+        try {
+            const ruleId: string | undefined = typeof ruleIdOrTreeItem === 'string' ? ruleIdOrTreeItem : ruleIdOrTreeItem?.rule?.id;
+            const rule = ruleId ? await this.rulesManager.getRuleById(ruleId) : null;
+            if (!rule) {
+                vscode.window.showErrorMessage('No rule selected');
+                return;
+            }
+
+            const previous = (await this.rulesManager.getRuleHistory(rule.id))[0];
+            if (!previous) {
+                vscode.window.showInformationMessage(`"${rule.name}" has no previous version yet`);
+                return;
+            }
+
+            const choice = await vscode.window.showWarningMessage(
+                `Roll back "${rule.name}" from ${formatRuleVersion(rule.version)} to ${formatRuleVersion(previous.version)} ` +
+                `(fetched ${this.rulesManager.formatLastUpdated(previous.fetchedAt)})? The rule is pinned so refreshes keep this version.`,
+                { modal: true },
+                'Roll Back'
+            );
+            if (choice !== 'Roll Back') {
+                return;
+            }
+
+            await this.rulesManager.restoreRuleVersion(rule.id, 0);
+            vscode.window.showInformationMessage(`Rolled back "${rule.name}" to ${formatRuleVersion(previous.version)}`);
+        } catch (error) {
+            console.error('Failed to roll back rule:', error);
+            vscode.window.showErrorMessage(`Failed to roll back rule: ${error}`);
         }
     }
 
@@ -494,6 +1551,37 @@ export class CommandManager {
         }
     }
 
+    private async selectWorkspaceFolder(workspaceId?: string): Promise<void> {
+        try {
+            if (!workspaceId) {
+                const folders = this.rulesManager.getWorkspaceFolders();
+                if (folders.length === 0) {
+                    vscode.window.showInformationMessage('No workspace is currently open');
+                    return;
+                }
+
+                const selected = await vscode.window.showQuickPick(
+                    folders.map(folder => ({
+                        label: folder.name,
+                        description: folder.isCurrent ? 'Current target' : '',
+                        detail: folder.workspaceId,
+                        workspaceId: folder.workspaceId
+                    })),
+                    { placeHolder: 'Select the workspace folder rules should apply to' }
+                );
+
+                if (!selected) {
+                    return;
+                }
+                workspaceId = selected.workspaceId;
+            }
+
+            this.rulesManager.selectWorkspaceFolder(workspaceId);
+        } catch (error) {
+            console.error('Failed to select workspace folder:', error);
+        }
+    }
+
     private async clearFilters(): Promise<void> {
         try {
             await this.rulesExplorerProvider.clearFilters();
@@ -554,6 +1642,96 @@ export class CommandManager {
         }
     }
 
+    private async filterBySource(): Promise<void> {
+        try {
+            const sourceNames = this.rulesManager.getRuleSourceNames();
+            
+            const options = [
+                { label: 'All Sources', description: '', value: 'all' },
+                ...Array.from(sourceNames).map(([id, name]) => ({ label: name, description: id, value: id }))
+            ];
+
+            const selected = await vscode.window.showQuickPick(options, {
+                placeHolder: 'Filter by source'
+            });
+
+            if (selected) {
+                const filters = selected.value === 'all' 
+                    ? { sortBy: 'recent' as const }
+                    : { source: selected.value, sortBy: 'recent' as const };
+                await this.rulesExplorerProvider.applyFilters(filters);
+            }
+        } catch (error) {
+            console.error('Failed to filter by source:', error);
+        }
+    }
+
+    private async groupRules(): Promise<void> {
+        try {
+            const current = this.rulesExplorerProvider.getGroupBy();
+            const options = [
+                { label: 'Category', value: 'category' as const, picked: current === 'category' },
+                { label: 'Source', value: 'source' as const, picked: current === 'source' }
+            ];
+
+            const selected = await vscode.window.showQuickPick(options, {
+                placeHolder: 'Group rules by...'
+            });
+
+            if (selected) {
+                this.rulesExplorerProvider.setGroupBy(selected.value);
+            }
+        } catch (error) {
+            console.error('Failed to group rules:', error);
+        }
+    }
+
+    private async checkForUpdates(): Promise<void> {
+        try {
+            const updates = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Checking for rule updates...',
+                cancellable: false
+            }, () => this.updateScheduler.checkNow());
+
+            // New updates are announced by the update notification
+            if (updates.length === 0) {
+                const pendingCount = (await this.rulesManager.getPendingUpdates()).length;
+                vscode.window.showInformationMessage(pendingCount > 0
+                    ? `No new rule updates. ${pendingCount} update${pendingCount === 1 ? ' is' : 's are'} still waiting for review.`
+                    : 'All rules are up to date.');
+            }
+        } catch (error) {
+            console.error('Failed to check for updates:', error);
+            vscode.window.showErrorMessage(`Failed to check for updates: ${error}`);
+        }
+    }
+
+    private async checkSourceForUpdates(sourceIdOrTreeItem?: any): Promise<void> {
+        try {
+            // Source nodes keep the source id in their category field
+            let sourceId: string | undefined = typeof sourceIdOrTreeItem === 'string'
+                ? sourceIdOrTreeItem
+                : sourceIdOrTreeItem?.category;
+
+            if (!sourceId) {
+                const selected = await vscode.window.showQuickPick(
+                    this.rulesManager.getRuleSources().map(source => ({ label: source.name, description: source.id, value: source.id })),
+                    { placeHolder: 'Select a source to check for updates' }
+                );
+                if (!selected) {
+                    return;
+                }
+                sourceId = selected.value;
+            }
+
+            await this.rulesManager.checkForUpdates(sourceId);
+        } catch (error) {
+            console.error('Failed to check source for updates:', error);
+            vscode.window.showErrorMessage(`Failed to check for updates: ${error}`);
+        }
+    }
+
     private async sortRules(): Promise<void> {
         try {
             const options = [
@@ -687,12 +1865,13 @@ export class CommandManager {
             );
 
             if (confirmation === 'Continue Without Token') {
-                // Set context to show other panels
-                await vscode.commands.executeCommand('setContext', 'solidrules.tokenConfigured', true);
+                // Anonymous mode: hide the setup view; the rule views show a banner recommending a token
+                await this.rulesManager.getGitHubService().setTokenSetupSkipped(true);
+                await vscode.commands.executeCommand('setContext', 'solidrules.tokenSetupSkipped', true);
                 
                 // Refresh rules with rate limit
                 await this.rulesManager.refreshRules();
-                vscode.window.showInformationMessage('✅ Continuing without token (rate limited)');
+                vscode.window.showInformationMessage('✅ Continuing in anonymous mode (60 GitHub requests per hour)');
             } else if (confirmation === 'Setup Token') {
                 await this.configureGitHubToken();
             }
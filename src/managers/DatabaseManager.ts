@@ -1,42 +1,160 @@
 import * as vscode from 'vscode';
-import { CursorRule, WorkspaceRuleConfig, UpdateInfo } from '../types';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { RuleStoreService, StoredRuleRecord } from '../services/RuleStoreService';
+import { SearchIndexService, createSnippet } from '../services/SearchIndexService';
+import { CursorRule, WorkspaceRuleConfig, UpdateInfo, MdcRuleSettings, RulePreset, RuleVersion, RuleSearchMatch, SavedSearch, DATABASE_SCHEMA_VERSION } from '../types';
+
+const STORAGE_KEYS = {
+    // Rules used to live in globalState under this key; now only read to migrate them into the rule store
+    rules: 'solidrules.rules',
+    workspaces: 'solidrules.workspaces',
+    updates: 'solidrules.updates',
+    favorites: 'solidrules.favorites',
+    migrations: 'solidrules.migrations',
+    presets: 'solidrules.presets',
+    ruleHistory: 'solidrules.ruleHistory',
+    lastUpdateCheck: 'solidrules.lastUpdateCheck',
+    savedSearches: 'solidrules.savedSearches',
+    // Set once the database has held rules, so only a fresh install is seeded and Clear Database stays empty
+    seeded: 'solidrules.seeded',
+    // Missing before schema versioning, which reads as version 0
+    schemaVersion: 'solidrules.schemaVersion'
+} as const;
+
+// Previous versions kept per rule, newest first
+const MAX_RULE_HISTORY = 10;
+// Backups taken before migrating, newest kept
+const MAX_BACKUPS = 3;
+
+// Rule writes of a committed transaction
+interface RuleChanges {
+    readonly cleared: boolean;
+    readonly saved: ReadonlyArray<StoredRuleRecord>;
+    readonly deleted: ReadonlyArray<string>;
+}
+
+interface DatabaseMigration {
+    // Schema version the data is at once the migration ran
+    readonly version: number;
+    readonly name: string;
+    migrate(tx: DatabaseTransaction): Promise<void> | void;
+}
+
+// Applied in order to data below their version, each in its own transaction. Append new migrations
+// (and bump DATABASE_SCHEMA_VERSION); never change one that has shipped.
+// Moving the old global activation flags into a workspace is not one of them: it needs an open workspace,
+// so migrateGlobalActivation runs it later and tracks it in solidrules.migrations
+const MIGRATIONS: ReadonlyArray<DatabaseMigration> = [
+    {
+        // Rules used to be one globalState array
+        version: 1,
+        name: 'rule store',
+        migrate: tx => {
+            const storedRules = tx.getValue<any[]>(STORAGE_KEYS.rules, []);
+            // Entries reduced to { id, isActive } were already moved and only wait for migrateGlobalActivation
+            const rules = storedRules.filter(rule => rule && typeof rule.id === 'string' && typeof rule.content === 'string');
+            if (rules.length === 0) {
+                return;
+            }
+
+            tx.saveRules(rules);
+
+            const migrations = tx.getValue<string[]>(STORAGE_KEYS.migrations, []);
+            const activeFlags = migrations.includes('workspaceActivation')
+                ? []
+                : storedRules.filter(rule => rule?.isActive).map(rule => ({ id: rule.id, isActive: true }));
+            tx.setValue(STORAGE_KEYS.rules, activeFlags.length > 0 ? activeFlags : undefined);
+            console.log(`📦 Moved ${rules.length} rules from globalState to the rule store`);
+        }
+    },
+    {
+        // Older versions stored rules and workspaces with missing or malformed fields that reads had to coerce
+        version: 2,
+        name: 'normalize records',
+        migrate: async tx => {
+            const rules = await tx.getAllRules();
+            const unusable = rules.filter(rule => typeof rule.name !== 'string' || !rule.name);
+            unusable.forEach(rule => tx.deleteRule(rule.id));
+            tx.saveRules(rules.filter(rule => !unusable.includes(rule)).map(rule => ({
+                ...rule,
+                createdAt: isNaN(rule.createdAt.getTime()) ? new Date() : rule.createdAt,
+                technologies: Array.isArray(rule.technologies) ? rule.technologies.filter(technology => typeof technology === 'string') : [],
+                tags: Array.isArray(rule.tags) ? rule.tags.filter(tag => typeof tag === 'string') : []
+            })));
+
+            const workspaces = tx.getValue<any[]>(STORAGE_KEYS.workspaces, [])
+                .filter(workspace => workspace && typeof workspace.workspaceId === 'string')
+                .map(workspace => ({
+                    ...workspace,
+                    rulesDirectory: workspace.rulesDirectory || 'cursorRules',
+                    activeRules: Array.from(new Set<string>((workspace.activeRules || []).filter((id: unknown) => typeof id === 'string')))
+                }));
+            tx.setValue(STORAGE_KEYS.workspaces, workspaces);
+            console.log(`🧹 Normalized ${rules.length} rules and ${workspaces.length} workspaces, dropped ${unusable.length} unusable rules`);
+        }
+    }
+];
 
 export class DatabaseManager {
-    private readonly rulesStorageKey = 'solidrules.rules';
-    private readonly workspacesStorageKey = 'solidrules.workspaces';
-    private readonly updatesStorageKey = 'solidrules.updates';
-    private readonly favoritesStorageKey = 'solidrules.favorites';
+    // Every write runs as a transaction on this queue, one after the other
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    // Rules and their content live on disk, outside VS Code's state database
+    private ruleStore: RuleStoreService;
 
-    // Enhanced mutex for better concurrency control
-    private saveMutex: Promise<void> = Promise.resolve();
-    // Note: batchMutex removed as it's not used in current implementation
-    // TODO: Implement proper batch operations if needed in the future
+    // Full-text index over the rules, built on the first search and then kept up to date by every transaction
+    private searchIndex = new SearchIndexService();
+    private searchIndexReady: Promise<void> | undefined;
+
+    constructor(private context: vscode.ExtensionContext) {
+        this.ruleStore = new RuleStoreService(this.rulesPath);
+        // Another window changed the rules: rebuild on the next search
+        this.ruleStore.onDidInvalidate(() => this.resetSearchIndex());
+    }
 
-    // Performance optimization: cache frequently accessed data  
-    // Note: Cache implementation removed for now to reduce complexity
-    // TODO: Implement proper caching strategy with invalidation if performance becomes an issue
+    private get rulesPath(): string {
+        return path.join(this.context.globalStorageUri.fsPath, 'rules');
+    }
 
-    constructor(private context: vscode.ExtensionContext) {}
+    private get backupsPath(): string {
+        return path.join(this.context.globalStorageUri.fsPath, 'backups');
+    }
 
-    async initialize(): Promise<void> {
+    // seedRules provides the rules of a fresh install (the bundled catalog snapshot); later refreshes only fetch what changed
+    async initialize(seedRules?: () => Promise<CursorRule[]>): Promise<void> {
         try {
             // Ensure the directory exists
             await vscode.workspace.fs.createDirectory(this.context.globalStorageUri);
-            
+
+            await this.ruleStore.load();
+            await this.runMigrations();
+
             // Initialize storage if needed
-            if (!this.context.globalState.get(this.rulesStorageKey)) {
-                await this.context.globalState.update(this.rulesStorageKey, []);
-            }
-            if (!this.context.globalState.get(this.workspacesStorageKey)) {
-                await this.context.globalState.update(this.workspacesStorageKey, []);
-            }
-            if (!this.context.globalState.get(this.updatesStorageKey)) {
-                await this.context.globalState.update(this.updatesStorageKey, []);
+            await this.transaction(tx => {
+                for (const key of [STORAGE_KEYS.workspaces, STORAGE_KEYS.updates, STORAGE_KEYS.favorites, STORAGE_KEYS.presets]) {
+                    if (!tx.getValue(key, undefined)) {
+                        tx.setValue(key, []);
+                    }
+                }
+            });
+
+            if (seedRules && this.ruleStore.count() === 0 && !this.context.globalState.get<boolean>(STORAGE_KEYS.seeded, false)) {
+                try {
+                    const rules = await seedRules();
+                    if (rules.length > 0) {
+                        await this.saveRulesBatch(rules);
+                        console.log(`🌱 Seeded ${rules.length} rules into the empty database`);
+                    }
+                } catch (error) {
+                    // An unusable seed leaves the database empty until the first refresh
+                    console.error('❌ Failed to seed rules:', error);
+                }
             }
-            if (!this.context.globalState.get(this.favoritesStorageKey)) {
-                await this.context.globalState.update(this.favoritesStorageKey, []);
+            if (this.ruleStore.count() > 0 && !this.context.globalState.get<boolean>(STORAGE_KEYS.seeded, false)) {
+                await this.transaction(tx => tx.setValue(STORAGE_KEYS.seeded, true));
             }
-            
+
             console.log('Database initialized successfully');
         } catch (error) {
             console.error('Failed to initialize database:', error);
@@ -44,44 +162,123 @@ export class DatabaseManager {
         }
     }
 
-    async saveRule(rule: CursorRule): Promise<void> {
-        // Use mutex to prevent race conditions with enhanced error handling
-        this.saveMutex = this.saveMutex.then(async () => {
+    // Commits the writes of `work` once it resolves; nothing is written if it throws, and a failed commit is undone.
+    // Runs after the transactions before it, so never await another DatabaseManager write inside `work`
+    async transaction<T>(work: (tx: DatabaseTransaction) => Promise<T> | T): Promise<T> {
+        return this.enqueue(async () => {
+            const tx = new DatabaseTransaction(this.context, this.ruleStore);
+            const result = await work(tx);
+            this.updateSearchIndex(await tx.commit());
+            return result;
+        });
+    }
+
+    private enqueue<T>(work: () => Promise<T>): Promise<T> {
+        const run = this.writeQueue.catch(() => undefined).then(work);
+        this.writeQueue = run.then(() => undefined, () => undefined);
+        return run;
+    }
+
+    private getSchemaVersion(): number {
+        return this.context.globalState.get<number>(STORAGE_KEYS.schemaVersion, 0);
+    }
+
+    // Bring stored data up to DATABASE_SCHEMA_VERSION. Existing data is backed up first; if a migration
+    // fails, the backup is restored so the data stays usable by the version that wrote it
+    private async runMigrations(): Promise<void> {
+        const currentVersion = this.getSchemaVersion();
+        if (currentVersion > DATABASE_SCHEMA_VERSION) {
+            console.warn(`⚠️ Stored data has schema ${currentVersion}, newer than ${DATABASE_SCHEMA_VERSION}; leaving it as is`);
+            return;
+        }
+
+        const pending = MIGRATIONS.filter(migration => migration.version > currentVersion);
+        if (pending.length === 0) {
+            return;
+        }
+
+        // A fresh install has nothing to back up
+        const hasData = this.ruleStore.count() > 0 || Object.values(STORAGE_KEYS).some(key => this.context.globalState.get(key) !== undefined);
+        const backupPath = hasData ? await this.backupData(currentVersion) : undefined;
+
+        for (const migration of pending) {
             try {
-                const rules = await this.getAllRules();
-                const existingIndex = rules.findIndex(r => r.id === rule.id);
-                
-                if (existingIndex >= 0) {
-                    rules[existingIndex] = rule;
-                } else {
-                    rules.push(rule);
-                }
-                
-                await this.context.globalState.update(this.rulesStorageKey, rules);
-                console.log(`🔒 Saved rule ${rule.name}, total rules in DB: ${rules.length}`);
+                await this.transaction(async tx => {
+                    await migration.migrate(tx);
+                    tx.setValue(STORAGE_KEYS.schemaVersion, migration.version);
+                });
+                console.log(`🔧 Migrated database to schema ${migration.version} (${migration.name})`);
             } catch (error) {
-                console.error('Failed to save rule:', error);
-                throw error;
+                console.error(`❌ Database migration to schema ${migration.version} (${migration.name}) failed:`, error);
+                if (!backupPath) {
+                    throw error;
+                }
+                try {
+                    await this.restoreBackup(backupPath);
+                } catch (restoreError) {
+                    console.error('❌ Failed to restore the database backup:', restoreError);
+                    throw new Error(`Database migration failed (${error}) and restoring the backup in ${backupPath} failed too (${restoreError})`);
+                }
+                throw new Error(`Database migration failed (${error}); your data was restored from the backup in ${backupPath}`);
+            }
+        }
+    }
+
+    // Copy the state keys and the rule store folder into backups/<time>-schema-<version>
+    private async backupData(schemaVersion: number): Promise<string> {
+        return this.enqueue(async () => {
+            const backupPath = path.join(this.backupsPath, `${Date.now()}-schema-${schemaVersion}`);
+            await fs.mkdir(backupPath, { recursive: true });
+
+            const state: Record<string, unknown> = {};
+            for (const key of Object.values(STORAGE_KEYS)) {
+                state[key] = this.context.globalState.get(key);
             }
+            await fs.writeFile(path.join(backupPath, 'state.json'), JSON.stringify({ schemaVersion, createdAt: new Date().toISOString(), state }));
+            await fs.cp(this.rulesPath, path.join(backupPath, 'rules'), { recursive: true });
+
+            // Names start with the time, so they sort oldest first
+            const backups = (await fs.readdir(this.backupsPath)).sort();
+            for (const oldBackup of backups.slice(0, Math.max(backups.length - MAX_BACKUPS, 0))) {
+                await fs.rm(path.join(this.backupsPath, oldBackup), { recursive: true, force: true });
+            }
+
+            console.log(`💾 Backed up schema ${schemaVersion} data to ${backupPath}`);
+            return backupPath;
+        });
+    }
+
+    private async restoreBackup(backupPath: string): Promise<void> {
+        return this.enqueue(async () => {
+            const { state } = JSON.parse(await fs.readFile(path.join(backupPath, 'state.json'), 'utf-8'));
+            // Keys missing from the backup were unset
+            for (const key of Object.values(STORAGE_KEYS)) {
+                await this.context.globalState.update(key, state[key]);
+            }
+
+            await fs.rm(this.rulesPath, { recursive: true, force: true });
+            await fs.cp(path.join(backupPath, 'rules'), this.rulesPath, { recursive: true });
+            await this.ruleStore.reload();
+            this.resetSearchIndex();
+            console.log(`♻️ Restored database backup from ${backupPath}`);
         });
-        
-        return this.saveMutex;
+    }
+
+    async saveRule(rule: CursorRule): Promise<void> {
+        try {
+            await this.transaction(tx => tx.saveRule(rule));
+            console.log(`🔒 Saved rule ${rule.name}, total rules in DB: ${this.ruleStore.count()}`);
+        } catch (error) {
+            console.error('Failed to save rule:', error);
+            throw error;
+        }
     }
 
     async saveRulesBatch(rules: CursorRule[]): Promise<void> {
         try {
             console.log(`💾 Batch saving ${rules.length} rules...`);
-            const existingRules = await this.getAllRules();
-            const existingRulesMap = new Map(existingRules.map(r => [r.id, r]));
-            
-            // Merge new rules with existing ones
-            rules.forEach(rule => {
-                existingRulesMap.set(rule.id, rule);
-            });
-            
-            const allRules = Array.from(existingRulesMap.values());
-            await this.context.globalState.update(this.rulesStorageKey, allRules);
-            console.log(`✅ Batch saved ${rules.length} rules, total in DB: ${allRules.length}`);
+            await this.transaction(tx => tx.saveRules(rules));
+            console.log(`✅ Batch saved ${rules.length} rules, total in DB: ${this.ruleStore.count()}`);
         } catch (error) {
             console.error('Failed to batch save rules:', error);
             throw error;
@@ -90,8 +287,8 @@ export class DatabaseManager {
 
     async getAllRules(): Promise<CursorRule[]> {
         try {
-            const rules = this.context.globalState.get<any[]>(this.rulesStorageKey, []);
-            return rules.map(this.deserializeRule);
+            const rules = await this.ruleStore.getAll();
+            return rules.map(deserializeRule);
         } catch (error) {
             console.error('Failed to get all rules:', error);
             return [];
@@ -100,8 +297,8 @@ export class DatabaseManager {
 
     async getRuleById(id: string): Promise<CursorRule | null> {
         try {
-            const rules = await this.getAllRules();
-            return rules.find(rule => rule.id === id) || null;
+            const rule = await this.ruleStore.get(id);
+            return rule ? deserializeRule(rule) : null;
         } catch (error) {
             console.error('Failed to get rule by id:', error);
             return null;
@@ -110,18 +307,25 @@ export class DatabaseManager {
 
     async getRulesByTechnology(technology: string): Promise<CursorRule[]> {
         try {
-            const rules = await this.getAllRules();
-            return rules.filter(rule => 
-                rule.technologies.some(tech => 
-                    tech.toLowerCase().includes(technology.toLowerCase())
-                )
-            );
+            const ruleIds = await this.ruleStore.getIdsByTechnology(technology);
+            return (await this.ruleStore.getMany(ruleIds)).map(deserializeRule);
         } catch (error) {
             console.error('Failed to get rules by technology:', error);
             return [];
         }
     }
 
+    // Rules of one source; custom rules and rules stored before sources existed have no sourceId
+    async getRulesBySource(sourceId: string | undefined): Promise<CursorRule[]> {
+        try {
+            const ruleIds = await this.ruleStore.getIdsBySource(sourceId || '');
+            return (await this.ruleStore.getMany(ruleIds)).map(deserializeRule);
+        } catch (error) {
+            console.error('Failed to get rules by source:', error);
+            return [];
+        }
+    }
+
     async getFavoriteRules(): Promise<CursorRule[]> {
         try {
             const rules = await this.getAllRules();
@@ -132,74 +336,91 @@ export class DatabaseManager {
         }
     }
 
-    async getActiveRules(): Promise<CursorRule[]> {
+    async getActiveRules(workspaceId: string): Promise<CursorRule[]> {
         try {
-            const rules = await this.getAllRules();
-            return rules.filter(rule => rule.isActive);
+            const activeRuleIds = await this.getActiveRuleIds(workspaceId);
+            return (await this.ruleStore.getMany(activeRuleIds)).map(deserializeRule);
         } catch (error) {
             console.error('Failed to get active rules:', error);
             return [];
         }
     }
 
-    async updateRuleStatus(ruleId: string, isActive: boolean): Promise<void> {
+    async getActiveRuleIds(workspaceId: string): Promise<string[]> {
+        const config = await this.getWorkspaceConfig(workspaceId);
+        return config ? [...config.activeRules] : [];
+    }
+
+    async updateRuleStatus(workspaceId: string, ruleId: string, isActive: boolean): Promise<void> {
         try {
-            const rule = await this.getRuleById(ruleId);
-            if (rule) {
-                rule.isActive = isActive;
-                await this.saveRule(rule);
-            }
+            await this.transaction(tx => tx.setRuleActive(workspaceId, ruleId, isActive));
         } catch (error) {
             console.error('Failed to update rule status:', error);
             throw error;
         }
     }
 
-    async updateRuleFavorite(ruleId: string, isFavorite: boolean): Promise<void> {
+    // Set (or clear with undefined) the rule type override of one rule in one workspace
+    async updateWorkspaceRuleSettings(workspaceId: string, ruleId: string, settings: MdcRuleSettings | undefined): Promise<void> {
+        return this.transaction(tx => tx.setWorkspaceRuleSettings(workspaceId, ruleId, settings));
+    }
+
+    // Update a workspace's active rule set and rule type overrides together
+    async updateWorkspaceRuleState(
+        workspaceId: string,
+        mutate: (activeRuleIds: Set<string>, ruleSettings: Record<string, MdcRuleSettings>) => void
+    ): Promise<void> {
+        return this.transaction(tx => tx.updateWorkspaceRuleState(workspaceId, mutate));
+    }
+
+    /**
+     * One-time migration from the old global `isActive` flag stored on each rule
+     * to the workspace-scoped activation set of the given workspace.
+     * Returns the number of rules that were migrated.
+     */
+    async migrateGlobalActivation(workspaceId: string): Promise<number> {
         try {
-            const rule = await this.getRuleById(ruleId);
-            if (rule) {
-                rule.isFavorite = isFavorite;
-                await this.saveRule(rule);
-                
-                // Update favorites list
-                const favorites = this.context.globalState.get<any[]>(this.favoritesStorageKey, []);
-                if (isFavorite) {
-                    if (!favorites.some(f => f.ruleId === ruleId)) {
-                        favorites.push({
-                            ruleId,
-                            addedAt: new Date().toISOString()
-                        });
-                    }
-                } else {
-                    const index = favorites.findIndex(f => f.ruleId === ruleId);
-                    if (index >= 0) {
-                        favorites.splice(index, 1);
-                    }
+            const migrated = await this.transaction(tx => {
+                const migrations = tx.getValue<string[]>(STORAGE_KEYS.migrations, []);
+                if (migrations.includes('workspaceActivation')) {
+                    return 0;
                 }
-                await this.context.globalState.update(this.favoritesStorageKey, favorites);
-            }
+
+                const storedRules = tx.getValue<any[]>(STORAGE_KEYS.rules, []);
+                const activeRuleIds = storedRules.filter(r => r.isActive).map(r => r.id as string);
+
+                if (activeRuleIds.length > 0) {
+                    tx.updateWorkspaceRuleState(workspaceId, ids => {
+                        activeRuleIds.forEach(id => ids.add(id));
+                    });
+                }
+                // The rule store migration kept only these flags behind
+                tx.setValue(STORAGE_KEYS.rules, undefined);
+
+                tx.setValue(STORAGE_KEYS.migrations, [...migrations, 'workspaceActivation']);
+                console.log(`🔀 Migrated ${activeRuleIds.length} globally active rules to workspace ${workspaceId}`);
+                return activeRuleIds.length;
+            });
+            return migrated;
+        } catch (error) {
+            console.error('Failed to migrate global rule activation:', error);
+            throw error;
+        }
+    }
+
+    async updateRuleFavorite(ruleId: string, isFavorite: boolean): Promise<void> {
+        try {
+            await this.transaction(tx => tx.setFavorite(ruleId, isFavorite));
         } catch (error) {
             console.error('Failed to update rule favorite:', error);
             throw error;
         }
     }
 
+    // Removes the rule with its favorite, update info, history and workspace state in one transaction
     async deleteRule(ruleId: string): Promise<void> {
         try {
-            const rules = await this.getAllRules();
-            const filteredRules = rules.filter(rule => rule.id !== ruleId);
-            await this.context.globalState.update(this.rulesStorageKey, filteredRules);
-            
-            // Remove from favorites
-            const favorites = this.context.globalState.get<any[]>(this.favoritesStorageKey, []);
-            const filteredFavorites = favorites.filter(f => f.ruleId !== ruleId);
-            await this.context.globalState.update(this.favoritesStorageKey, filteredFavorites);
-            
-            // Remove from updates
-            const updates = this.context.globalState.get<any[]>(this.updatesStorageKey, []);
-            const filteredUpdates = updates.filter(u => u.ruleId !== ruleId);
-            await this.context.globalState.update(this.updatesStorageKey, filteredUpdates);
+            await this.transaction(tx => tx.deleteRule(ruleId));
         } catch (error) {
             console.error('Failed to delete rule:', error);
             throw error;
@@ -208,43 +429,56 @@ export class DatabaseManager {
 
     async saveWorkspaceConfig(config: WorkspaceRuleConfig): Promise<void> {
         try {
-            const workspaces = this.context.globalState.get<WorkspaceRuleConfig[]>(this.workspacesStorageKey, []);
-            const existingIndex = workspaces.findIndex(w => w.workspaceId === config.workspaceId);
-            
-            if (existingIndex >= 0) {
-                workspaces[existingIndex] = config;
-            } else {
-                workspaces.push(config);
-            }
-            
-            await this.context.globalState.update(this.workspacesStorageKey, workspaces);
+            await this.transaction(tx => tx.saveWorkspaceConfig(config));
         } catch (error) {
             console.error('Failed to save workspace config:', error);
             throw error;
         }
     }
 
+    // Records a completed file sync without touching the workspace's activation set
+    async recordWorkspaceSync(workspaceId: string, rulesDirectory: string, maintainLegacyFormat: boolean): Promise<WorkspaceRuleConfig> {
+        return this.transaction(tx => {
+            const lastSyncDate = new Date();
+            const updated = tx.updateWorkspaceRecord(workspaceId, () => ({
+                rulesDirectory,
+                maintainLegacyFormat,
+                lastSyncDate: lastSyncDate.toISOString()
+            }));
+
+            return {
+                workspaceId,
+                activeRules: updated.activeRules || [],
+                rulesDirectory,
+                lastSyncDate,
+                maintainLegacyFormat,
+                ruleSettings: updated.ruleSettings
+            };
+        });
+    }
+
     async getWorkspaceConfig(workspaceId: string): Promise<WorkspaceRuleConfig | null> {
         try {
-            const workspaces = this.context.globalState.get<any[]>(this.workspacesStorageKey, []);
+            const workspaces = this.context.globalState.get<any[]>(STORAGE_KEYS.workspaces, []);
             const workspaceData = workspaces.find(w => w.workspaceId === workspaceId);
-            
+
             if (workspaceData) {
                 const config: WorkspaceRuleConfig = {
                     workspaceId: workspaceData.workspaceId,
                     activeRules: workspaceData.activeRules || [],
                     rulesDirectory: workspaceData.rulesDirectory || 'cursorRules',
-                    maintainLegacyFormat: workspaceData.maintainLegacyFormat
+                    maintainLegacyFormat: workspaceData.maintainLegacyFormat,
+                    ruleSettings: workspaceData.ruleSettings
                 };
-                
+
                 // Add lastSyncDate only if it exists (avoiding undefined assignment)
                 if (workspaceData.lastSyncDate) {
                     (config as any).lastSyncDate = new Date(workspaceData.lastSyncDate);
                 }
-                
+
                 return config;
             }
-            
+
             return null;
         } catch (error) {
             console.error('Failed to get workspace config:', error);
@@ -254,21 +488,7 @@ export class DatabaseManager {
 
     async saveUpdateInfo(updateInfo: UpdateInfo): Promise<void> {
         try {
-            const updates = this.context.globalState.get<any[]>(this.updatesStorageKey, []);
-            const existingIndex = updates.findIndex(u => u.ruleId === updateInfo.ruleId);
-            
-            const serializedUpdate = {
-                ...updateInfo,
-                lastChecked: updateInfo.lastChecked.toISOString()
-            };
-            
-            if (existingIndex >= 0) {
-                updates[existingIndex] = serializedUpdate;
-            } else {
-                updates.push(serializedUpdate);
-            }
-            
-            await this.context.globalState.update(this.updatesStorageKey, updates);
+            await this.transaction(tx => tx.saveUpdateInfo(updateInfo));
         } catch (error) {
             console.error('Failed to save update info:', error);
             throw error;
@@ -277,59 +497,154 @@ export class DatabaseManager {
 
     async getUpdatesInfo(): Promise<UpdateInfo[]> {
         try {
-            const updates = this.context.globalState.get<any[]>(this.updatesStorageKey, []);
-            return updates.map(update => ({
-                ...update,
-                lastChecked: new Date(update.lastChecked)
-            }));
+            return this.context.globalState.get<any[]>(STORAGE_KEYS.updates, []).map(deserializeUpdateInfo);
         } catch (error) {
             console.error('Failed to get updates info:', error);
             return [];
         }
     }
 
-    private deserializeRule(data: any): CursorRule {
-        return {
-            ...data,
-            createdAt: new Date(data.createdAt),
-            lastUpdated: data.lastUpdated ? new Date(data.lastUpdated) : undefined,
-            technologies: data.technologies || [],
-            tags: data.tags || [],
-            isActive: Boolean(data.isActive),
-            isFavorite: Boolean(data.isFavorite),
-            isCustom: Boolean(data.isCustom)
-        };
+    // Time of the last completed check across all sources, so restarts don't check again right away
+    getLastUpdateCheck(): Date | undefined {
+        const lastCheck = this.context.globalState.get<string>(STORAGE_KEYS.lastUpdateCheck);
+        return lastCheck ? new Date(lastCheck) : undefined;
+    }
+
+    async setLastUpdateCheck(date: Date): Promise<void> {
+        await this.transaction(tx => tx.setValue(STORAGE_KEYS.lastUpdateCheck, date.toISOString()));
+    }
+
+    async getPresets(): Promise<RulePreset[]> {
+        try {
+            const presets = this.context.globalState.get<any[]>(STORAGE_KEYS.presets, []);
+            return presets.map(preset => ({
+                ...preset,
+                ruleIds: preset.ruleIds || [],
+                createdAt: new Date(preset.createdAt),
+                updatedAt: preset.updatedAt ? new Date(preset.updatedAt) : undefined
+            }));
+        } catch (error) {
+            console.error('Failed to get presets:', error);
+            return [];
+        }
+    }
+
+    async getPresetById(id: string): Promise<RulePreset | null> {
+        const presets = await this.getPresets();
+        return presets.find(preset => preset.id === id) || null;
+    }
+
+    async savePreset(preset: RulePreset): Promise<void> {
+        try {
+            await this.transaction(tx => tx.savePreset(preset));
+        } catch (error) {
+            console.error('Failed to save preset:', error);
+            throw error;
+        }
+    }
+
+    async deletePreset(id: string): Promise<void> {
+        try {
+            await this.transaction(tx => tx.deletePreset(id));
+        } catch (error) {
+            console.error('Failed to delete preset:', error);
+            throw error;
+        }
+    }
+
+    async getSavedSearches(): Promise<SavedSearch[]> {
+        try {
+            return this.context.globalState.get<any[]>(STORAGE_KEYS.savedSearches, []).map(search => ({
+                ...search,
+                createdAt: new Date(search.createdAt)
+            }));
+        } catch (error) {
+            console.error('Failed to get saved searches:', error);
+            return [];
+        }
+    }
+
+    async saveSearch(search: SavedSearch): Promise<void> {
+        try {
+            await this.transaction(tx => tx.saveSearch(search));
+        } catch (error) {
+            console.error('Failed to save search:', error);
+            throw error;
+        }
+    }
+
+    async deleteSavedSearch(name: string): Promise<void> {
+        try {
+            await this.transaction(tx => tx.deleteSavedSearch(name));
+        } catch (error) {
+            console.error('Failed to delete saved search:', error);
+            throw error;
+        }
+    }
+
+    async getRuleHistory(ruleId: string): Promise<RuleVersion[]> {
+        try {
+            const history = this.context.globalState.get<Record<string, any[]>>(STORAGE_KEYS.ruleHistory, {});
+            return (history[ruleId] || []).map(deserializeRuleVersion);
+        } catch (error) {
+            console.error('Failed to get rule history:', error);
+            return [];
+        }
+    }
+
+    // Read-modify-write of one rule's history; the result is trimmed to MAX_RULE_HISTORY
+    async updateRuleHistory(ruleId: string, mutate: (versions: RuleVersion[]) => RuleVersion[]): Promise<void> {
+        try {
+            await this.transaction(tx => tx.updateRuleHistory(ruleId, mutate));
+        } catch (error) {
+            console.error('Failed to update rule history:', error);
+            throw error;
+        }
+    }
+
+    // Ranked full-text search over name, description, technologies, tags and content, best match first
+    async searchRuleMatches(query: string): Promise<RuleSearchMatch[]> {
+        try {
+            await this.ensureSearchIndex();
+            const matches = this.searchIndex.search(query);
+            const rules = new Map((await this.ruleStore.getMany(matches.map(match => match.ruleId))).map(record => [record.id, deserializeRule(record)]));
+
+            return matches
+                .filter(match => rules.has(match.ruleId))
+                .map(match => {
+                    const snippet = createSnippet(rules.get(match.ruleId)!, match.terms);
+                    return snippet ? { ...match, snippet } : match;
+                });
+        } catch (error) {
+            console.error('Failed to search rules:', error);
+            return [];
+        }
     }
 
     async searchRules(query: string, filters?: { technology?: string; category?: string }): Promise<CursorRule[]> {
         try {
-            let rules = await this.getAllRules();
-            
-            // Apply text search
+            // The category index narrows the rules before their content is read
+            let rules = filters?.category
+                ? (await this.ruleStore.getMany(await this.ruleStore.getIdsByCategory(filters.category))).map(deserializeRule)
+                : await this.getAllRules();
+
+            // Apply text search, keeping the ranking
             if (query.trim()) {
-                const searchTerm = query.toLowerCase().trim();
-                rules = rules.filter(rule => 
-                    rule.name.toLowerCase().includes(searchTerm) ||
-                    rule.description.toLowerCase().includes(searchTerm) ||
-                    rule.content.toLowerCase().includes(searchTerm) ||
-                    rule.technologies.some(tech => tech.toLowerCase().includes(searchTerm)) ||
-                    rule.tags.some(tag => tag.toLowerCase().includes(searchTerm))
-                );
+                const ranks = new Map((await this.searchRuleMatches(query)).map((match, rank) => [match.ruleId, rank]));
+                rules = rules
+                    .filter(rule => ranks.has(rule.id))
+                    .sort((a, b) => ranks.get(a.id)! - ranks.get(b.id)!);
             }
-            
+
             // Apply filters
             if (filters?.technology) {
-                rules = rules.filter(rule => 
-                    rule.technologies.some(tech => 
+                rules = rules.filter(rule =>
+                    rule.technologies.some(tech =>
                         tech.toLowerCase().includes(filters.technology!.toLowerCase())
                     )
                 );
             }
-            
-            if (filters?.category) {
-                rules = rules.filter(rule => rule.category === filters.category);
-            }
-            
+
             return rules;
         } catch (error) {
             console.error('Failed to search rules:', error);
@@ -337,12 +652,51 @@ export class DatabaseManager {
         }
     }
 
+    private ensureSearchIndex(): Promise<void> {
+        if (!this.searchIndexReady) {
+            const build = (async () => {
+                const startTime = Date.now();
+                this.searchIndex.clear();
+                this.searchIndex.add((await this.ruleStore.getAll()).map(deserializeRule));
+                console.log(`🔎 Search index built: ${this.searchIndex.size} rules in ${Date.now() - startTime}ms`);
+            })();
+            // A failed build is retried on the next search
+            build.catch(() => {
+                if (this.searchIndexReady === build) {
+                    this.searchIndexReady = undefined;
+                }
+            });
+            this.searchIndexReady = build;
+        }
+        return this.searchIndexReady;
+    }
+
+    // Applied after any build in progress, so the build can't overwrite newer rules
+    private updateSearchIndex(changes: RuleChanges): void {
+        if (!this.searchIndexReady) {
+            return;
+        }
+        this.searchIndexReady = this.searchIndexReady.then(() => {
+            if (changes.cleared) {
+                this.searchIndex.clear();
+            }
+            this.searchIndex.remove(changes.deleted);
+            this.searchIndex.add(changes.saved.map(deserializeRule));
+        }).catch(error => {
+            // The next search rebuilds it from scratch
+            console.error('❌ Failed to update the search index:', error);
+            this.resetSearchIndex();
+        });
+    }
+
+    private resetSearchIndex(): void {
+        this.searchIndexReady = undefined;
+        this.searchIndex.clear();
+    }
+
     async clearAllData(): Promise<void> {
         try {
-            await this.context.globalState.update(this.rulesStorageKey, []);
-            await this.context.globalState.update(this.workspacesStorageKey, []);
-            await this.context.globalState.update(this.updatesStorageKey, []);
-            await this.context.globalState.update(this.favoritesStorageKey, []);
+            await this.transaction(tx => tx.clearAll());
             console.log('All data cleared successfully');
         } catch (error) {
             console.error('Failed to clear all data:', error);
@@ -355,6 +709,366 @@ export class DatabaseManager {
     }
 
     dispose(): void {
-        // Nothing to dispose
+        this.ruleStore.dispose();
+    }
+}
+
+/**
+ * Writes of one DatabaseManager.transaction. They are staged in memory, visible to the transaction's own
+ * reads, and only reach the rule store and globalState when the transaction commits.
+ */
+export class DatabaseTransaction {
+    // null marks a deleted rule
+    private ruleWrites = new Map<string, StoredRuleRecord | null>();
+    private stateWrites = new Map<string, unknown>();
+    private rulesCleared = false;
+    private committed = false;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private ruleStore: RuleStoreService
+    ) {}
+
+    // Values are copies: mutating them changes nothing until they are passed to setValue
+    getValue<T>(key: string, defaultValue: T): T {
+        const value = this.stateWrites.has(key) ? this.stateWrites.get(key) : this.context.globalState.get(key);
+        return value === undefined ? defaultValue : JSON.parse(JSON.stringify(value));
+    }
+
+    // undefined removes the key
+    setValue(key: string, value: unknown): void {
+        this.assertOpen();
+        this.stateWrites.set(key, value);
+    }
+
+    async getRule(ruleId: string): Promise<CursorRule | null> {
+        if (this.ruleWrites.has(ruleId)) {
+            const staged = this.ruleWrites.get(ruleId);
+            return staged ? deserializeRule(staged) : null;
+        }
+        if (this.rulesCleared) {
+            return null;
+        }
+        const rule = await this.ruleStore.get(ruleId);
+        return rule ? deserializeRule(rule) : null;
+    }
+
+    async getAllRules(): Promise<CursorRule[]> {
+        const records = new Map((this.rulesCleared ? [] : await this.ruleStore.getAll()).map(record => [record.id, record]));
+        for (const [ruleId, staged] of this.ruleWrites) {
+            if (staged) {
+                records.set(ruleId, staged);
+            } else {
+                records.delete(ruleId);
+            }
+        }
+        return Array.from(records.values()).map(deserializeRule);
+    }
+
+    saveRule(rule: CursorRule): void {
+        this.saveRules([rule]);
+    }
+
+    saveRules(rules: CursorRule[]): void {
+        this.assertOpen();
+        for (const rule of rules) {
+            this.ruleWrites.set(rule.id, serializeRule(rule));
+        }
+    }
+
+    // Also drops everything stored about the rule: favorite, update info, history and workspace state
+    deleteRule(ruleId: string): void {
+        this.assertOpen();
+        this.ruleWrites.set(ruleId, null);
+
+        this.setValue(STORAGE_KEYS.favorites, this.getValue<any[]>(STORAGE_KEYS.favorites, []).filter(f => f.ruleId !== ruleId));
+        this.setValue(STORAGE_KEYS.updates, this.getValue<any[]>(STORAGE_KEYS.updates, []).filter(u => u.ruleId !== ruleId));
+        this.updateRuleHistory(ruleId, () => []);
+
+        const workspaces = this.getValue<any[]>(STORAGE_KEYS.workspaces, []);
+        const affected = workspaces.filter(w => (w.activeRules || []).includes(ruleId) || (w.ruleSettings && ruleId in w.ruleSettings));
+        for (const workspace of affected) {
+            this.updateWorkspaceRuleState(workspace.workspaceId, (activeRuleIds, ruleSettings) => {
+                activeRuleIds.delete(ruleId);
+                delete ruleSettings[ruleId];
+            });
+        }
+    }
+
+    async setFavorite(ruleId: string, isFavorite: boolean): Promise<void> {
+        const rule = await this.getRule(ruleId);
+        if (!rule) {
+            return;
+        }
+        this.saveRule({ ...rule, isFavorite });
+
+        const favorites = this.getValue<any[]>(STORAGE_KEYS.favorites, []);
+        const index = favorites.findIndex(f => f.ruleId === ruleId);
+        if (isFavorite && index < 0) {
+            favorites.push({ ruleId, addedAt: new Date().toISOString() });
+        } else if (!isFavorite && index >= 0) {
+            favorites.splice(index, 1);
+        }
+        this.setValue(STORAGE_KEYS.favorites, favorites);
+    }
+
+    // Read-modify-write of a stored workspace record; creates the record when missing. Returns the new record
+    updateWorkspaceRecord(workspaceId: string, mutate: (existing: any | undefined) => Record<string, unknown>): any {
+        const workspaces = this.getValue<any[]>(STORAGE_KEYS.workspaces, []);
+        const existingIndex = workspaces.findIndex(w => w.workspaceId === workspaceId);
+        const existing = existingIndex >= 0 ? workspaces[existingIndex] : undefined;
+
+        const updated = {
+            rulesDirectory: 'cursorRules',
+            activeRules: [],
+            ...existing,
+            ...mutate(existing),
+            workspaceId
+        };
+
+        if (existingIndex >= 0) {
+            workspaces[existingIndex] = updated;
+        } else {
+            workspaces.push(updated);
+        }
+
+        this.setValue(STORAGE_KEYS.workspaces, workspaces);
+        return updated;
+    }
+
+    updateWorkspaceRuleState(
+        workspaceId: string,
+        mutate: (activeRuleIds: Set<string>, ruleSettings: Record<string, MdcRuleSettings>) => void
+    ): void {
+        this.updateWorkspaceRecord(workspaceId, existing => {
+            const activeRuleIds = new Set<string>(existing?.activeRules || []);
+            const ruleSettings: Record<string, MdcRuleSettings> = { ...(existing?.ruleSettings || {}) };
+            mutate(activeRuleIds, ruleSettings);
+            return { activeRules: Array.from(activeRuleIds), ruleSettings };
+        });
+    }
+
+    setRuleActive(workspaceId: string, ruleId: string, isActive: boolean): void {
+        this.updateWorkspaceRuleState(workspaceId, activeRuleIds => {
+            if (isActive) {
+                activeRuleIds.add(ruleId);
+            } else {
+                activeRuleIds.delete(ruleId);
+            }
+        });
     }
-} 
\ No newline at end of file
+
+    setWorkspaceRuleSettings(workspaceId: string, ruleId: string, settings: MdcRuleSettings | undefined): void {
+        this.updateWorkspaceRuleState(workspaceId, (_activeRuleIds, ruleSettings) => {
+            if (settings) {
+                ruleSettings[ruleId] = settings;
+            } else {
+                delete ruleSettings[ruleId];
+            }
+        });
+    }
+
+    saveWorkspaceConfig(config: WorkspaceRuleConfig): void {
+        const workspaces = this.getValue<any[]>(STORAGE_KEYS.workspaces, []).filter(w => w.workspaceId !== config.workspaceId);
+        workspaces.push({ ...config, lastSyncDate: config.lastSyncDate?.toISOString() });
+        this.setValue(STORAGE_KEYS.workspaces, workspaces);
+    }
+
+    getUpdateInfo(ruleId: string): UpdateInfo | undefined {
+        const update = this.getValue<any[]>(STORAGE_KEYS.updates, []).find(u => u.ruleId === ruleId);
+        return update ? deserializeUpdateInfo(update) : undefined;
+    }
+
+    saveUpdateInfo(updateInfo: UpdateInfo): void {
+        const updates = this.getValue<any[]>(STORAGE_KEYS.updates, []);
+        const existingIndex = updates.findIndex(u => u.ruleId === updateInfo.ruleId);
+        const serializedUpdate = {
+            ...updateInfo,
+            lastChecked: updateInfo.lastChecked.toISOString()
+        };
+
+        if (existingIndex >= 0) {
+            updates[existingIndex] = serializedUpdate;
+        } else {
+            updates.push(serializedUpdate);
+        }
+        this.setValue(STORAGE_KEYS.updates, updates);
+    }
+
+    savePreset(preset: RulePreset): void {
+        const presets = this.getValue<any[]>(STORAGE_KEYS.presets, []);
+        const serialized = {
+            ...preset,
+            ruleIds: [...preset.ruleIds],
+            createdAt: preset.createdAt.toISOString(),
+            updatedAt: preset.updatedAt?.toISOString()
+        };
+
+        const existingIndex = presets.findIndex(p => p.id === preset.id);
+        if (existingIndex >= 0) {
+            presets[existingIndex] = serialized;
+        } else {
+            presets.push(serialized);
+        }
+        this.setValue(STORAGE_KEYS.presets, presets);
+    }
+
+    deletePreset(id: string): void {
+        this.setValue(STORAGE_KEYS.presets, this.getValue<any[]>(STORAGE_KEYS.presets, []).filter(p => p.id !== id));
+    }
+
+    // Names are matched without case, so saving under an existing name replaces that search
+    saveSearch(search: SavedSearch): void {
+        const searches = this.getValue<any[]>(STORAGE_KEYS.savedSearches, [])
+            .filter(existing => existing.name.toLowerCase() !== search.name.toLowerCase());
+        searches.push({ ...search, createdAt: search.createdAt.toISOString() });
+        this.setValue(STORAGE_KEYS.savedSearches, searches);
+    }
+
+    deleteSavedSearch(name: string): void {
+        this.setValue(STORAGE_KEYS.savedSearches, this.getValue<any[]>(STORAGE_KEYS.savedSearches, [])
+            .filter(existing => existing.name.toLowerCase() !== name.toLowerCase()));
+    }
+
+    getRuleHistory(ruleId: string): RuleVersion[] {
+        return (this.getValue<Record<string, any[]>>(STORAGE_KEYS.ruleHistory, {})[ruleId] || []).map(deserializeRuleVersion);
+    }
+
+    // The result is trimmed to MAX_RULE_HISTORY; an empty result drops the rule's history
+    updateRuleHistory(ruleId: string, mutate: (versions: RuleVersion[]) => RuleVersion[]): void {
+        const history = this.getValue<Record<string, any[]>>(STORAGE_KEYS.ruleHistory, {});
+        const versions = mutate((history[ruleId] || []).map(deserializeRuleVersion)).slice(0, MAX_RULE_HISTORY);
+
+        if (versions.length > 0) {
+            history[ruleId] = versions.map(entry => ({ ...entry, fetchedAt: entry.fetchedAt.toISOString() }));
+        } else {
+            delete history[ruleId];
+        }
+        this.setValue(STORAGE_KEYS.ruleHistory, history);
+    }
+
+    clearAll(): void {
+        this.assertOpen();
+        this.rulesCleared = true;
+        this.ruleWrites.clear();
+        this.stateWrites.clear();
+        this.setValue(STORAGE_KEYS.rules, undefined);
+        this.setValue(STORAGE_KEYS.workspaces, []);
+        this.setValue(STORAGE_KEYS.updates, []);
+        this.setValue(STORAGE_KEYS.favorites, []);
+        this.setValue(STORAGE_KEYS.presets, []);
+        this.setValue(STORAGE_KEYS.ruleHistory, {});
+        this.setValue(STORAGE_KEYS.lastUpdateCheck, undefined);
+        this.setValue(STORAGE_KEYS.savedSearches, []);
+        // An empty database is in the current layout
+        this.setValue(STORAGE_KEYS.schemaVersion, DATABASE_SCHEMA_VERSION);
+    }
+
+    // Called by DatabaseManager once the transaction's work resolved. Rules are written first, so state
+    // never points at a rule that is not stored yet. When a write fails, the rules and state keys written
+    // so far are put back before the error is rethrown
+    async commit(): Promise<RuleChanges> {
+        this.assertOpen();
+        this.committed = true;
+
+        const ruleIds = Array.from(this.ruleWrites.keys());
+        const previousRules = this.rulesCleared ? await this.ruleStore.getAll() : await this.ruleStore.getMany(ruleIds);
+        // Filled as state keys are written, so only those are put back
+        const previousState = new Map<string, unknown>();
+
+        const saved: StoredRuleRecord[] = [];
+        const deleted: string[] = [];
+        for (const [ruleId, record] of this.ruleWrites) {
+            if (record) {
+                saved.push(record);
+            } else {
+                deleted.push(ruleId);
+            }
+        }
+
+        try {
+            if (this.rulesCleared) {
+                await this.ruleStore.clear();
+            }
+            if (saved.length > 0) {
+                await this.ruleStore.put(saved);
+            }
+            if (deleted.length > 0) {
+                await this.ruleStore.delete(deleted);
+            }
+
+            for (const [key, value] of this.stateWrites) {
+                const previous = this.context.globalState.get(key);
+                await this.context.globalState.update(key, value);
+                previousState.set(key, previous);
+            }
+        } catch (error) {
+            await this.rollback(ruleIds, previousRules, previousState);
+            throw error;
+        }
+        return { cleared: this.rulesCleared, saved, deleted };
+    }
+
+    private async rollback(ruleIds: string[], previousRules: StoredRuleRecord[], previousState: Map<string, unknown>): Promise<void> {
+        try {
+            if (this.rulesCleared) {
+                await this.ruleStore.clear();
+            } else {
+                const previousIds = new Set(previousRules.map(record => record.id));
+                const added = ruleIds.filter(ruleId => !previousIds.has(ruleId));
+                if (added.length > 0) {
+                    await this.ruleStore.delete(added);
+                }
+            }
+            if (previousRules.length > 0) {
+                await this.ruleStore.put(previousRules);
+            }
+            for (const [key, value] of previousState) {
+                await this.context.globalState.update(key, value);
+            }
+            console.log('↩️ Rolled back a transaction that failed to commit');
+        } catch (error) {
+            console.error('❌ Failed to roll back transaction:', error);
+        }
+    }
+
+    // Catches writes from work that kept the transaction past its end
+    private assertOpen(): void {
+        if (this.committed) {
+            throw new Error('Transaction already committed');
+        }
+    }
+}
+
+// Activation is workspace-scoped, so it is never persisted on the rule itself
+function serializeRule(rule: any): StoredRuleRecord {
+    const { isActive: _isActive, ...data } = rule;
+    return data;
+}
+
+function deserializeRule(data: any): CursorRule {
+    return {
+        ...data,
+        createdAt: new Date(data.createdAt),
+        lastUpdated: data.lastUpdated ? new Date(data.lastUpdated) : undefined,
+        technologies: data.technologies || [],
+        tags: data.tags || [],
+        isActive: false,
+        isFavorite: Boolean(data.isFavorite),
+        isCustom: Boolean(data.isCustom)
+    };
+}
+
+function deserializeUpdateInfo(data: any): UpdateInfo {
+    return {
+        ...data,
+        lastChecked: new Date(data.lastChecked)
+    };
+}
+
+function deserializeRuleVersion(data: any): RuleVersion {
+    return {
+        ...data,
+        fetchedAt: new Date(data.fetchedAt)
+    };
+}
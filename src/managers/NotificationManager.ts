@@ -19,22 +19,25 @@ export class NotificationManager {
             const update = updates[0];
             const action = await vscode.window.showInformationMessage(
                 `Rule "${update.ruleName}" has an update available`,
+                'Review Update',
                 'Update Now',
                 'Later'
             );
             
-            if (action === 'Update Now') {
+            if (action === 'Review Update') {
+                await vscode.commands.executeCommand('solidrules.reviewRuleUpdate', update.ruleId);
+            } else if (action === 'Update Now') {
                 await vscode.commands.executeCommand('solidrules.updateRule', update.ruleId);
             }
         } else {
             const rulesList = updates.map(u => `• ${u.ruleName}`).join('\n');
             const action = await vscode.window.showInformationMessage(
                 `${updates.length} rules have updates available:\n${rulesList}`,
-                'Update All',
+                'Review Updates',
                 'Later'
             );
             
-            if (action === 'Update All') {
+            if (action === 'Review Updates') {
                 await vscode.commands.executeCommand('solidrules.updateAllRules');
             }
         }
@@ -113,6 +116,10 @@ export class NotificationManager {
         this.showSuccessMessage(`Custom rule "${ruleName}" imported successfully`);
     }
 
+    async showCustomRuleSavedNotification(ruleName: string): Promise<void> {
+        this.showSuccessMessage(`Custom rule "${ruleName}" saved`);
+    }
+
     async showRulesRefreshedNotification(count: number): Promise<void> {
         this.showSuccessMessage(`${count} rules refreshed from GitHub`);
     }
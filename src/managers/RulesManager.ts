@@ -1,10 +1,16 @@
 import * as vscode from 'vscode';
-import { DatabaseManager } from './DatabaseManager';
+import { DatabaseManager, DatabaseTransaction } from './DatabaseManager';
 import { GitHubService } from '../services/GitHubService';
+import { LocalRulesService } from '../services/LocalRulesService';
+import { RuleImportService } from '../services/RuleImportService';
+import { CollectionService } from '../services/CollectionService';
+import { ManifestService } from '../services/ManifestService';
 import { NotificationManager } from './NotificationManager';
 import { WorkspaceManager } from './WorkspaceManager';
-import { CursorRule, SearchFilters, WorkspaceRuleConfig, UpdateInfo, Technology } from '../types';
+import { CursorRule, SearchFilters, UpdateInfo, Technology, RuleFormat, RuleSource, LocalRuleSource, WorkspaceRuleCandidate, MdcRuleSettings, CustomRuleDraft, RuleImportCandidate, ImportConflictResolution, RuleCollection, RuleCollectionWorkspace, CollectionImportMode, CollectionImportResult, TeamManifest, TeamManifestRule, TeamManifestStatus, RulePreset, PresetApplyMode, PresetDiff, ActiveRulesChange, RuleVersion, RuleSearchMatch, SavedSearch, formatRuleVersion, DEFAULT_RULE_SOURCE, LOCAL_SOURCE_PREFIX, TEAM_MANIFEST_FILE, TEAM_MANIFEST_VERSION } from '../types';
 import { formatDistanceToNow } from 'date-fns';
+import { parseMdc, getString, getBoolean } from '../utils/mdc';
+import { SearchQualifierValues } from '../utils/searchQuery';
 
 export class RulesManager {
     private _onDidChangeRules = new vscode.EventEmitter<void>();
@@ -13,17 +19,54 @@ export class RulesManager {
     // Performance optimization: batching and debouncing
     private workspaceSyncTimeout: NodeJS.Timeout | undefined;
     private uiRefreshTimeout: NodeJS.Timeout | undefined;
-    private pendingFileOperations = new Set<string>();
+    private pendingFileOperations = new Map<string, Set<string>>(); // workspaceId -> ruleIds
     private readonly WORKSPACE_SYNC_DELAY = 2000; // 2 seconds debounce
     private readonly UI_REFRESH_DELAY = 100; // 100ms UI debounce
 
+    // Local folder sources: one watcher per folder, reindexing serialized through a queue
+    private localSourceWatchers: vscode.Disposable[] = [];
+    private localIndexQueue: Promise<void> = Promise.resolve();
+    private manifestWatchers = new Map<string, vscode.Disposable>(); // workspaceId -> .solidrules.json watcher
+    private dismissedManifests = new Map<string, string>(); // workspaceId -> manifest the user chose not to apply
+    private fetchedUpdates = new Map<string, CursorRule>(); // ruleId -> upstream version under review
+
     constructor(
         private databaseManager: DatabaseManager,
         private githubService: GitHubService,
         private notificationManager: NotificationManager,
-        private workspaceManager: WorkspaceManager
+        private workspaceManager: WorkspaceManager,
+        private localRulesService: LocalRulesService,
+        private ruleImportService: RuleImportService,
+        private collectionService: CollectionService,
+        private manifestService: ManifestService
     ) {}
 
+    // Activation is workspace-scoped: project a workspace folder's active set onto the rules
+    private async withWorkspaceState(rules: CursorRule[], workspaceId: string | null = this.workspaceManager.getCurrentWorkspaceId()): Promise<CursorRule[]> {
+        const activeRuleIds = new Set(workspaceId ? await this.databaseManager.getActiveRuleIds(workspaceId) : []);
+        rules.forEach(rule => {
+            rule.isActive = activeRuleIds.has(rule.id);
+        });
+        return rules;
+    }
+
+    private resolveWorkspaceId(workspaceId?: string): string {
+        const resolved = workspaceId || this.workspaceManager.getCurrentWorkspaceId();
+        if (!resolved) {
+            throw new Error('No workspace is currently open');
+        }
+        return resolved;
+    }
+
+    private addPendingFileOperation(workspaceId: string, ruleId: string): void {
+        let pending = this.pendingFileOperations.get(workspaceId);
+        if (!pending) {
+            pending = new Set<string>();
+            this.pendingFileOperations.set(workspaceId, pending);
+        }
+        pending.add(ruleId);
+    }
+
     // Optimized immediate UI refresh with debouncing
     private scheduleUIRefresh(): void {
         if (this.uiRefreshTimeout) {
@@ -35,43 +78,46 @@ export class RulesManager {
         }, this.UI_REFRESH_DELAY);
     }
 
-    // Enhanced workspace sync with intelligent batching
+    // Enhanced workspace sync with intelligent batching (one pass per workspace folder)
     private scheduleWorkspaceSync(): void {
         if (this.workspaceSyncTimeout) {
             clearTimeout(this.workspaceSyncTimeout);
         }
 
         this.workspaceSyncTimeout = setTimeout(async () => {
-            try {
-                if (this.pendingFileOperations.size > 0) {
-                    console.log(`📦 Batch syncing ${this.pendingFileOperations.size} file operations...`);
-                    await this.optimizedWorkspaceSync();
-                    this.pendingFileOperations.clear();
+            const pendingByWorkspace = Array.from(this.pendingFileOperations.entries());
+            this.pendingFileOperations.clear();
+
+            for (const [workspaceId, pendingRuleIds] of pendingByWorkspace) {
+                try {
+                    console.log(`📦 Batch syncing ${pendingRuleIds.size} file operations in ${workspaceId}...`);
+                    await this.optimizedWorkspaceSync(workspaceId, pendingRuleIds);
+                } catch (error) {
+                    console.error(`Batched workspace sync failed for ${workspaceId}:`, error);
                 }
-            } catch (error) {
-                console.error('Batched workspace sync failed:', error);
             }
         }, this.WORKSPACE_SYNC_DELAY);
     }
 
     // Ultra-optimized workspace sync with parallel operations
-    private async optimizedWorkspaceSync(): Promise<void> {
+    private async optimizedWorkspaceSync(workspaceId: string, pendingRuleIds: ReadonlySet<string>): Promise<void> {
         const startTime = Date.now();
         
         try {
-            const activeRules = await this.databaseManager.getActiveRules();
-            const workspaceId = this.workspaceManager.getCurrentWorkspaceId();
-            
-            if (!workspaceId) {
-                console.log('⚠️ No workspace open - skipping sync');
+            if (!this.workspaceManager.getWorkspaceIds().includes(workspaceId)) {
+                console.log(`⚠️ Workspace folder ${workspaceId} is no longer open - skipping sync`);
                 return;
             }
 
+            const activeRules = await this.databaseManager.getActiveRules(workspaceId);
+
             // Parallel operations for better performance
             await Promise.all([
-                this.cleanupInactiveRulesOptimized(activeRules),
-                this.writeActiveRulesOptimized(activeRules)
+                this.cleanupInactiveRulesOptimized(workspaceId, activeRules, pendingRuleIds),
+                this.writeActiveRulesOptimized(workspaceId, activeRules)
             ]);
+
+            await this.writeBackTeamManifest(workspaceId);
             
             const duration = Date.now() - startTime;
             console.log(`🚀 Optimized workspace sync completed in ${duration}ms - ${activeRules.length} active rules`);
@@ -83,17 +129,14 @@ export class RulesManager {
     }
 
     // Optimized cleanup with selective deletion
-    private async cleanupInactiveRulesOptimized(activeRules: CursorRule[]): Promise<void> {
-        const workspaceId = this.workspaceManager.getCurrentWorkspaceId();
-        if (!workspaceId) return;
-
+    private async cleanupInactiveRulesOptimized(workspaceId: string, activeRules: CursorRule[], pendingRuleIds: ReadonlySet<string>): Promise<void> {
         try {
             const activeRuleIds = new Set(activeRules.map(r => r.id));
             const config = vscode.workspace.getConfiguration('solidrules');
             const rulesDirectory = config.get<string>('rulesDirectory', 'cursorRules');
             
             // Only process rules that have pending file operations
-            const rulesToCleanup = Array.from(this.pendingFileOperations)
+            const rulesToCleanup = Array.from(pendingRuleIds)
                 .filter(ruleId => !activeRuleIds.has(ruleId));
 
             if (rulesToCleanup.length === 0) return;
@@ -103,8 +146,8 @@ export class RulesManager {
                 const rule = await this.databaseManager.getRuleById(ruleId);
                 if (rule) {
                     await Promise.all([
-                        this.workspaceManager.removeProjectRule(rule),
-                        this.workspaceManager.removeRuleFromWorkspace(rule, rulesDirectory)
+                        this.workspaceManager.removeProjectRule(rule, workspaceId),
+                        this.workspaceManager.removeRuleFromWorkspace(rule, rulesDirectory, workspaceId)
                     ]);
                 }
             });
@@ -118,28 +161,16 @@ export class RulesManager {
     }
 
     // Optimized write with batch operations
-    private async writeActiveRulesOptimized(activeRules: CursorRule[]): Promise<void> {
-        const workspaceId = this.workspaceManager.getCurrentWorkspaceId();
-        if (!workspaceId || activeRules.length === 0) return;
+    private async writeActiveRulesOptimized(workspaceId: string, activeRules: CursorRule[]): Promise<void> {
+        if (activeRules.length === 0) return;
 
         try {
             const config = vscode.workspace.getConfiguration('solidrules');
             const rulesDirectory = config.get<string>('rulesDirectory', 'cursorRules');
             const maintainLegacyFormat = config.get<boolean>('maintainLegacyFormat', false);
 
-            const workspaceConfig: WorkspaceRuleConfig = {
-                workspaceId,
-                activeRules: activeRules.map(r => r.id),
-                rulesDirectory,
-                lastSyncDate: new Date(),
-                maintainLegacyFormat
-            };
-
-            // Parallel operations for maximum speed with change detection
-            await Promise.all([
-                this.databaseManager.saveWorkspaceConfig(workspaceConfig),
-                this.workspaceManager.syncActiveRulesOptimized(activeRules, workspaceConfig)
-            ]);
+            const workspaceConfig = await this.databaseManager.recordWorkspaceSync(workspaceId, rulesDirectory, maintainLegacyFormat);
+            await this.workspaceManager.syncActiveRulesOptimized(activeRules, workspaceConfig);
             
             console.log(`📝 Optimized write completed - ${activeRules.length} active rules`);
             
@@ -149,24 +180,27 @@ export class RulesManager {
     }
 
     // Ultra-fast rule toggle with immediate feedback
-    async ultraFastToggleRule(ruleId: string): Promise<void> {
+    async ultraFastToggleRule(ruleId: string, targetWorkspaceId?: string): Promise<void> {
         try {
+            const workspaceId = this.resolveWorkspaceId(targetWorkspaceId);
             const rule = await this.databaseManager.getRuleById(ruleId);
             if (!rule) {
                 console.error('Rule not found:', ruleId);
                 return;
             }
 
+            await this.withWorkspaceState([rule], workspaceId);
+
             // 1. Immediate database update (fastest operation)
             const newStatus = !rule.isActive;
-            await this.databaseManager.updateRuleStatus(ruleId, newStatus);
+            await this.databaseManager.updateRuleStatus(workspaceId, ruleId, newStatus);
             rule.isActive = newStatus;
 
             // 2. Immediate UI feedback (perceived performance)
             this.scheduleUIRefresh();
 
             // 3. Schedule file operations for later (non-blocking)
-            this.pendingFileOperations.add(ruleId);
+            this.addPendingFileOperation(workspaceId, ruleId);
             this.scheduleWorkspaceSync();
 
             console.log(`⚡ Ultra-fast toggle: ${rule.name} -> ${newStatus ? 'ACTIVE' : 'INACTIVE'}`);
@@ -177,45 +211,107 @@ export class RulesManager {
         }
     }
 
-    // Batch toggle for multiple rules (even faster for multiple operations)
-    async batchToggleRules(ruleIds: string[]): Promise<void> {
+    // Batch toggle for multiple rules: each rule flips whatever state it is in
+    async batchToggleRules(ruleIds: string[], workspaceId?: string): Promise<ActiveRulesChange> {
+        return this.updateActiveRules('Batch toggle', workspaceId, activeRuleIds => {
+            ruleIds.forEach(ruleId => {
+                if (!activeRuleIds.delete(ruleId)) {
+                    activeRuleIds.add(ruleId);
+                }
+            });
+        });
+    }
+
+    // Explicit-state batch operations: the given rules end up active (or inactive) whatever their current state
+    async activateRules(ruleIds: ReadonlyArray<string>, workspaceId?: string): Promise<ActiveRulesChange> {
+        const knownRuleIds = await this.filterKnownRuleIds(ruleIds);
+        return this.updateActiveRules('Batch activate', workspaceId, activeRuleIds => {
+            knownRuleIds.forEach(ruleId => activeRuleIds.add(ruleId));
+        });
+    }
+
+    async deactivateRules(ruleIds: ReadonlyArray<string>, workspaceId?: string): Promise<ActiveRulesChange> {
+        return this.updateActiveRules('Batch deactivate', workspaceId, activeRuleIds => {
+            ruleIds.forEach(ruleId => activeRuleIds.delete(ruleId));
+        });
+    }
+
+    // The given rules become the folder's whole active set
+    async setActiveRules(ruleIds: ReadonlyArray<string>, workspaceId?: string): Promise<ActiveRulesChange> {
+        const knownRuleIds = await this.filterKnownRuleIds(ruleIds);
+        return this.updateActiveRules('Set active rules', workspaceId, activeRuleIds => {
+            activeRuleIds.clear();
+            knownRuleIds.forEach(ruleId => activeRuleIds.add(ruleId));
+        });
+    }
+
+    private async filterKnownRuleIds(ruleIds: ReadonlyArray<string>): Promise<string[]> {
+        const allRuleIds = new Set((await this.databaseManager.getAllRules()).map(rule => rule.id));
+        const unknownRuleIds = ruleIds.filter(ruleId => !allRuleIds.has(ruleId));
+        if (unknownRuleIds.length > 0) {
+            console.warn(`⚠️ Ignoring ${unknownRuleIds.length} rules that are not in the library:`, unknownRuleIds);
+        }
+        return ruleIds.filter(ruleId => allRuleIds.has(ruleId));
+    }
+
+    // One database write, one UI refresh and one workspace sync for a whole batch of activation changes
+    private async updateActiveRules(
+        operation: string,
+        targetWorkspaceId: string | undefined,
+        mutate: (activeRuleIds: Set<string>) => void
+    ): Promise<ActiveRulesChange> {
         const startTime = Date.now();
-        
+
         try {
-            // 1. Batch database operations
-            const rules = await Promise.all(
-                ruleIds.map(id => this.databaseManager.getRuleById(id))
-            );
+            const workspaceId = this.resolveWorkspaceId(targetWorkspaceId);
+
+            // 1. Single database write; the change is computed inside it so concurrent toggles are not lost
+            let change: ActiveRulesChange = { activated: [], deactivated: [] };
+            await this.databaseManager.updateWorkspaceRuleState(workspaceId, activeRuleIds => {
+                const before = new Set(activeRuleIds);
+                mutate(activeRuleIds);
+                change = {
+                    activated: Array.from(activeRuleIds).filter(ruleId => !before.has(ruleId)),
+                    deactivated: Array.from(before).filter(ruleId => !activeRuleIds.has(ruleId))
+                };
+            });
 
-            const validRules = rules.filter(r => r !== null) as CursorRule[];
-            
-            // 2. Parallel status updates
-            await Promise.all(
-                validRules.map(rule => {
-                    const newStatus = !rule.isActive;
-                    rule.isActive = newStatus;
-                    this.pendingFileOperations.add(rule.id);
-                    return this.databaseManager.updateRuleStatus(rule.id, newStatus);
-                })
-            );
+            const changedRuleIds = [...change.activated, ...change.deactivated];
+            if (changedRuleIds.length > 0) {
+                changedRuleIds.forEach(ruleId => this.addPendingFileOperation(workspaceId, ruleId));
 
-            // 3. Single UI refresh for all changes
-            this.scheduleUIRefresh();
-            
-            // 4. Single workspace sync for all changes
-            this.scheduleWorkspaceSync();
+                // 2. Single UI refresh for all changes
+                this.scheduleUIRefresh();
+
+                // 3. Single workspace sync for all changes
+                this.scheduleWorkspaceSync();
+            }
 
             const duration = Date.now() - startTime;
-            console.log(`🚀 Batch toggle completed in ${duration}ms - ${validRules.length} rules`);
-            
+            console.log(`🚀 ${operation} completed in ${duration}ms - ${change.activated.length} activated, ${change.deactivated.length} deactivated`);
+            return change;
         } catch (error) {
-            console.error('Failed to batch toggle rules:', error);
+            console.error(`${operation} failed:`, error);
             throw error;
         }
     }
 
     async initializeRules(): Promise<void> {
         try {
+            // Rules used to carry a global isActive flag; move it into the open workspace
+            const workspaceId = this.workspaceManager.getCurrentWorkspaceId();
+            if (workspaceId) {
+                await this.databaseManager.migrateGlobalActivation(workspaceId);
+            }
+
+            // Local folder sources need no network, so they are indexed on every startup
+            await this.indexLocalSources();
+            this.watchLocalSources();
+
+            // Team manifests may prompt, so they are reconciled without blocking activation
+            this.watchTeamManifests();
+            this.reconcileTeamManifests().catch(error => console.error('❌ Team manifest reconciliation failed:', error));
+
             const existingRules = await this.databaseManager.getAllRules();
             
             // Don't automatically fetch rules on startup to avoid rate limiting
@@ -237,23 +333,36 @@ export class RulesManager {
 
     async refreshRules(): Promise<void> {
         try {
+            const localRulesCount = await this.indexLocalSources();
+
+            // Nothing to fetch when every GitHub source has been removed from settings
+            if (this.githubService.getRuleSources().length === 0) {
+                await this.notificationManager.showRulesRefreshedNotification(localRulesCount);
+                this._onDidChangeRules.fire();
+                return;
+            }
+
             // Refresh GitHub token first (in case it was just configured)
             await this.githubService.refreshToken();
             
-            // Check if GitHub token is configured using SecretStorage (consistent with GitHubService)
-            const githubToken = await this.githubService.getSecureToken();
-            
-            if (!githubToken) {
-                const setupToken = await vscode.window.showWarningMessage(
-                    'GitHub token not configured. You may hit rate limits (60 requests/hour).\n\n' +
-                    'Setup a FREE GitHub token for 5000 requests/hour?',
-                    'Setup Token',
-                    'Continue Anyway'
-                );
-                
-                if (setupToken === 'Setup Token') {
-                    await vscode.commands.executeCommand('solidrules.configureGitHubToken');
-                    return; // Exit, user can retry after setup
+            // Anonymous mode: a refresh needs a few requests per source, so it fits the hourly limit
+            // unless that is already used up, in which case the cached rules are kept as they are
+            if (!(await this.githubService.getSecureToken())) {
+                console.log('⚠️ Refreshing rules without a GitHub token (60 requests/hour)');
+                const rateLimit = await this.githubService.getRateLimit().catch(() => undefined);
+                if (rateLimit && rateLimit.remaining < this.githubService.getRuleSources().length * 2) {
+                    console.warn(`⚠️ Anonymous rate limit exhausted until ${rateLimit.reset.toISOString()}`);
+                    vscode.window.showWarningMessage(
+                        `GitHub's anonymous rate limit is used up until ${rateLimit.reset.toLocaleTimeString()}. ` +
+                        'Cached rules stay available; a GitHub token allows 5000 requests per hour.',
+                        'Configure Token'
+                    ).then(action => {
+                        if (action === 'Configure Token') {
+                            vscode.commands.executeCommand('solidrules.configureGitHubToken');
+                        }
+                    });
+                    this._onDidChangeRules.fire();
+                    return;
                 }
             }
 
@@ -270,12 +379,14 @@ export class RulesManager {
                     console.log(`📊 Database contains ${existingRules.length} existing rules`);
                     console.log(`📊 GitHub returned ${githubRules.length} rules from API`);
                     
-                    // Filter out rules that haven't changed (same SHA)
+                    // Filter out rules that haven't changed (same SHA), keyed per source since paths can collide
                     const existingRulesMap = new Map(
                         existingRules
                             .filter(r => r.githubPath && !r.isCustom)
-                            .map(r => [r.githubPath, r.version])
+                            .map(r => [this.githubService.generateRuleId(r.githubPath!, r.sourceId), r.version])
                     );
+                    // Pinned rules keep their version, even on a full refresh
+                    const pinnedRuleIds = new Set(existingRules.filter(r => r.isPinned).map(r => r.id));
                     
                     console.log(`📊 Found ${existingRulesMap.size} existing GitHub rules in database`);
                     
@@ -293,17 +404,23 @@ export class RulesManager {
                     if (shouldForceRefresh) {
                         console.log(`🔄 Smart refresh: Database has ${existingRules.length} rules, GitHub has ${githubRules.length}. Forcing full refresh...`);
                         progress.report({ message: `Loading ${githubRules.length} rules...` });
-                        rulesToUpdate = githubRules; // Process ALL rules
+                        rulesToUpdate = githubRules.filter(githubRule => !pinnedRuleIds.has(this.githubService.generateRuleId(githubRule.path, githubRule.sourceId))); // Process ALL rules
                     } else {
                         // Normal incremental refresh
                         rulesToUpdate = githubRules.filter(githubRule => {
-                            const existingVersion = existingRulesMap.get(githubRule.path);
-                            const needsUpdate = !existingVersion || existingVersion !== githubRule.sha;
+                            const ruleId = this.githubService.generateRuleId(githubRule.path, githubRule.sourceId);
+                            if (pinnedRuleIds.has(ruleId)) {
+                                console.log(`📌 Skipping ${githubRule.name} (pinned)`);
+                                return false;
+                            }
+                            const existingVersion = existingRulesMap.get(ruleId);
+                            // Rules without a known content sha are refetched to be safe
+                            const needsUpdate = !existingVersion || !githubRule.contentSha || existingVersion !== githubRule.contentSha;
                             
                             if (!needsUpdate) {
-                                console.log(`⏭️ Skipping ${githubRule.name} (up to date: ${existingVersion} === ${githubRule.sha})`);
+                                console.log(`⏭️ Skipping ${githubRule.name} (up to date: ${existingVersion} === ${githubRule.contentSha})`);
                             } else {
-                                console.log(`🔄 Needs update: ${githubRule.name} (existing: ${existingVersion}, new: ${githubRule.sha})`);
+                                console.log(`🔄 Needs update: ${githubRule.name} (existing: ${existingVersion}, new: ${githubRule.contentSha})`);
                             }
                             
                             return needsUpdate;
@@ -320,130 +437,79 @@ export class RulesManager {
                         return;
                     }
                     
-                    // Dynamic batch size based on GitHub token availability
-                    const hasToken = !!(await this.githubService.getSecureToken());
-                    
-                    // Optimize batch size based on rate limits and rule count
-                    let BATCH_SIZE: number;
-                    
-                    if (hasToken) {
-                        // With token: aggressive parallelization
-                        if (rulesToUpdate.length <= 20) {
-                            BATCH_SIZE = rulesToUpdate.length; // Process all at once for small sets
-                        } else if (rulesToUpdate.length <= 100) {
-                            BATCH_SIZE = Math.min(75, Math.ceil(rulesToUpdate.length / 2)); // Half at a time, up to 75
-                        } else {
-                            BATCH_SIZE = 100; // Maximum safe concurrent requests
-                        }
-                    } else {
-                        // Without token: very conservative
-                        BATCH_SIZE = Math.min(3, Math.ceil(rulesToUpdate.length / 15));
+                    // Per source: one archive download or a few blob fetches instead of two requests per rule
+                    const rulesBySource = new Map<string, typeof rulesToUpdate>();
+                    for (const githubRule of rulesToUpdate) {
+                        const sourceId = githubRule.sourceId || DEFAULT_RULE_SOURCE.id;
+                        rulesBySource.set(sourceId, [...(rulesBySource.get(sourceId) || []), githubRule]);
                     }
                     
-                    console.log(`🚀 Processing ${rulesToUpdate.length} rules with batch size: ${BATCH_SIZE} (Token: ${hasToken ? '✅' : '❌'})`);
-                    
                     const startTime = Date.now();
                     let processedCount = 0;
-                    let totalRetries = 0;
-                    let totalErrors = 0;
+                    let failedCount = 0;
+                    let lastError: unknown;
                     
-                    for (let i = 0; i < rulesToUpdate.length; i += BATCH_SIZE) {
-                        const batch = rulesToUpdate.slice(i, i + BATCH_SIZE);
-                        
-                                            // Process batch in parallel - fetch rules first, then batch save
-                    const batchPromises = batch.map(async (githubRule) => {
-                        const maxRetries = 3;
-                        let attempt = 0;
-                        
-                        while (attempt < maxRetries) {
-                            try {
-                                // Add small delay between retries to avoid rate limiting
-                                if (attempt > 0) {
-                                    const delay = Math.pow(2, attempt) * 1000; // Exponential backoff
-                                    await new Promise(resolve => setTimeout(resolve, delay));
-                                    console.log(`🔄 Retry ${attempt}/${maxRetries} for ${githubRule.name}`);
-                                }
-                                
-                                const cursorRule = await this.githubService.createCursorRuleFromGitHub(githubRule);
-                                cursorRule.version = githubRule.sha;
-                                console.log(`📥 Fetched rule: ${githubRule.name} (${cursorRule.category || 'Other'}) | SHA: ${githubRule.sha}`);
-                                return { success: true, rule: cursorRule, attempt: attempt + 1, name: githubRule.name };
-                            } catch (error: any) {
-                                attempt++;
-                                
-                                // If it's a rate limit error and we have retries left, wait longer
-                                if (error.message?.includes('rate limit') && attempt < maxRetries) {
-                                    const rateLimitDelay = hasToken ? 2000 : 10000; // 2s with token, 10s without
-                                    console.warn(`⚠️ Rate limit hit for ${githubRule.name}, waiting ${rateLimitDelay}ms...`);
-                                    await new Promise(resolve => setTimeout(resolve, rateLimitDelay));
+                    for (const [sourceId, sourceRules] of rulesBySource) {
+                        try {
+                            const source = this.githubService.getRuleSource(sourceId);
+                            progress.report({ message: `Downloading ${sourceRules.length} rules from ${source.name}...` });
+                            
+                            const files = await this.githubService.fetchRuleFiles(sourceRules, source);
+                            const fetchedRules: CursorRule[] = [];
+                            for (const githubRule of sourceRules) {
+                                const ruleFiles = files.get(githubRule.path);
+                                if (!ruleFiles) {
+                                    failedCount++;
                                     continue;
                                 }
-                                
-                                if (attempt >= maxRetries) {
-                                    console.error(`❌ Failed to process rule ${githubRule.name} after ${maxRetries} attempts:`, error);
-                                    return { success: false, rule: null, error, attempts: attempt, name: githubRule.name };
-                                }
+                                const cursorRule = this.githubService.createCursorRuleFromFiles(githubRule, ruleFiles);
+                                console.log(`📥 Fetched rule: ${githubRule.name} (${cursorRule.category || 'Other'}) | SHA: ${cursorRule.version}`);
+                                fetchedRules.push(cursorRule);
                             }
+                            
+                            // Save all fetched rules with their previous versions at once, keeping the user's favorites and
+                            // rule type choices. Rules are read in the transaction, so changes made during the download are kept
+                            await this.databaseManager.transaction(async tx => {
+                                for (const rule of fetchedRules) {
+                                    const existing = await tx.getRule(rule.id);
+                                    if (existing?.isPinned) {
+                                        continue;
+                                    }
+                                    if (existing && existing.content !== rule.content) {
+                                        this.recordRuleVersion(tx, existing);
+                                    }
+                                    tx.saveRule(existing ? {
+                                        ...rule,
+                                        isFavorite: existing.isFavorite,
+                                        ...(existing.mdcSettings && { mdcSettings: existing.mdcSettings })
+                                    } : rule);
+                                    // Now at the latest upstream version: a pending update was applied
+                                    this.markUpdateHandled(tx, rule.id);
+                                }
+                            });
+                            fetchedRules.forEach(rule => this.fetchedUpdates.delete(rule.id));
+                            
+                            processedCount += fetchedRules.length;
+                            progress.report({ 
+                                message: `Processed ${processedCount}/${rulesToUpdate.length}...`,
+                                increment: (sourceRules.length / rulesToUpdate.length) * 100
+                            });
+                        } catch (error) {
+                            console.error(`❌ Failed to refresh rules from ${sourceId}:`, error);
+                            failedCount += sourceRules.length;
+                            lastError = error;
                         }
-                        
-                        return { success: false, rule: null, error: 'Max retries exceeded', name: githubRule.name };
-                    });
-                        
-                                            const batchResults = await Promise.allSettled(batchPromises);
-                    
-                    // Extract successfully fetched rules for batch save
-                    const successfulRules: CursorRule[] = [];
-                    batchResults.forEach(result => {
-                        if (result.status === 'fulfilled' && result.value.success && result.value.rule) {
-                            successfulRules.push(result.value.rule);
-                        }
-                    });
-                    
-                    // Batch save all successful rules at once
-                    if (successfulRules.length > 0) {
-                        await this.databaseManager.saveRulesBatch(successfulRules);
                     }
                     
-                    processedCount += batch.length;
-                    
-                    progress.report({ 
-                        message: `Processing ${processedCount}/${rulesToUpdate.length}... (${Math.round((processedCount / rulesToUpdate.length) * 100)}%)`,
-                        increment: (batch.length / rulesToUpdate.length) * 100
-                    });
-                        
-                        // Enhanced batch logging with performance metrics
-                        const batchStartTime = Date.now();
-                        const successful = batchResults.filter(r => r.status === 'fulfilled').length;
-                        const failed = batchResults.filter(r => r.status === 'rejected').length;
-                        const batchTime = Date.now() - batchStartTime;
-                        
-                        // Calculate retry statistics
-                        const retryStats = batchResults
-                            .filter(r => r.status === 'fulfilled' && (r as PromiseFulfilledResult<any>).value.success)
-                            .map(r => ((r as PromiseFulfilledResult<any>).value as any)?.attempt || 1);
-                        const avgRetries = retryStats.length > 0 
-                            ? (retryStats.reduce((a, b) => a + b, 0) / retryStats.length).toFixed(1)
-                            : '0';
-                        
-                        const batchNum = Math.ceil((i + BATCH_SIZE) / BATCH_SIZE);
-                        const totalBatches = Math.ceil(rulesToUpdate.length / BATCH_SIZE);
-                        
-                        console.log(`📦 Batch ${batchNum}/${totalBatches}: ✅ ${successful} success, ❌ ${failed} failed, ⏱️ ${batchTime}ms, 🔄 avg ${avgRetries} retries`);
-                        
-                        // Update global statistics
-                        totalRetries += retryStats.reduce((a, b) => a + b, 0) - retryStats.length; // Only count extra retries
-                        totalErrors += failed;
+                    // Only fail the refresh when nothing could be fetched
+                    if (processedCount === 0 && lastError) {
+                        throw lastError;
                     }
                     
                     progress.report({ message: 'Finalizing...' });
                     
-                    // Final performance summary
                     const totalTime = Date.now() - startTime;
-                    const rulesPerSecond = ((processedCount / totalTime) * 1000).toFixed(1);
-                    const successRate = (((processedCount - totalErrors) / processedCount) * 100).toFixed(1);
-                    
-                    console.log(`🏁 Completed! ${processedCount} rules processed in ${totalTime}ms`);
-                    console.log(`📊 Performance: ${rulesPerSecond} rules/sec, ${successRate}% success rate, ${totalRetries} retries, ${totalErrors} errors`);
+                    console.log(`🏁 Completed! ${processedCount} rules processed in ${totalTime}ms, ${failedCount} failed`);
                     
                     // Store the count for notification
                     processedRulesCount = processedCount;
@@ -465,12 +531,124 @@ export class RulesManager {
         }
     }
 
+    // Index all local folder sources; returns the number of rules added or changed
+    async indexLocalSources(): Promise<number> {
+        let changedCount = 0;
+        for (const source of this.localRulesService.getLocalSources()) {
+            try {
+                changedCount += await this.indexLocalSource(source);
+            } catch (error) {
+                console.error(`❌ Failed to index local source ${source.path}:`, error);
+                await this.notificationManager.showErrorMessage(
+                    `Failed to index local rules: ${error instanceof Error ? error.message : String(error)}`
+                );
+            }
+        }
+        return changedCount;
+    }
+
+    // Reconcile one local source with the library: upsert changed files, drop rules whose file is gone
+    private indexLocalSource(source: LocalRuleSource): Promise<number> {
+        const run = this.localIndexQueue.catch(() => undefined).then(async () => {
+            const indexedRules = await this.localRulesService.indexSource(source);
+            const existingRules = (await this.databaseManager.getAllRules()).filter(rule => rule.sourceId === source.id);
+            const existingById = new Map(existingRules.map(rule => [rule.id, rule]));
+            const indexedIds = new Set(indexedRules.map(rule => rule.id));
+
+            const changedRules = indexedRules
+                .filter(rule => existingById.get(rule.id)?.version !== rule.version)
+                .map(rule => {
+                    const existing = existingById.get(rule.id);
+                    return existing
+                        ? {
+                            ...rule,
+                            isFavorite: existing.isFavorite,
+                            createdAt: existing.createdAt,
+                            ...(existing.mdcSettings && { mdcSettings: existing.mdcSettings })
+                        }
+                        : rule;
+                });
+            const removedRules = existingRules.filter(rule => !indexedIds.has(rule.id));
+
+            if (changedRules.length === 0 && removedRules.length === 0) {
+                return 0;
+            }
+
+            // Workspaces that have a changed or removed rule active need their files rewritten
+            const touchedIds = new Set([...changedRules, ...removedRules].map(rule => rule.id));
+            const affectedWorkspaceIds: string[] = [];
+            for (const workspaceId of this.workspaceManager.getWorkspaceIds()) {
+                const activeRuleIds = await this.databaseManager.getActiveRuleIds(workspaceId);
+                if (activeRuleIds.some(id => touchedIds.has(id))) {
+                    affectedWorkspaceIds.push(workspaceId);
+                }
+            }
+
+            const config = vscode.workspace.getConfiguration('solidrules');
+            const rulesDirectory = config.get<string>('rulesDirectory', 'cursorRules');
+            for (const rule of removedRules) {
+                for (const workspaceId of affectedWorkspaceIds) {
+                    await this.workspaceManager.removeProjectRule(rule, workspaceId);
+                    await this.workspaceManager.removeRuleFromWorkspace(rule, rulesDirectory, workspaceId);
+                }
+            }
+
+            // Changed and removed rules are stored together
+            if (changedRules.length > 0 || removedRules.length > 0) {
+                await this.databaseManager.transaction(tx => {
+                    tx.saveRules(changedRules);
+                    removedRules.forEach(rule => tx.deleteRule(rule.id));
+                });
+            }
+
+            for (const workspaceId of affectedWorkspaceIds) {
+                await this.updateWorkspaceRules(workspaceId);
+            }
+
+            console.log(`📂 Local source ${source.name}: ${changedRules.length} changed, ${removedRules.length} removed`);
+            this.scheduleUIRefresh();
+            return changedRules.length;
+        });
+
+        this.localIndexQueue = run.then(() => undefined);
+        return run;
+    }
+
+    // (Re)create file watchers for the configured local sources
+    watchLocalSources(): void {
+        this.localSourceWatchers.forEach(watcher => watcher.dispose());
+        this.localSourceWatchers = this.localRulesService.getLocalSources().map(source =>
+            this.localRulesService.watchSource(source, async (changedSource) => {
+                try {
+                    await this.indexLocalSource(changedSource);
+                } catch (error) {
+                    console.error(`❌ Failed to reindex local source ${changedSource.path}:`, error);
+                }
+            })
+        );
+    }
+
+    async handleLocalSourcesChanged(): Promise<void> {
+        this.watchLocalSources();
+        await this.indexLocalSources();
+        this._onDidChangeRules.fire();
+    }
+
+    getLocalRuleSources(): LocalRuleSource[] {
+        return this.localRulesService.getLocalSources();
+    }
+
     async getAllRules(): Promise<CursorRule[]> {
-        return await this.databaseManager.getAllRules();
+        return await this.withWorkspaceState(await this.databaseManager.getAllRules());
     }
 
     async getRuleById(id: string): Promise<CursorRule | null> {
-        return await this.databaseManager.getRuleById(id);
+        const rule = await this.databaseManager.getRuleById(id);
+        if (!rule) {
+            return null;
+        }
+        const [projected] = await this.withWorkspaceState([rule]);
+        return projected;
     }
 
     async searchRules(query: string, filters?: SearchFilters): Promise<CursorRule[]> {
@@ -481,7 +659,7 @@ export class RulesManager {
             if (filters?.showFavoritesOnly) {
                 rules = await this.databaseManager.getFavoriteRules();
             } else if (filters?.showActiveOnly) {
-                rules = await this.databaseManager.getActiveRules();
+                rules = await this.getActiveRules();
             } else {
                 rules = await this.databaseManager.getAllRules();
             }
@@ -493,6 +671,8 @@ export class RulesManager {
             });
         }
 
+        await this.withWorkspaceState(rules);
+
         // Apply additional filters
         if (filters) {
             if (filters.technology && !query) {
@@ -507,6 +687,10 @@ export class RulesManager {
                 rules = rules.filter(rule => rule.category === filters.category);
             }
 
+            if (filters.source) {
+                rules = rules.filter(rule => this.getRuleSourceId(rule) === filters.source);
+            }
+
             if (filters.tags && filters.tags.length > 0) {
                 rules = rules.filter(rule =>
                     filters.tags!.some(tag =>
@@ -526,11 +710,61 @@ export class RulesManager {
             }
         }
 
+        // Search results keep their relevance ranking
+        if (query.trim()) {
+            return rules;
+        }
+
         // Sort rules
         const sortBy = filters?.sortBy || 'recent';
         return this.sortRules(rules, sortBy);
     }
 
+    async searchRuleMatches(query: string): Promise<RuleSearchMatch[]> {
+        return await this.databaseManager.searchRuleMatches(query);
+    }
+
+    async getSavedSearches(): Promise<SavedSearch[]> {
+        const searches = await this.databaseManager.getSavedSearches();
+        return searches.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    async saveSearch(name: string, query: string): Promise<SavedSearch> {
+        const trimmedName = name.trim();
+        if (!trimmedName) {
+            throw new Error('Search name is required');
+        }
+        if (!query.trim()) {
+            throw new Error('Cannot save an empty search');
+        }
+
+        const search: SavedSearch = { name: trimmedName, query: query.trim(), createdAt: new Date() };
+        await this.databaseManager.saveSearch(search);
+        console.log(`🔖 Saved search ${search.name}: ${search.query}`);
+        return search;
+    }
+
+    async deleteSavedSearch(name: string): Promise<void> {
+        await this.databaseManager.deleteSavedSearch(name);
+    }
+
+    // Values offered by the search box for tech:, category:, tag: and source:
+    async getSearchQualifierValues(): Promise<SearchQualifierValues> {
+        const rules = await this.databaseManager.getAllRules();
+        const tagCounts = new Map<string, number>();
+        rules.forEach(rule => rule.tags.forEach(tag => tagCounts.set(tag.toLowerCase(), (tagCounts.get(tag.toLowerCase()) || 0) + 1)));
+        const countLabel = (count: number) => `${count} rule${count === 1 ? '' : 's'}`;
+
+        return {
+            tech: (await this.getTechnologies()).map(technology => ({ value: technology.name, description: countLabel(technology.count) })),
+            category: (await this.getCategories()).map(category => ({ value: category })),
+            tag: Array.from(tagCounts)
+                .sort((a, b) => b[1] - a[1])
+                .map(([tag, count]) => ({ value: tag, description: countLabel(count) })),
+            source: Array.from(this.getRuleSourceNames()).map(([id, name]) => ({ value: id, description: name }))
+        };
+    }
+
     private sortRules(rules: CursorRule[], sortBy: 'recent' | 'alphabetical' | 'popularity'): CursorRule[] {
         switch (sortBy) {
             case 'alphabetical':
@@ -569,7 +803,7 @@ export class RulesManager {
     }
 
     async getRulesByFormat(): Promise<{ directoryRules: CursorRule[], fileRules: CursorRule[] }> {
-        const allRules = await this.databaseManager.getAllRules();
+        const allRules = await this.getAllRules();
         
         console.log(`🔍 DEBUG: getRulesByFormat - Total rules: ${allRules.length}`);
         
@@ -581,15 +815,13 @@ export class RulesManager {
             });
         }
         
-        // Separate rules based on their GitHub path pattern
-        // Old format: rules/name/... (directory format)
-        // New format: rules-new/name.mdc (file format)
+        // Separate rules based on the format of the source path they came from
         const directoryRules = allRules.filter(rule => 
-            !rule.isCustom && rule.githubPath && rule.githubPath.startsWith('rules/')
+            !rule.isCustom && (rule.githubPath || rule.localPath) && this.getRuleFormat(rule) === 'directory'
         );
         
         const fileRules = allRules.filter(rule => 
-            !rule.isCustom && rule.githubPath && rule.githubPath.startsWith('rules-new/')
+            !rule.isCustom && (rule.githubPath || rule.localPath) && this.getRuleFormat(rule) === 'file'
         );
 
         // Include custom rules with directory format by default
@@ -611,31 +843,78 @@ export class RulesManager {
             fileRules.slice(0, 3).forEach(rule => {
                 console.log(`   - ${rule.name} (${rule.githubPath})`);
             });
-        } else {
-            console.log('⚠️ No file rules found! Checking for rules-new paths...');
-            const rulesNewRules = allRules.filter(rule => rule.githubPath && rule.githubPath.includes('rules-new'));
-            console.log(`🔍 Rules containing 'rules-new': ${rulesNewRules.length}`);
-            rulesNewRules.forEach(rule => {
-                console.log(`   - ${rule.name}: ${rule.githubPath}`);
-            });
         }
         
         return { directoryRules, fileRules };
     }
 
-    async activateRule(ruleId: string, showNotification: boolean = true, skipWorkspaceUpdate: boolean = false): Promise<void> {
+    // Rules fetched before formats were stored fall back to the awesome-cursorrules path pattern:
+    // Old format: rules/name/... (directory format)
+    // New format: rules-new/name.mdc (file format)
+    private getRuleFormat(rule: CursorRule): RuleFormat | undefined {
+        if (rule.format) {
+            return rule.format;
+        }
+        if (rule.githubPath?.startsWith('rules-new/')) {
+            return 'file';
+        }
+        if (rule.githubPath?.startsWith('rules/')) {
+            return 'directory';
+        }
+        return undefined;
+    }
+
+    getRuleSourceId(rule: CursorRule): string | undefined {
+        if (rule.isCustom) {
+            return undefined;
+        }
+        return rule.sourceId || DEFAULT_RULE_SOURCE.id;
+    }
+
+    getRuleSources(): RuleSource[] {
+        return this.githubService.getRuleSources();
+    }
+
+    // Display names for every configured source, GitHub and local
+    getRuleSourceNames(): Map<string, string> {
+        const names = new Map<string, string>();
+        this.githubService.getRuleSources().forEach(source => names.set(source.id, source.name));
+        this.localRulesService.getLocalSources().forEach(source => names.set(source.id, source.name));
+        return names;
+    }
+
+    async getRulesBySource(): Promise<Map<string, CursorRule[]>> {
+        const allRules = await this.getAllRules();
+        const rulesBySource = new Map<string, CursorRule[]>();
+
+        for (const rule of allRules) {
+            const sourceId = this.getRuleSourceId(rule);
+            if (!sourceId) {
+                continue;
+            }
+            if (!rulesBySource.has(sourceId)) {
+                rulesBySource.set(sourceId, []);
+            }
+            rulesBySource.get(sourceId)!.push(rule);
+        }
+
+        return rulesBySource;
+    }
+
+    async activateRule(ruleId: string, showNotification: boolean = true, skipWorkspaceUpdate: boolean = false, targetWorkspaceId?: string): Promise<void> {
         try {
+            const workspaceId = this.resolveWorkspaceId(targetWorkspaceId);
             const rule = await this.databaseManager.getRuleById(ruleId);
             if (!rule) {
                 throw new Error('Rule not found');
             }
 
-            await this.databaseManager.updateRuleStatus(ruleId, true);
+            await this.databaseManager.updateRuleStatus(workspaceId, ruleId, true);
             rule.isActive = true;
 
             // Skip workspace update for batch operations to improve performance
             if (!skipWorkspaceUpdate) {
-                await this.updateWorkspaceRules();
+                await this.updateWorkspaceRules(workspaceId);
             }
             
             if (showNotification) {
@@ -653,14 +932,15 @@ export class RulesManager {
         }
     }
 
-    async deactivateRule(ruleId: string, showNotification: boolean = true, skipWorkspaceUpdate: boolean = false): Promise<void> {
+    async deactivateRule(ruleId: string, showNotification: boolean = true, skipWorkspaceUpdate: boolean = false, targetWorkspaceId?: string): Promise<void> {
         try {
+            const workspaceId = this.resolveWorkspaceId(targetWorkspaceId);
             const rule = await this.databaseManager.getRuleById(ruleId);
             if (!rule) {
                 throw new Error('Rule not found');
             }
 
-            await this.databaseManager.updateRuleStatus(ruleId, false);
+            await this.databaseManager.updateRuleStatus(workspaceId, ruleId, false);
             rule.isActive = false;
 
             // Skip workspace file operations for batch operations to improve performance
@@ -669,10 +949,10 @@ export class RulesManager {
                 const config = vscode.workspace.getConfiguration('solidrules');
                 const rulesDirectory = config.get<string>('rulesDirectory', 'cursorRules');
                 
-                await this.workspaceManager.removeProjectRule(rule);
-                await this.workspaceManager.removeRuleFromWorkspace(rule, rulesDirectory);
+                await this.workspaceManager.removeProjectRule(rule, workspaceId);
+                await this.workspaceManager.removeRuleFromWorkspace(rule, rulesDirectory, workspaceId);
 
-                await this.updateWorkspaceRules();
+                await this.updateWorkspaceRules(workspaceId);
             }
             
             if (showNotification) {
@@ -742,156 +1022,744 @@ export class RulesManager {
         }
     }
 
-    async deleteRule(ruleId: string): Promise<void> {
-        try {
-            const rule = await this.databaseManager.getRuleById(ruleId);
-            if (!rule) {
-                throw new Error('Rule not found');
-            }
+    // .cursor/rules files in a workspace folder that are not already tracked as an active SolidRules rule
+    async getWorkspaceRuleCandidates(targetWorkspaceId?: string): Promise<WorkspaceRuleCandidate[]> {
+        const workspaceId = this.resolveWorkspaceId(targetWorkspaceId);
+        const fileNames = await this.workspaceManager.listProjectRuleFiles(workspaceId);
+        if (fileNames.length === 0) {
+            return [];
+        }
 
-            const confirmed = await this.notificationManager.confirmDeleteRule(rule.name);
-            if (!confirmed) {
-                return;
-            }
+        const allRules = await this.databaseManager.getAllRules();
+        const activeRuleIds = new Set(await this.databaseManager.getActiveRuleIds(workspaceId));
+        const rulesByFileName = new Map<string, CursorRule[]>();
+        for (const rule of allRules) {
+            const fileName = this.workspaceManager.getProjectRuleFileName(rule.name);
+            rulesByFileName.set(fileName, [...(rulesByFileName.get(fileName) || []), rule]);
+        }
 
-            // Remove rule files from workspace if active
-            if (rule.isActive) {
-                const config = vscode.workspace.getConfiguration('solidrules');
-                const rulesDirectory = config.get<string>('rulesDirectory', 'cursorRules');
-                
-                await this.workspaceManager.removeProjectRule(rule);
-                await this.workspaceManager.removeRuleFromWorkspace(rule, rulesDirectory);
-            }
+        const candidates: WorkspaceRuleCandidate[] = [];
+        for (const fileName of fileNames) {
+            try {
+                const content = await this.workspaceManager.readProjectRuleFile(fileName, workspaceId);
+                const isGenerated = this.workspaceManager.isGeneratedBySolidRules(content);
+                const matchingRules = rulesByFileName.get(fileName) || [];
 
-            await this.databaseManager.deleteRule(ruleId);
-            
-            if (rule.isActive) {
-                await this.updateWorkspaceRules();
+                // Generated files backed by an active rule are already managed by SolidRules
+                if (isGenerated && matchingRules.some(rule => activeRuleIds.has(rule.id))) {
+                    continue;
+                }
+
+                const { attributes } = parseMdc(content);
+                const baseName = fileName.replace(/\.mdc$/, '');
+                candidates.push({
+                    fileName,
+                    filePath: this.workspaceManager.getProjectRuleFilePath(fileName, workspaceId)!,
+                    name: this.getAdoptedRuleName(baseName),
+                    description: getString(attributes, 'description'),
+                    globs: getString(attributes, 'globs'),
+                    alwaysApply: getBoolean(attributes, 'alwaysApply'),
+                    body: this.workspaceManager.extractProjectRuleBody(content),
+                    isGenerated,
+                    matchingRule: matchingRules[0]
+                });
+            } catch (error) {
+                console.error(`❌ Failed to read project rule ${fileName}:`, error);
             }
-            
-            this._onDidChangeRules.fire();
-        } catch (error) {
-            console.error(`Failed to delete rule ${ruleId}:`, error);
-            await this.notificationManager.showErrorMessage(`Failed to delete rule: ${error}`);
-            throw error;
         }
+
+        return candidates;
     }
 
-    async checkForUpdates(): Promise<void> {
-        try {
-            const rules = await this.databaseManager.getAllRules();
-            const nonCustomRules = rules.filter(rule => !rule.isCustom);
-            
-            if (nonCustomRules.length === 0) {
-                return;
+    // Adopted rules keep a name that maps back to the same .mdc file, so activation never creates a duplicate
+    private getAdoptedRuleName(baseName: string): string {
+        const displayName = baseName
+            .split(/[-_]+/)
+            .filter(word => word.length > 0)
+            .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+            .join(' ');
+        const expectedFileName = `${baseName}.mdc`;
+        return this.workspaceManager.getProjectRuleFileName(displayName) === expectedFileName ? displayName : baseName;
+    }
+
+    // Create a custom rule from a workspace file and mark it active in that workspace folder
+    async adoptWorkspaceRule(candidate: WorkspaceRuleCandidate, targetWorkspaceId?: string): Promise<CursorRule> {
+        const workspaceId = this.resolveWorkspaceId(targetWorkspaceId);
+
+        const adoptedRule: CursorRule = {
+            id: `custom-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            name: candidate.name,
+            description: candidate.description || 'Adopted workspace rule',
+            content: candidate.body,
+            technologies: [],
+            tags: ['custom', 'adopted'],
+            category: 'Custom',
+            isActive: false,
+            isFavorite: false,
+            isCustom: true,
+            ...(candidate.globs && { globs: candidate.globs }),
+            ...(candidate.alwaysApply !== undefined && { alwaysApply: candidate.alwaysApply }),
+            createdAt: new Date()
+        };
+
+        await this.databaseManager.transaction(tx => {
+            tx.saveRule(adoptedRule);
+            // The adopted rule now owns the file: release it from a same-named library rule without touching disk
+            if (candidate.matchingRule) {
+                tx.setRuleActive(workspaceId, candidate.matchingRule.id, false);
             }
+            tx.setRuleActive(workspaceId, adoptedRule.id, true);
+        });
 
-            const updateMap = await this.githubService.checkForUpdates(nonCustomRules);
-            const updatesInfo: UpdateInfo[] = [];
+        // Generated files are rewritten from the adopted rule; hand-written files are left untouched
+        if (candidate.isGenerated) {
+            this.addPendingFileOperation(workspaceId, adoptedRule.id);
+            this.scheduleWorkspaceSync();
+        }
 
-            for (const [ruleId, hasUpdate] of updateMap) {
-                const rule = await this.databaseManager.getRuleById(ruleId);
-                if (rule && hasUpdate) {
-                    const updateInfo: UpdateInfo = {
-                        ruleId: rule.id,
-                        ruleName: rule.name,
-                        hasUpdate: true,
-                        lastChecked: new Date(),
-                        ...(rule.version && { currentVersion: rule.version })
-                    };
-                    
-                    await this.databaseManager.saveUpdateInfo(updateInfo);
-                    updatesInfo.push(updateInfo);
-                }
-            }
+        console.log(`📥 Adopted workspace rule ${candidate.fileName} as ${adoptedRule.name}`);
+        this.scheduleUIRefresh();
 
-            if (updatesInfo.length > 0) {
-                await this.notificationManager.showUpdateNotification(updatesInfo);
+        adoptedRule.isActive = workspaceId === this.workspaceManager.getCurrentWorkspaceId();
+        return adoptedRule;
+    }
+
+    // Project rule file content SolidRules writes for a rule (used for diffs)
+    renderProjectRule(rule: CursorRule, workspaceSettings?: MdcRuleSettings): string {
+        return this.workspaceManager.formatProjectRuleContent(rule, workspaceSettings);
+    }
+
+    getProjectRuleFileName(rule: CursorRule): string {
+        return this.workspaceManager.getProjectRuleFileName(rule.name);
+    }
+
+    // Custom rule built from editor fields; existing rules keep their id, favorite flag and creation date
+    private buildCustomRule(draft: CustomRuleDraft, existing?: CursorRule): CursorRule {
+        const tags = draft.tags.map(tag => tag.trim()).filter(tag => tag.length > 0);
+
+        return {
+            id: existing?.id || `custom-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            name: draft.name.trim(),
+            description: draft.description.trim(),
+            content: draft.content,
+            technologies: draft.technologies.map(tech => tech.trim().toLowerCase()).filter(tech => tech.length > 0),
+            // New rules are tagged like imported ones; edited rules keep whatever tags the user left
+            tags: existing || tags.includes('custom') ? tags : [...tags, 'custom'],
+            category: draft.category.trim() || 'Custom',
+            isActive: false,
+            isFavorite: existing?.isFavorite || false,
+            isCustom: true,
+            ...(draft.mdcSettings && { mdcSettings: draft.mdcSettings }),
+            createdAt: existing?.createdAt || new Date(),
+            lastUpdated: new Date()
+        };
+    }
+
+    // Problems that prevent saving a draft; empty when the draft is valid
+    async validateCustomRuleDraft(draft: CustomRuleDraft, ruleId?: string): Promise<string[]> {
+        const errors: string[] = [];
+        const name = draft.name.trim();
+
+        if (!name) {
+            errors.push('Name is required');
+        } else if (!this.workspaceManager.getProjectRuleFileName(name).replace(/\.mdc$/, '')) {
+            errors.push('Name must contain at least one letter or digit');
+        } else {
+            // Rules are written to .cursor/rules/<sanitized-name>.mdc, so names must not collide there
+            const fileName = this.workspaceManager.getProjectRuleFileName(name);
+            const allRules = await this.databaseManager.getAllRules();
+            const conflict = allRules.find(rule => rule.id !== ruleId && this.workspaceManager.getProjectRuleFileName(rule.name) === fileName);
+            if (conflict) {
+                errors.push(`"${conflict.name}" already uses the rule file ${fileName}`);
             }
-        } catch (error) {
-            console.error('Failed to check for updates:', error);
         }
+
+        if (!draft.content.trim()) {
+            errors.push('Rule content is required');
+        }
+
+        if (draft.mdcSettings?.ruleType === 'autoAttached' && !draft.mdcSettings.globs?.trim()) {
+            errors.push('Auto Attached rules need at least one glob pattern');
+        }
+        if (draft.mdcSettings?.ruleType === 'agentRequested' && !draft.description.trim()) {
+            errors.push('Agent Requested rules need a description');
+        }
+
+        return errors;
     }
 
-    async updateRule(ruleId: string): Promise<void> {
+    // .mdc output for a draft, as it would be written to .cursor/rules
+    async renderCustomRuleDraft(draft: CustomRuleDraft, ruleId?: string): Promise<string> {
+        const existing = ruleId ? await this.databaseManager.getRuleById(ruleId) : null;
+        return this.renderProjectRule(this.buildCustomRule(draft, existing || undefined));
+    }
+
+    // Create a custom rule, or update one when ruleId is given; active copies are rewritten
+    async saveCustomRule(draft: CustomRuleDraft, ruleId?: string): Promise<CursorRule> {
         try {
-            const rule = await this.databaseManager.getRuleById(ruleId);
-            if (!rule || rule.isCustom || !rule.githubPath) {
-                throw new Error('Rule cannot be updated');
+            const existing = ruleId ? await this.databaseManager.getRuleById(ruleId) : null;
+            if (ruleId && !existing) {
+                throw new Error('Rule not found');
+            }
+            if (existing && !existing.isCustom) {
+                throw new Error(`"${existing.name}" is not a custom rule`);
             }
 
-            const githubRuleInfo = {
-                path: rule.githubPath,
-                name: rule.name,
-                sha: '',
-                size: 0,
-                download_url: '',
-                type: 'dir' as const
-            };
+            const errors = await this.validateCustomRuleDraft(draft, ruleId);
+            if (errors.length > 0) {
+                throw new Error(errors.join('; '));
+            }
 
-            const updatedRule = await this.githubService.createCursorRuleFromGitHub(githubRuleInfo);
-            // Create new rule object with updated content but keeping original properties
-            const ruleWithUpdates: CursorRule = {
-                ...updatedRule,
-                id: rule.id,
-                isActive: rule.isActive,
-                isFavorite: rule.isFavorite,
-                lastUpdated: new Date()
-            };
+            const rule = this.buildCustomRule(draft, existing || undefined);
+            await this.writeCustomRule(rule, existing || undefined);
 
-            await this.databaseManager.saveRule(ruleWithUpdates);
-            
-            if (rule.isActive) {
-                await this.updateWorkspaceRules();
-            }
-            
-            this._onDidChangeRules.fire();
+            console.log(`✏️ Saved custom rule ${rule.name}`);
+            await this.notificationManager.showCustomRuleSavedNotification(rule.name);
+            this.scheduleUIRefresh();
+
+            return rule;
         } catch (error) {
-            console.error(`Failed to update rule ${ruleId}:`, error);
-            await this.notificationManager.showErrorMessage(`Failed to update rule: ${error}`);
+            console.error('Failed to save custom rule:', error);
             throw error;
         }
     }
 
-    async updateAllRules(): Promise<void> {
-        try {
-            const updatesInfo = await this.databaseManager.getUpdatesInfo();
-            
-            for (const update of updatesInfo) {
-                await this.updateRule(update.ruleId);
-            }
-            
-            await this.notificationManager.showSuccessMessage(
-                `Successfully updated ${updatesInfo.length} rules`
-            );
+    // Save a custom rule; when it replaces an existing one, its active copies are rewritten
+    private async writeCustomRule(rule: CursorRule, existing?: CursorRule): Promise<void> {
+        await this.databaseManager.saveRule(rule);
+        if (!existing) {
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('solidrules');
+        const rulesDirectory = config.get<string>('rulesDirectory', 'cursorRules');
+        const renamed = this.workspaceManager.getProjectRuleFileName(existing.name) !== this.workspaceManager.getProjectRuleFileName(rule.name);
+
+        for (const workspaceId of this.workspaceManager.getWorkspaceIds()) {
+            const activeRuleIds = await this.databaseManager.getActiveRuleIds(workspaceId);
+            if (!activeRuleIds.includes(rule.id)) {
+                continue;
+            }
+            // A new name means a new file; drop the one written under the old name
+            if (renamed) {
+                await this.workspaceManager.removeProjectRule(existing, workspaceId);
+                await this.workspaceManager.removeRuleFromWorkspace(existing, rulesDirectory, workspaceId);
+            }
+            this.addPendingFileOperation(workspaceId, rule.id);
+        }
+        this.scheduleWorkspaceSync();
+    }
+
+    // Rules from files, folders and JSON exports; unreadable paths are reported and skipped
+    async readImportCandidates(paths: string[]): Promise<RuleImportCandidate[]> {
+        const candidates: RuleImportCandidate[] = [];
+        for (const importPath of paths) {
+            try {
+                candidates.push(...await this.ruleImportService.readCandidates(importPath));
+            } catch (error) {
+                console.error(`❌ Failed to read ${importPath}:`, error);
+                await this.notificationManager.showErrorMessage(`Failed to read ${importPath}: ${error}`);
+            }
+        }
+        return candidates;
+    }
+
+    // Existing rule with the same exported id, or one that writes to the same .cursor/rules file
+    private async findImportConflict(candidate: RuleImportCandidate): Promise<CursorRule | undefined> {
+        const allRules = await this.databaseManager.getAllRules();
+        const fileName = this.workspaceManager.getProjectRuleFileName(candidate.name);
+        return allRules.find(rule => rule.id === candidate.originalId)
+            || allRules.find(rule => this.workspaceManager.getProjectRuleFileName(rule.name) === fileName);
+    }
+
+    // First "<name> (n)" whose rule file name is not taken
+    private async getUniqueRuleName(name: string): Promise<string> {
+        const allRules = await this.databaseManager.getAllRules();
+        const takenFileNames = new Set(allRules.map(rule => this.workspaceManager.getProjectRuleFileName(rule.name)));
+
+        let counter = 2;
+        let candidateName = `${name} (${counter})`;
+        while (takenFileNames.has(this.workspaceManager.getProjectRuleFileName(candidateName))) {
+            candidateName = `${name} (${++counter})`;
+        }
+        return candidateName;
+    }
+
+    // Import loop shared by file and collection imports; idMap maps exported ids to the rules they ended up as
+    private async importCandidates(
+        candidates: ReadonlyArray<RuleImportCandidate>,
+        resolveConflict: (candidate: RuleImportCandidate, existing: CursorRule) => Promise<ImportConflictResolution | undefined>
+    ): Promise<{ imported: CursorRule[]; skipped: number; idMap: Map<string, string> }> {
+        const imported: CursorRule[] = [];
+        const idMap = new Map<string, string>();
+        let skipped = 0;
+
+        for (const candidate of candidates) {
+            if (!candidate.content.trim()) {
+                console.warn(`⚠️ Skipping empty rule ${candidate.sourcePath}`);
+                skipped++;
+                continue;
+            }
+
+            let name = candidate.name.trim();
+            let existing = await this.findImportConflict(candidate);
+            if (existing) {
+                const resolution = await resolveConflict(candidate, existing);
+                if (!resolution || resolution === 'skip' || (resolution === 'overwrite' && !existing.isCustom)) {
+                    // Skipped rules resolve to the rule already in the library
+                    if (candidate.originalId) {
+                        idMap.set(candidate.originalId, existing.id);
+                    }
+                    skipped++;
+                    continue;
+                }
+                if (resolution === 'rename') {
+                    name = await this.getUniqueRuleName(name);
+                    existing = undefined;
+                }
+            }
+
+            const idTaken = candidate.originalId ? Boolean(await this.databaseManager.getRuleById(candidate.originalId)) : true;
+            const tags = candidate.tags.includes('custom') ? [...candidate.tags] : [...candidate.tags, 'custom'];
+            const rule: CursorRule = {
+                // Exported custom rules keep their id so importing the same export again is recognized
+                id: existing?.id || (!idTaken && candidate.originalId!.startsWith('custom-')
+                    ? candidate.originalId!
+                    : `custom-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`),
+                name,
+                description: candidate.description || 'Custom imported rule',
+                content: candidate.content,
+                technologies: [...candidate.technologies],
+                tags,
+                category: candidate.category || 'Custom',
+                isActive: false,
+                isFavorite: existing?.isFavorite || candidate.isFavorite || false,
+                isCustom: true,
+                ...(candidate.globs && { globs: candidate.globs }),
+                ...(candidate.alwaysApply !== undefined && { alwaysApply: candidate.alwaysApply }),
+                ...(candidate.mdcSettings && { mdcSettings: candidate.mdcSettings }),
+                createdAt: existing?.createdAt || candidate.createdAt || new Date(),
+                lastUpdated: new Date()
+            };
+
+            await this.writeCustomRule(rule, existing);
+            if (rule.isFavorite && !existing?.isFavorite) {
+                await this.databaseManager.updateRuleFavorite(rule.id, true);
+            }
+            imported.push(rule);
+            if (candidate.originalId) {
+                idMap.set(candidate.originalId, rule.id);
+            }
+        }
+
+        return { imported, skipped, idMap };
+    }
+
+    // Import candidates as custom rules; resolveConflict decides for each one that collides with an
+    // existing rule (library rules can only be skipped or renamed, never overwritten)
+    async importRules(
+        candidates: RuleImportCandidate[],
+        resolveConflict: (candidate: RuleImportCandidate, existing: CursorRule) => Promise<ImportConflictResolution | undefined>
+    ): Promise<{ imported: CursorRule[]; skipped: number }> {
+        try {
+            const { imported, skipped } = await this.importCandidates(candidates, resolveConflict);
+
+            console.log(`📥 Imported ${imported.length} custom rules (${skipped} skipped)`);
+            if (imported.length > 0) {
+                await this.notificationManager.showSuccessMessage(
+                    imported.length === 1
+                        ? `Custom rule "${imported[0]!.name}" imported successfully`
+                        : `${imported.length} custom rules imported${skipped > 0 ? ` (${skipped} skipped)` : ''}`
+                );
+            }
+            this.scheduleUIRefresh();
+
+            return { imported, skipped };
+        } catch (error) {
+            console.error('Failed to import rules:', error);
+            await this.notificationManager.showErrorMessage(`Failed to import rules: ${error}`);
+            throw error;
+        }
+    }
+
+    // Rule type as written to a workspace folder, plus the overrides it was resolved from
+    async getRuleSettings(ruleId: string, targetWorkspaceId?: string): Promise<{
+        effective: MdcRuleSettings;
+        ruleSettings?: MdcRuleSettings | undefined;
+        workspaceSettings?: MdcRuleSettings | undefined;
+    }> {
+        const rule = await this.databaseManager.getRuleById(ruleId);
+        if (!rule) {
+            throw new Error('Rule not found');
+        }
+
+        const workspaceId = targetWorkspaceId || this.workspaceManager.getCurrentWorkspaceId();
+        const workspaceConfig = workspaceId ? await this.databaseManager.getWorkspaceConfig(workspaceId) : null;
+        const workspaceSettings = workspaceConfig?.ruleSettings?.[ruleId];
+
+        return {
+            effective: this.workspaceManager.resolveRuleSettings(rule, workspaceSettings),
+            ruleSettings: rule.mdcSettings,
+            workspaceSettings
+        };
+    }
+
+    // Effective rule type of each rule in one workspace folder (for display)
+    async getEffectiveRuleSettings(rules: CursorRule[], targetWorkspaceId?: string): Promise<Map<string, MdcRuleSettings>> {
+        const workspaceId = targetWorkspaceId || this.workspaceManager.getCurrentWorkspaceId();
+        const workspaceConfig = workspaceId ? await this.databaseManager.getWorkspaceConfig(workspaceId) : null;
+        return new Map(rules.map(rule => [
+            rule.id,
+            this.workspaceManager.resolveRuleSettings(rule, workspaceConfig?.ruleSettings?.[rule.id])
+        ]));
+    }
+
+    // Set or clear (undefined) a rule's type, either on the rule itself or as an override for one workspace folder
+    async updateRuleSettings(ruleId: string, settings: MdcRuleSettings | undefined, scope: 'rule' | 'workspace', targetWorkspaceId?: string): Promise<void> {
+        try {
+            const rule = await this.databaseManager.getRuleById(ruleId);
+            if (!rule) {
+                throw new Error('Rule not found');
+            }
+
+            let affectedWorkspaceIds: string[];
+            if (scope === 'workspace') {
+                const workspaceId = this.resolveWorkspaceId(targetWorkspaceId);
+                await this.databaseManager.updateWorkspaceRuleSettings(workspaceId, ruleId, settings);
+                affectedWorkspaceIds = [workspaceId];
+            } else {
+                const { mdcSettings: _previous, ...ruleWithoutSettings } = rule;
+                await this.databaseManager.saveRule(settings ? { ...ruleWithoutSettings, mdcSettings: settings } : ruleWithoutSettings);
+                affectedWorkspaceIds = this.workspaceManager.getWorkspaceIds();
+            }
+
+            // Rewrite the rule file wherever the rule is active
+            for (const workspaceId of affectedWorkspaceIds) {
+                const activeRuleIds = await this.databaseManager.getActiveRuleIds(workspaceId);
+                if (activeRuleIds.includes(ruleId)) {
+                    this.addPendingFileOperation(workspaceId, ruleId);
+                }
+            }
+            this.scheduleWorkspaceSync();
+            this.scheduleUIRefresh();
+        } catch (error) {
+            console.error(`Failed to update rule type for ${ruleId}:`, error);
+            await this.notificationManager.showErrorMessage(`Failed to update rule type: ${error}`);
+            throw error;
+        }
+    }
+
+    async deleteRule(ruleId: string): Promise<void> {
+        try {
+            const rule = await this.getRuleById(ruleId);
+            if (!rule) {
+                throw new Error('Rule not found');
+            }
+
+            const confirmed = await this.notificationManager.confirmDeleteRule(rule.name);
+            if (!confirmed) {
+                return;
+            }
+
+            // Remove rule files from every workspace folder it is active in
+            const config = vscode.workspace.getConfiguration('solidrules');
+            const rulesDirectory = config.get<string>('rulesDirectory', 'cursorRules');
+            const affectedWorkspaceIds: string[] = [];
+
+            for (const workspaceId of this.workspaceManager.getWorkspaceIds()) {
+                const activeRuleIds = await this.databaseManager.getActiveRuleIds(workspaceId);
+                if (activeRuleIds.includes(ruleId)) {
+                    affectedWorkspaceIds.push(workspaceId);
+                    await this.workspaceManager.removeProjectRule(rule, workspaceId);
+                    await this.workspaceManager.removeRuleFromWorkspace(rule, rulesDirectory, workspaceId);
+                }
+            }
+
+            await this.databaseManager.deleteRule(ruleId);
+            
+            for (const workspaceId of affectedWorkspaceIds) {
+                await this.updateWorkspaceRules(workspaceId);
+            }
+            
+            this._onDidChangeRules.fire();
+        } catch (error) {
+            console.error(`Failed to delete rule ${ruleId}:`, error);
+            await this.notificationManager.showErrorMessage(`Failed to delete rule: ${error}`);
+            throw error;
+        }
+    }
+
+    // Returns the updates found by this check; failures are rethrown so background checks can back off
+    async checkForUpdates(sourceId?: string): Promise<UpdateInfo[]> {
+        try {
+            const rules = await this.databaseManager.getAllRules();
+            const nonCustomRules = rules.filter(rule => 
+                !rule.isCustom && !rule.isPinned && (!sourceId || this.getRuleSourceId(rule) === sourceId)
+            );
+            
+            if (nonCustomRules.length === 0) {
+                return [];
+            }
+
+            const updateMap = await this.githubService.checkForUpdates(nonCustomRules);
+            if (!sourceId) {
+                await this.databaseManager.setLastUpdateCheck(new Date());
+            }
+            // Rules found current again lose the update an earlier check recorded
+            const updatesInfo = await this.databaseManager.transaction(async tx => {
+                const found: UpdateInfo[] = [];
+                for (const [ruleId, { hasUpdate, latestVersion }] of updateMap) {
+                    const rule = await tx.getRule(ruleId);
+                    const previous = tx.getUpdateInfo(ruleId);
+                    const skippedVersion = previous?.skippedVersion;
+                    if (rule && hasUpdate && !(latestVersion && latestVersion === skippedVersion)) {
+                        const updateInfo: UpdateInfo = {
+                            ruleId: rule.id,
+                            ruleName: rule.name,
+                            hasUpdate: true,
+                            lastChecked: new Date(),
+                            ...(rule.version && { currentVersion: rule.version }),
+                            ...(latestVersion && { latestVersion }),
+                            ...(skippedVersion && { skippedVersion })
+                        };
+                        tx.saveUpdateInfo(updateInfo);
+                        found.push(updateInfo);
+                    } else if (previous?.hasUpdate) {
+                        tx.saveUpdateInfo({
+                            ...previous,
+                            hasUpdate: false,
+                            lastChecked: new Date(),
+                            ...(rule?.version && { currentVersion: rule.version }),
+                            ...(latestVersion && { latestVersion })
+                        });
+                    }
+                }
+                return found;
+            });
+
+            if (updatesInfo.length > 0) {
+                this.scheduleUIRefresh();
+                // Not awaited: the notification stays open until the user picks an action
+                this.notificationManager.showUpdateNotification(updatesInfo).catch(error => console.error('❌ Update notification failed:', error));
+            }
+            return updatesInfo;
+        } catch (error) {
+            console.error('Failed to check for updates:', error);
+            throw error;
+        }
+    }
+
+    getLastUpdateCheck(): Date | undefined {
+        return this.databaseManager.getLastUpdateCheck();
+    }
+
+    // Rules with an update that is not pinned or skipped, as found by the last check
+    async getPendingUpdates(): Promise<UpdateInfo[]> {
+        const rulesById = new Map((await this.databaseManager.getAllRules()).map(rule => [rule.id, rule]));
+        return (await this.databaseManager.getUpdatesInfo()).filter(update => {
+            const rule = rulesById.get(update.ruleId);
+            return update.hasUpdate && rule !== undefined && !rule.isPinned;
+        });
+    }
+
+    // Fetch the upstream version of a rule without saving it; kept until it is accepted or skipped
+    // so the diff the user reviewed is exactly what gets applied. Returns it applied to the stored rule
+    async fetchRuleUpdate(ruleId: string): Promise<CursorRule> {
+        const upstream = await this.fetchUpstreamVersion(ruleId);
+        this.fetchedUpdates.set(ruleId, upstream);
+        const update = await this.getFetchedRuleUpdate(ruleId);
+        if (!update) {
+            throw new Error('Rule cannot be updated');
+        }
+        return update;
+    }
+
+    // The fetched upstream version applied to the rule as it is stored now
+    async getFetchedRuleUpdate(ruleId: string): Promise<CursorRule | undefined> {
+        const upstream = this.fetchedUpdates.get(ruleId);
+        const rule = upstream ? await this.getRuleById(ruleId) : null;
+        return upstream && rule ? this.withRuleVersion(rule, upstream) : undefined;
+    }
+
+    private async fetchUpstreamVersion(ruleId: string): Promise<CursorRule> {
+        const rule = await this.getRuleById(ruleId);
+        if (!rule || rule.isCustom || !rule.githubPath) {
+            throw new Error('Rule cannot be updated');
+        }
+        if (rule.isPinned) {
+            throw new Error(`${rule.name} is pinned to ${formatRuleVersion(rule.version)}; unpin it to update`);
+        }
+        // Keep the stored format so rules-new/*.mdc rules are refetched as files
+        return this.githubService.createCursorRuleFromGitHub(
+            this.githubService.createRuleInfo(rule.githubPath, this.getRuleFormat(rule), rule.sourceId)
+        );
+    }
+
+    // A rule with the content of another of its versions. What its source defines is replaced; what the
+    // user set on the rule (favorite, rule type, pin) is kept
+    private withRuleVersion(rule: CursorRule, version: Omit<RuleVersion, 'fetchedAt'>): CursorRule {
+        const { globs: _globs, alwaysApply: _alwaysApply, version: _version, ...rest } = rule;
+        return {
+            ...rest,
+            content: version.content,
+            description: version.description,
+            ...(version.globs && { globs: version.globs }),
+            ...(version.alwaysApply !== undefined && { alwaysApply: version.alwaysApply }),
+            ...(version.version && { version: version.version }),
+            lastUpdated: new Date()
+        };
+    }
+
+    async updateRule(ruleId: string): Promise<void> {
+        try {
+            const upstream = this.fetchedUpdates.get(ruleId) || await this.fetchUpstreamVersion(ruleId);
+            this.fetchedUpdates.delete(ruleId);
+
+            // Applied to the rule as the transaction reads it, so changes made during the review are kept
+            await this.databaseManager.transaction(async tx => {
+                const rule = await tx.getRule(ruleId);
+                if (!rule) {
+                    throw new Error('Rule cannot be updated');
+                }
+                if (rule.isPinned) {
+                    throw new Error(`${rule.name} is pinned to ${formatRuleVersion(rule.version)}; unpin it to update`);
+                }
+                if (rule.content !== upstream.content) {
+                    this.recordRuleVersion(tx, rule);
+                }
+                tx.saveRule(this.withRuleVersion(rule, upstream));
+                this.markUpdateHandled(tx, ruleId);
+            });
+
+            await this.scheduleRuleRewrite(ruleId);
+            this._onDidChangeRules.fire();
+        } catch (error) {
+            console.error(`Failed to update rule ${ruleId}:`, error);
+            await this.notificationManager.showErrorMessage(`Failed to update rule: ${error}`);
+            throw error;
+        }
+    }
+
+    // Keep the stored content; the same upstream version is not offered again, a newer one is
+    async skipRuleUpdate(ruleId: string): Promise<void> {
+        this.fetchedUpdates.delete(ruleId);
+        await this.databaseManager.transaction(tx => this.markUpdateHandled(tx, ruleId, true));
+        this._onDidChangeRules.fire();
+    }
+
+    private markUpdateHandled(tx: DatabaseTransaction, ruleId: string, skipped: boolean = false): void {
+        const updateInfo = tx.getUpdateInfo(ruleId);
+        if (!updateInfo) {
+            return;
+        }
+        tx.saveUpdateInfo({
+            ...updateInfo,
+            hasUpdate: false,
+            ...(skipped && updateInfo.latestVersion && { skippedVersion: updateInfo.latestVersion }),
+            lastChecked: new Date()
+        });
+    }
+
+    async getRuleHistory(ruleId: string): Promise<RuleVersion[]> {
+        return await this.databaseManager.getRuleHistory(ruleId);
+    }
+
+    private toRuleVersion(rule: CursorRule): RuleVersion {
+        return {
+            version: rule.version,
+            fetchedAt: rule.lastUpdated || rule.createdAt,
+            content: rule.content,
+            description: rule.description,
+            globs: rule.globs,
+            alwaysApply: rule.alwaysApply
+        };
+    }
+
+    // Keep the content a rule had before it is replaced by a newer (or older) version
+    private recordRuleVersion(tx: DatabaseTransaction, rule: CursorRule): void {
+        const entry = this.toRuleVersion(rule);
+        tx.updateRuleHistory(rule.id, versions => [
+            entry,
+            ...versions.filter(existing => !(existing.version === entry.version && existing.content === entry.content))
+        ]);
+    }
+
+    // Rewrite a rule's files in every open folder where it is active
+    private async scheduleRuleRewrite(ruleId: string): Promise<void> {
+        for (const workspaceId of this.workspaceManager.getWorkspaceIds()) {
+            if ((await this.databaseManager.getActiveRuleIds(workspaceId)).includes(ruleId)) {
+                this.addPendingFileOperation(workspaceId, ruleId);
+            }
+        }
+        this.scheduleWorkspaceSync();
+    }
+
+    async setRulePinned(ruleId: string, isPinned: boolean): Promise<void> {
+        const rule = await this.databaseManager.transaction(async tx => {
+            const rule = await tx.getRule(ruleId);
+            if (!rule || rule.isCustom || !rule.githubPath) {
+                throw new Error('Only rules from a GitHub source can be pinned');
+            }
+            const { isPinned: _isPinned, ...rest } = rule;
+            tx.saveRule(isPinned ? { ...rest, isPinned: true } : rest);
+            if (isPinned) {
+                // A pending update no longer applies
+                this.markUpdateHandled(tx, ruleId);
+            }
+            return rule;
+        });
+        if (isPinned) {
+            this.fetchedUpdates.delete(ruleId);
+        }
+
+        console.log(`📌 ${isPinned ? 'Pinned' : 'Unpinned'} ${rule.name} at ${formatRuleVersion(rule.version)}`);
+        this._onDidChangeRules.fire();
+    }
+
+    // Restore a stored version (newest first) and pin the rule so the next refresh does not undo it.
+    // The replaced version goes into the history, so a rollback can itself be rolled back
+    async restoreRuleVersion(ruleId: string, historyIndex: number = 0): Promise<RuleVersion> {
+        try {
+            const { rule, target } = await this.databaseManager.transaction(async tx => {
+                const rule = await tx.getRule(ruleId);
+                if (!rule || rule.isCustom || !rule.githubPath) {
+                    throw new Error('Only rules from a GitHub source have version history');
+                }
+                const target = tx.getRuleHistory(ruleId)[historyIndex];
+                if (!target) {
+                    throw new Error(`${rule.name} has no previous version to roll back to`);
+                }
+
+                tx.updateRuleHistory(ruleId, versions => [
+                    this.toRuleVersion(rule),
+                    ...versions.filter((_, index) => index !== historyIndex)
+                ]);
+                tx.saveRule({ ...this.withRuleVersion(rule, target), isPinned: true });
+                return { rule, target };
+            });
+
+            await this.scheduleRuleRewrite(ruleId);
+            this._onDidChangeRules.fire();
+            console.log(`⏪ Rolled back ${rule.name} to ${formatRuleVersion(target.version)}`);
+            return target;
         } catch (error) {
-            console.error('Failed to update all rules:', error);
-            await this.notificationManager.showErrorMessage(`Failed to update rules: ${error}`);
+            console.error(`Failed to roll back rule ${ruleId}:`, error);
             throw error;
         }
     }
 
-    private async updateWorkspaceRules(): Promise<void> {
-        const workspaceId = this.workspaceManager.getCurrentWorkspaceId();
+    private async updateWorkspaceRules(workspaceId: string | null = this.workspaceManager.getCurrentWorkspaceId()): Promise<void> {
         if (!workspaceId) {
             return;
         }
 
         try {
-            const activeRules = await this.databaseManager.getActiveRules();
+            const activeRules = await this.databaseManager.getActiveRules(workspaceId);
             const config = vscode.workspace.getConfiguration('solidrules');
             const rulesDirectory = config.get<string>('rulesDirectory', 'cursorRules');
             const maintainLegacyFormat = config.get<boolean>('maintainLegacyFormat', false);
 
-            const workspaceConfig: WorkspaceRuleConfig = {
-                workspaceId,
-                activeRules: activeRules.map(r => r.id),
-                rulesDirectory,
-                lastSyncDate: new Date(),
-                maintainLegacyFormat
-            };
-
-            await this.databaseManager.saveWorkspaceConfig(workspaceConfig);
+            const workspaceConfig = await this.databaseManager.recordWorkspaceSync(workspaceId, rulesDirectory, maintainLegacyFormat);
             await this.workspaceManager.syncActiveRules(activeRules, workspaceConfig);
             
         } catch (error) {
@@ -908,13 +1776,14 @@ export class RulesManager {
     // Ultra-fast methods that only update database state
     async fastActivateRule(ruleId: string): Promise<void> {
         try {
+            const workspaceId = this.resolveWorkspaceId();
             const rule = await this.databaseManager.getRuleById(ruleId);
             if (!rule) {
                 throw new Error('Rule not found');
             }
 
             // Only update database state - no file operations
-            await this.databaseManager.updateRuleStatus(ruleId, true);
+            await this.databaseManager.updateRuleStatus(workspaceId, ruleId, true);
             rule.isActive = true;
             
             // Immediate UI refresh only
@@ -927,13 +1796,14 @@ export class RulesManager {
 
     async fastDeactivateRule(ruleId: string): Promise<void> {
         try {
+            const workspaceId = this.resolveWorkspaceId();
             const rule = await this.databaseManager.getRuleById(ruleId);
             if (!rule) {
                 throw new Error('Rule not found');
             }
 
             // Only update database state - no file operations
-            await this.databaseManager.updateRuleStatus(ruleId, false);
+            await this.databaseManager.updateRuleStatus(workspaceId, ruleId, false);
             rule.isActive = false;
             
             // Immediate UI refresh only
@@ -944,32 +1814,38 @@ export class RulesManager {
         }
     }
 
-    // Lazy workspace synchronization method
+    // Lazy workspace synchronization method - syncs every open workspace folder
     async syncWorkspaceFiles(): Promise<void> {
         try {
-            const activeRules = await this.databaseManager.getActiveRules();
+            for (const workspaceId of this.workspaceManager.getWorkspaceIds()) {
+                await this.syncWorkspaceFolder(workspaceId);
+            }
+        } catch (error) {
+            console.error('Failed to sync workspace files:', error);
+            throw error;
+        }
+    }
+
+    async syncWorkspaceFolder(workspaceId: string): Promise<void> {
+        try {
+            const activeRules = await this.databaseManager.getActiveRules(workspaceId);
             
             // Clean up all existing rule files first
-            await this.cleanupAllRuleFiles();
+            await this.cleanupAllRuleFiles(workspaceId);
             
             // Only write files for currently active rules
             if (activeRules.length > 0) {
-                await this.writeActiveRulesToWorkspace(activeRules);
+                await this.writeActiveRulesToWorkspace(workspaceId, activeRules);
             }
             
-            console.log(`📁 Synchronized ${activeRules.length} active rules to workspace`);
+            console.log(`📁 Synchronized ${activeRules.length} active rules to ${workspaceId}`);
         } catch (error) {
-            console.error('Failed to sync workspace files:', error);
+            console.error(`Failed to sync workspace folder ${workspaceId}:`, error);
             throw error;
         }
     }
 
-    private async cleanupAllRuleFiles(): Promise<void> {
-        const workspaceId = this.workspaceManager.getCurrentWorkspaceId();
-        if (!workspaceId) {
-            return;
-        }
-
+    private async cleanupAllRuleFiles(workspaceId: string): Promise<void> {
         try {
             // Get all rules to clean up their files
             const allRules = await this.databaseManager.getAllRules();
@@ -978,36 +1854,23 @@ export class RulesManager {
             
             // Remove all rule files (both active and inactive)
             for (const rule of allRules) {
-                await this.workspaceManager.removeProjectRule(rule);
-                await this.workspaceManager.removeRuleFromWorkspace(rule, rulesDirectory);
+                await this.workspaceManager.removeProjectRule(rule, workspaceId);
+                await this.workspaceManager.removeRuleFromWorkspace(rule, rulesDirectory, workspaceId);
             }
             
-            console.log(`🧹 Cleaned up ${allRules.length} rule files from workspace`);
+            console.log(`🧹 Cleaned up ${allRules.length} rule files from ${workspaceId}`);
         } catch (error) {
             console.error('Failed to cleanup rule files:', error);
         }
     }
 
-    private async writeActiveRulesToWorkspace(activeRules: CursorRule[]): Promise<void> {
-        const workspaceId = this.workspaceManager.getCurrentWorkspaceId();
-        if (!workspaceId) {
-            return;
-        }
-
+    private async writeActiveRulesToWorkspace(workspaceId: string, activeRules: CursorRule[]): Promise<void> {
         try {
             const config = vscode.workspace.getConfiguration('solidrules');
             const rulesDirectory = config.get<string>('rulesDirectory', 'cursorRules');
             const maintainLegacyFormat = config.get<boolean>('maintainLegacyFormat', false);
 
-            const workspaceConfig: WorkspaceRuleConfig = {
-                workspaceId,
-                activeRules: activeRules.map(r => r.id),
-                rulesDirectory,
-                lastSyncDate: new Date(),
-                maintainLegacyFormat
-            };
-
-            await this.databaseManager.saveWorkspaceConfig(workspaceConfig);
+            const workspaceConfig = await this.databaseManager.recordWorkspaceSync(workspaceId, rulesDirectory, maintainLegacyFormat);
             await this.workspaceManager.syncActiveRules(activeRules, workspaceConfig);
             
             console.log(`📝 Wrote ${activeRules.length} active rules to workspace`);
@@ -1016,12 +1879,412 @@ export class RulesManager {
         }
     }
 
-    async getActiveRules(): Promise<CursorRule[]> {
-        return await this.databaseManager.getActiveRules();
+    // Folder add/remove in a multi-root workspace only touches the affected folders
+    async handleWorkspaceFoldersChanged(event: vscode.WorkspaceFoldersChangeEvent): Promise<void> {
+        for (const folder of event.removed) {
+            const workspaceId = folder.uri.fsPath;
+            this.pendingFileOperations.delete(workspaceId);
+            this.workspaceManager.clearSyncCache(workspaceId);
+            console.log(`📂 Workspace folder removed: ${folder.name}`);
+        }
+
+        for (const folder of event.added) {
+            console.log(`📂 Workspace folder added: ${folder.name}`);
+            await this.syncWorkspaceFolder(folder.uri.fsPath);
+        }
+
+        this.watchTeamManifests();
+        for (const folder of event.added) {
+            this.reconcileTeamManifest(folder.uri.fsPath).catch(error => console.error('❌ Team manifest reconciliation failed:', error));
+        }
+
+        this._onDidChangeRules.fire();
+    }
+
+    // One .solidrules.json watcher per open workspace folder
+    watchTeamManifests(): void {
+        const workspaceIds = this.workspaceManager.getWorkspaceIds();
+        for (const [workspaceId, watcher] of this.manifestWatchers) {
+            if (!workspaceIds.includes(workspaceId)) {
+                watcher.dispose();
+                this.manifestWatchers.delete(workspaceId);
+            }
+        }
+        for (const workspaceId of workspaceIds) {
+            if (!this.manifestWatchers.has(workspaceId)) {
+                this.manifestWatchers.set(workspaceId, this.manifestService.watchManifest(workspaceId, changedWorkspaceId => {
+                    this.reconcileTeamManifest(changedWorkspaceId).catch(error => console.error('❌ Team manifest reconciliation failed:', error));
+                }));
+            }
+        }
+    }
+
+    async reconcileTeamManifests(): Promise<void> {
+        for (const workspaceId of this.workspaceManager.getWorkspaceIds()) {
+            await this.reconcileTeamManifest(workspaceId);
+        }
+    }
+
+    // Compare a folder's manifest with its local rules, active set and rule type overrides
+    async getTeamManifestStatus(workspaceId: string): Promise<TeamManifestStatus | null> {
+        const manifest = await this.manifestService.readManifest(workspaceId);
+        if (!manifest) {
+            return null;
+        }
+
+        const rulesById = new Map((await this.databaseManager.getAllRules()).map(rule => [rule.id, rule]));
+        const config = await this.databaseManager.getWorkspaceConfig(workspaceId);
+        const activeRuleIds = new Set(config?.activeRules || []);
+        const manifestIds = new Set(manifest.rules.map(entry => entry.id));
+        const sameSettings = (a?: MdcRuleSettings, b?: MdcRuleSettings) =>
+            a?.ruleType === b?.ruleType && (a?.globs || '') === (b?.globs || '') && (a?.description || '') === (b?.description || '');
+
+        const missingRules = manifest.rules.filter(entry => !rulesById.has(entry.id));
+        const rulesToActivate = manifest.rules.filter(entry => !activeRuleIds.has(entry.id)).map(entry => entry.id);
+        const rulesToDeactivate = Array.from(activeRuleIds).filter(ruleId => !manifestIds.has(ruleId));
+        const settingsChanged = manifest.rules
+            .filter(entry => !sameSettings(entry.settings, config?.ruleSettings?.[entry.id]))
+            .map(entry => entry.id);
+        // Only GitHub rules have shared versions; local folder rules are versioned by file time
+        const versionMismatches = manifest.rules.filter(entry => {
+            const rule = rulesById.get(entry.id);
+            return Boolean(entry.version && rule?.githubPath && rule.version !== entry.version);
+        });
+
+        return {
+            workspaceId,
+            manifest,
+            missingRules,
+            rulesToActivate,
+            rulesToDeactivate,
+            settingsChanged,
+            versionMismatches,
+            inSync: missingRules.length === 0 && rulesToActivate.length === 0 && rulesToDeactivate.length === 0
+                && settingsChanged.length === 0 && versionMismatches.length === 0
+        };
+    }
+
+    // Offer to apply a folder's manifest when the local state differs; a declined manifest is not offered
+    // again until it changes, unless force is set (explicit command)
+    async reconcileTeamManifest(workspaceId: string, force: boolean = false): Promise<void> {
+        let status: TeamManifestStatus | null;
+        try {
+            status = await this.getTeamManifestStatus(workspaceId);
+        } catch (error) {
+            console.error(`❌ Invalid team manifest in ${workspaceId}:`, error);
+            await this.notificationManager.showErrorMessage(`${error}`);
+            return;
+        }
+
+        const folderName = this.workspaceManager.getWorkspaceName(workspaceId);
+        if (!status) {
+            if (force) {
+                await this.notificationManager.showInformationMessage(`"${folderName}" has no ${TEAM_MANIFEST_FILE}`);
+            }
+            return;
+        }
+
+        const manifestKey = this.manifestService.serializeManifest(status.manifest);
+        if (status.inSync) {
+            console.log(`🤝 ${folderName} matches its team manifest`);
+            if (force) {
+                await this.notificationManager.showInformationMessage(`"${folderName}" already matches ${TEAM_MANIFEST_FILE}`);
+            }
+            return;
+        }
+        if (!force && this.dismissedManifests.get(workspaceId) === manifestKey) {
+            return;
+        }
+
+        const changes = [
+            status.rulesToActivate.length > 0 && `${status.rulesToActivate.length} to activate`,
+            status.rulesToDeactivate.length > 0 && `${status.rulesToDeactivate.length} to deactivate`,
+            status.missingRules.length > 0 && `${status.missingRules.length} to install`,
+            status.settingsChanged.length > 0 && `${status.settingsChanged.length} rule type changes`,
+            status.versionMismatches.length > 0 && `${status.versionMismatches.length} not at the pinned version`
+        ].filter(Boolean).join(', ');
+
+        const choice = await this.notificationManager.showInformationMessage(
+            `Team rules in ${TEAM_MANIFEST_FILE} for "${folderName}" differ from your setup: ${changes}.`,
+            'Apply Team Rules',
+            'Update Manifest',
+            'Not Now'
+        );
+
+        if (choice === 'Apply Team Rules') {
+            this.dismissedManifests.delete(workspaceId);
+            await this.applyTeamManifest(workspaceId, status);
+        } else if (choice === 'Update Manifest') {
+            this.dismissedManifests.delete(workspaceId);
+            await this.writeTeamManifest(workspaceId);
+        } else {
+            this.dismissedManifests.set(workspaceId, manifestKey);
+        }
+    }
+
+    // Install missing rules and bring the others to their pinned versions, then make the folder's active
+    // rules and overrides match the manifest exactly
+    async applyTeamManifest(workspaceId: string, status?: TeamManifestStatus): Promise<void> {
+        try {
+            const currentStatus = status || await this.getTeamManifestStatus(workspaceId);
+            if (!currentStatus) {
+                throw new Error(`No ${TEAM_MANIFEST_FILE} in ${workspaceId}`);
+            }
+
+            const failedRules: string[] = [];
+            for (const entry of currentStatus.missingRules) {
+                try {
+                    await this.installTeamManifestRule(entry);
+                } catch (error) {
+                    console.error(`❌ Failed to install team rule ${entry.id}:`, error);
+                    failedRules.push(entry.name || entry.id);
+                }
+            }
+            for (const entry of currentStatus.versionMismatches) {
+                try {
+                    await this.pinTeamManifestRule(entry);
+                } catch (error) {
+                    console.error(`❌ Failed to pin team rule ${entry.id} at ${formatRuleVersion(entry.version)}:`, error);
+                    failedRules.push(entry.name || entry.id);
+                }
+            }
+
+            const rulesById = new Map((await this.databaseManager.getAllRules()).map(rule => [rule.id, rule]));
+            const entries = currentStatus.manifest.rules.filter(entry => rulesById.has(entry.id));
+            // Rules already at their pinned version are pinned there too, so refreshes keep them on it
+            const unpinnedRuleIds = entries
+                .filter(entry => {
+                    const rule = rulesById.get(entry.id)!;
+                    return entry.version && rule.githubPath && !rule.isPinned && rule.version === entry.version;
+                })
+                .map(entry => entry.id);
+            if (unpinnedRuleIds.length > 0) {
+                await this.databaseManager.transaction(async tx => {
+                    for (const ruleId of unpinnedRuleIds) {
+                        const rule = await tx.getRule(ruleId);
+                        if (rule) {
+                            tx.saveRule({ ...rule, isPinned: true });
+                            this.markUpdateHandled(tx, ruleId);
+                        }
+                    }
+                });
+            }
+            const previousActive = await this.databaseManager.getActiveRuleIds(workspaceId);
+            const previousSettings = (await this.databaseManager.getWorkspaceConfig(workspaceId))?.ruleSettings || {};
+
+            await this.databaseManager.updateWorkspaceRuleState(workspaceId, (activeRuleIds, ruleSettings) => {
+                activeRuleIds.clear();
+                Object.keys(ruleSettings).forEach(ruleId => delete ruleSettings[ruleId]);
+                for (const entry of entries) {
+                    activeRuleIds.add(entry.id);
+                    if (entry.settings) {
+                        ruleSettings[entry.id] = entry.settings;
+                    }
+                }
+            });
+
+            const changedRuleIds = new Set([...previousActive, ...Object.keys(previousSettings), ...entries.map(entry => entry.id)]);
+            changedRuleIds.forEach(ruleId => this.addPendingFileOperation(workspaceId, ruleId));
+            this.scheduleWorkspaceSync();
+            this.scheduleUIRefresh();
+
+            console.log(`🤝 Applied team manifest to ${workspaceId}: ${entries.length} active rules`);
+            if (failedRules.length > 0) {
+                await this.notificationManager.showWarningMessage(
+                    `Applied team rules, but ${failedRules.length} could not be installed at their pinned version: ${failedRules.join(', ')}. Check that their rule sources are configured.`
+                );
+            } else {
+                await this.notificationManager.showSuccessMessage(`Applied ${entries.length} team rules from ${TEAM_MANIFEST_FILE}`);
+            }
+        } catch (error) {
+            console.error('Failed to apply team manifest:', error);
+            await this.notificationManager.showErrorMessage(`Failed to apply team manifest: ${error}`);
+            throw error;
+        }
+    }
+
+    // Custom rules come inline from the manifest; source rules are fetched from their GitHub source, at the
+    // pinned version when there is one. Local folder rules cannot be installed: they appear once their folder is configured
+    private async installTeamManifestRule(entry: TeamManifestRule): Promise<void> {
+        if (entry.custom) {
+            const tags = entry.custom.tags ? [...entry.custom.tags] : [];
+            await this.databaseManager.saveRule({
+                id: entry.id,
+                name: entry.name || entry.id,
+                description: entry.custom.description || 'Team rule',
+                content: entry.custom.content,
+                technologies: entry.custom.technologies ? [...entry.custom.technologies] : [],
+                tags: tags.includes('custom') ? tags : [...tags, 'custom'],
+                category: entry.custom.category || 'Custom',
+                isActive: false,
+                isFavorite: false,
+                isCustom: true,
+                createdAt: new Date()
+            });
+            return;
+        }
+
+        if (!entry.source || !entry.path) {
+            throw new Error(`Team rule ${entry.id} has no source to install from`);
+        }
+        if (entry.source.startsWith(LOCAL_SOURCE_PREFIX)) {
+            throw new Error(`Team rule ${entry.id} comes from local folder source ${entry.source}`);
+        }
+
+        const ruleInfo = this.githubService.createRuleInfo(entry.path, undefined, entry.source);
+        const rule = await this.githubService.createCursorRuleFromGitHub(
+            entry.version ? { ...ruleInfo, contentSha: entry.version } : ruleInfo
+        );
+        if (rule.id !== entry.id) {
+            throw new Error(`Team rule ${entry.id} resolves to ${rule.id} in ${entry.source}`);
+        }
+
+        await this.databaseManager.saveRule(entry.version ? { ...rule, isPinned: true } : rule);
+        console.log(`📥 Installed team rule ${rule.name} from ${entry.source}${entry.version ? ` at ${formatRuleVersion(entry.version)}` : ''}`);
+    }
+
+    // Replace a local rule's content with the version pinned in the manifest and pin it there. The replaced
+    // version goes into the history, like a rollback
+    private async pinTeamManifestRule(entry: TeamManifestRule): Promise<void> {
+        const rule = await this.databaseManager.getRuleById(entry.id);
+        if (!rule?.githubPath || !entry.version) {
+            throw new Error(`Team rule ${entry.id} has no GitHub version to pin`);
+        }
+
+        const pinned = await this.githubService.createCursorRuleFromGitHub({
+            ...this.githubService.createRuleInfo(rule.githubPath, this.getRuleFormat(rule), rule.sourceId),
+            contentSha: entry.version
+        });
+
+        await this.databaseManager.transaction(async tx => {
+            const current = await tx.getRule(entry.id);
+            if (!current) {
+                return;
+            }
+            this.recordRuleVersion(tx, current);
+            tx.saveRule({ ...this.withRuleVersion(current, pinned), version: entry.version!, isPinned: true });
+            // A pending update no longer applies
+            this.markUpdateHandled(tx, entry.id);
+        });
+        this.fetchedUpdates.delete(entry.id);
+        console.log(`📌 Pinned team rule ${rule.name} at ${formatRuleVersion(entry.version)}`);
+    }
+
+    // Manifest matching the folder's current active rules; entries for rules this machine does not have
+    // are kept so one developer's missing source never removes a team rule. keepVersions keeps the versions
+    // the manifest pins instead of recording the local ones, so background write-back never moves a pin
+    private async buildTeamManifest(workspaceId: string, existing: TeamManifest | null, keepVersions: boolean): Promise<TeamManifest> {
+        const rulesById = new Map((await this.databaseManager.getAllRules()).map(rule => [rule.id, rule]));
+        const config = await this.databaseManager.getWorkspaceConfig(workspaceId);
+        const activeRuleIds = config?.activeRules || [];
+
+        const toEntry = (rule: CursorRule, previous?: TeamManifestRule): TeamManifestRule => {
+            const version = (keepVersions && previous?.version) || rule.version;
+            return {
+                id: rule.id,
+                name: rule.name,
+                ...(!rule.isCustom && rule.githubPath && { source: rule.sourceId || DEFAULT_RULE_SOURCE.id, path: rule.githubPath }),
+                ...(!rule.isCustom && rule.localPath && rule.sourceId && { source: rule.sourceId }),
+                // Local folder rules are versioned by file time, which means nothing on another machine
+                ...(version && !rule.isCustom && rule.githubPath && { version }),
+                ...(config?.ruleSettings?.[rule.id] && { settings: config.ruleSettings[rule.id] }),
+                ...(rule.isCustom && {
+                    custom: {
+                        description: rule.description,
+                        content: rule.content,
+                        technologies: rule.technologies,
+                        tags: rule.tags.filter(tag => tag !== 'custom'),
+                        category: rule.category
+                    }
+                })
+            };
+        };
+
+        const rules: TeamManifestRule[] = [];
+        const included = new Set<string>();
+        for (const entry of existing?.rules || []) {
+            const rule = rulesById.get(entry.id);
+            if (!rule) {
+                rules.push(entry);
+                included.add(entry.id);
+            } else if (activeRuleIds.includes(entry.id)) {
+                rules.push(toEntry(rule, entry));
+                included.add(entry.id);
+            }
+        }
+        for (const ruleId of activeRuleIds) {
+            const rule = rulesById.get(ruleId);
+            if (rule && !included.has(ruleId)) {
+                rules.push(toEntry(rule));
+            }
+        }
+
+        return { version: TEAM_MANIFEST_VERSION, rules };
+    }
+
+    // Write the folder's current setup to its manifest, creating the file when needed
+    async writeTeamManifest(workspaceId: string): Promise<void> {
+        const existing = await this.manifestService.readManifest(workspaceId);
+        const manifest = await this.buildTeamManifest(workspaceId, existing, false);
+        if (await this.manifestService.writeManifest(workspaceId, manifest)) {
+            await this.notificationManager.showSuccessMessage(`Saved ${manifest.rules.length} team rules to ${TEAM_MANIFEST_FILE}`);
+        }
+    }
+
+    // Keep an existing manifest in step with UI changes when solidrules.teamManifest.writeBack is on
+    private async writeBackTeamManifest(workspaceId: string): Promise<void> {
+        const config = vscode.workspace.getConfiguration('solidrules');
+        if (!config.get<boolean>('teamManifest.writeBack', false)) {
+            return;
+        }
+
+        try {
+            const existing = await this.manifestService.readManifest(workspaceId);
+            if (!existing) {
+                return;
+            }
+            const manifest = await this.buildTeamManifest(workspaceId, existing, true);
+            if (await this.manifestService.writeManifest(workspaceId, manifest)) {
+                console.log(`📝 Updated ${TEAM_MANIFEST_FILE} in ${workspaceId}`);
+            }
+        } catch (error) {
+            console.error(`❌ Failed to update team manifest in ${workspaceId}:`, error);
+        }
+    }
+
+    getWorkspaceFolders(): { workspaceId: string; name: string; isCurrent: boolean }[] {
+        const currentWorkspaceId = this.workspaceManager.getCurrentWorkspaceId();
+        return this.workspaceManager.getWorkspaceIds().map(workspaceId => ({
+            workspaceId,
+            name: this.workspaceManager.getWorkspaceName(workspaceId),
+            isCurrent: workspaceId === currentWorkspaceId
+        }));
+    }
+
+    isMultiRootWorkspace(): boolean {
+        return this.workspaceManager.isMultiRootWorkspace();
+    }
+
+    // Selects the folder that explorer toggles and workspace-scoped views apply to
+    selectWorkspaceFolder(workspaceId: string): void {
+        this.workspaceManager.setCurrentWorkspaceId(workspaceId);
+        this._onDidChangeRules.fire();
+    }
+
+    async getActiveRules(workspaceId: string | null = this.workspaceManager.getCurrentWorkspaceId()): Promise<CursorRule[]> {
+        if (!workspaceId) {
+            return [];
+        }
+
+        const activeRules = await this.databaseManager.getActiveRules(workspaceId);
+        activeRules.forEach(rule => {
+            rule.isActive = true;
+        });
+        return activeRules;
     }
 
     async getFavoriteRules(): Promise<CursorRule[]> {
-        return await this.databaseManager.getFavoriteRules();
+        return await this.withWorkspaceState(await this.databaseManager.getFavoriteRules());
     }
 
     async previewRule(ruleId: string): Promise<void> {
@@ -1046,31 +2309,253 @@ export class RulesManager {
         }
     }
 
-    async exportRules(ruleIds?: string[]): Promise<void> {
-        try {
-            const rules = ruleIds 
-                ? await Promise.all(ruleIds.map(id => this.databaseManager.getRuleById(id)).filter(Boolean))
-                : await this.databaseManager.getAllRules();
-
-            const exportData = {
-                exportedAt: new Date().toISOString(),
-                exportedBy: 'SolidRules Extension',
-                rules: rules.map(rule => ({
-                    ...rule,
-                    createdAt: rule?.createdAt.toISOString(),
-                    lastUpdated: rule?.lastUpdated?.toISOString()
-                }))
-            };
+    async getPresets(): Promise<RulePreset[]> {
+        const presets = await this.databaseManager.getPresets();
+        return presets.sort((a, b) => a.name.localeCompare(b.name));
+    }
 
-            const document = await vscode.workspace.openTextDocument({
-                content: JSON.stringify(exportData, null, 2),
-                language: 'json'
+    async getPresetById(presetId: string): Promise<RulePreset | null> {
+        return await this.databaseManager.getPresetById(presetId);
+    }
+
+    // Presets are identified by name for users, so saving under an existing name updates that preset
+    async savePreset(name: string, ruleIds: ReadonlyArray<string>, description?: string, presetId?: string): Promise<RulePreset> {
+        const trimmedName = name.trim();
+        if (!trimmedName) {
+            throw new Error('Preset name is required');
+        }
+
+        const presets = await this.databaseManager.getPresets();
+        const existing = presetId
+            ? presets.find(preset => preset.id === presetId)
+            : presets.find(preset => preset.name.toLowerCase() === trimmedName.toLowerCase());
+        if (presetId && !existing) {
+            throw new Error(`Preset ${presetId} not found`);
+        }
+        const nameClash = presets.find(preset => preset.id !== existing?.id && preset.name.toLowerCase() === trimmedName.toLowerCase());
+        if (nameClash) {
+            throw new Error(`A preset named "${nameClash.name}" already exists`);
+        }
+
+        const presetDescription = (description ?? existing?.description)?.trim();
+        const preset: RulePreset = {
+            id: existing?.id || `preset-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            name: trimmedName,
+            ...(presetDescription && { description: presetDescription }),
+            ruleIds: Array.from(new Set(ruleIds)),
+            createdAt: existing?.createdAt || new Date(),
+            ...(existing && { updatedAt: new Date() })
+        };
+
+        await this.databaseManager.savePreset(preset);
+        this.scheduleUIRefresh();
+        console.log(`🧩 ${existing ? 'Updated' : 'Created'} preset ${preset.name} with ${preset.ruleIds.length} rules`);
+        return preset;
+    }
+
+    async deletePreset(presetId: string): Promise<void> {
+        await this.databaseManager.deletePreset(presetId);
+        this.scheduleUIRefresh();
+    }
+
+    async getPresetDiff(presetId: string, workspaceId?: string): Promise<PresetDiff> {
+        const preset = await this.databaseManager.getPresetById(presetId);
+        if (!preset) {
+            throw new Error(`Preset ${presetId} not found`);
+        }
+
+        const resolvedWorkspaceId = this.resolveWorkspaceId(workspaceId);
+        const rulesById = new Map((await this.databaseManager.getAllRules()).map(rule => [rule.id, rule]));
+        const activeRuleIds = new Set(await this.databaseManager.getActiveRuleIds(resolvedWorkspaceId));
+        const presetRuleIds = new Set(preset.ruleIds);
+
+        const presetRules = preset.ruleIds
+            .map(ruleId => rulesById.get(ruleId))
+            .filter((rule): rule is CursorRule => Boolean(rule));
+
+        return {
+            toActivate: presetRules.filter(rule => !activeRuleIds.has(rule.id)),
+            alreadyActive: presetRules.filter(rule => activeRuleIds.has(rule.id)).map(rule => ({ ...rule, isActive: true })),
+            notInPreset: Array.from(activeRuleIds)
+                .filter(ruleId => !presetRuleIds.has(ruleId))
+                .map(ruleId => rulesById.get(ruleId))
+                .filter((rule): rule is CursorRule => Boolean(rule))
+                .map(rule => ({ ...rule, isActive: true })),
+            missingRuleIds: preset.ruleIds.filter(ruleId => !rulesById.has(ruleId))
+        };
+    }
+
+    // Unlike batchToggleRules, a preset sets an explicit state: its rules end up active whatever they were before
+    async applyPreset(presetId: string, mode: PresetApplyMode, workspaceId?: string): Promise<PresetDiff> {
+        const resolvedWorkspaceId = this.resolveWorkspaceId(workspaceId);
+        const diff = await this.getPresetDiff(presetId, resolvedWorkspaceId);
+        const presetRuleIds = [...diff.alreadyActive, ...diff.toActivate].map(rule => rule.id);
+
+        if (mode === 'replace') {
+            await this.setActiveRules(presetRuleIds, resolvedWorkspaceId);
+        } else {
+            await this.activateRules(presetRuleIds, resolvedWorkspaceId);
+        }
+        return diff;
+    }
+
+    // Collection of all, active (in any open folder) or favorite rules with the open folders' activation sets
+    async exportCollection(scope: 'all' | 'active' | 'favorites', name?: string): Promise<RuleCollection> {
+        const allRules = await this.databaseManager.getAllRules();
+        const workspaceIds = this.workspaceManager.getWorkspaceIds();
+
+        const activeByWorkspace = new Map<string, string[]>();
+        for (const workspaceId of workspaceIds) {
+            activeByWorkspace.set(workspaceId, await this.databaseManager.getActiveRuleIds(workspaceId));
+        }
+        const activeRuleIds = new Set(Array.from(activeByWorkspace.values()).flat());
+
+        const rules = allRules.filter(rule =>
+            scope === 'all' || (scope === 'active' ? activeRuleIds.has(rule.id) : rule.isFavorite)
+        );
+        const includedIds = new Set(rules.map(rule => rule.id));
+
+        const workspaces: RuleCollectionWorkspace[] = [];
+        for (const workspaceId of workspaceIds) {
+            const config = await this.databaseManager.getWorkspaceConfig(workspaceId);
+            const ruleSettings = Object.fromEntries(
+                Object.entries(config?.ruleSettings || {}).filter(([ruleId]) => includedIds.has(ruleId))
+            );
+            workspaces.push({
+                name: this.workspaceManager.getWorkspaceName(workspaceId),
+                activeRules: (activeByWorkspace.get(workspaceId) || []).filter(ruleId => includedIds.has(ruleId)),
+                ...(Object.keys(ruleSettings).length > 0 && { ruleSettings })
             });
-            
-            await vscode.window.showTextDocument(document);
+        }
+
+        // Presets are only complete when every rule is exported
+        const presets = scope === 'all' ? await this.getPresets() : [];
+
+        console.log(`📦 Exported collection with ${rules.length} rules and ${workspaces.length} workspace folders`);
+        return this.collectionService.createCollection(rules, workspaces, name, presets);
+    }
+
+    // Collection holding only the given presets and their rules, for sharing a preset with someone else
+    async exportPresets(presetIds: ReadonlyArray<string>, name?: string): Promise<RuleCollection> {
+        const allPresets = await this.getPresets();
+        const presets = allPresets.filter(preset => presetIds.includes(preset.id));
+        const ruleIds = new Set(presets.flatMap(preset => preset.ruleIds));
+        const rules = (await this.databaseManager.getAllRules()).filter(rule => ruleIds.has(rule.id));
+
+        console.log(`📦 Exported ${presets.length} presets with ${rules.length} rules`);
+        return this.collectionService.createCollection(rules, [], name || presets[0]?.name, presets);
+    }
+
+    serializeCollection(collection: RuleCollection): string {
+        return this.collectionService.stringify(collection);
+    }
+
+    async readCollection(filePath: string): Promise<RuleCollection> {
+        const bytes = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
+        return this.collectionService.parseCollection(Buffer.from(bytes).toString('utf-8'));
+    }
+
+    // Merge a collection into this machine: library rules are restored when missing, custom rules go
+    // through conflict resolution, favorites are added and activation sets applied to the mapped folders
+    async importCollection(
+        collection: RuleCollection,
+        sourcePath: string,
+        options: { mode: CollectionImportMode; workspaceMapping: ReadonlyMap<string, string> },
+        resolveConflict: (candidate: RuleImportCandidate, existing: CursorRule) => Promise<ImportConflictResolution | undefined>
+    ): Promise<CollectionImportResult> {
+        try {
+            const idMap = new Map<string, string>();
+            let restoredRules = 0;
+
+            const candidates: RuleImportCandidate[] = [];
+            for (const collectionRule of collection.rules) {
+                if (!this.collectionService.isLibraryRule(collectionRule)) {
+                    candidates.push(this.collectionService.toImportCandidate(collectionRule, sourcePath));
+                    continue;
+                }
+                // Library rules are shared by id; a local copy wins since it refreshes from its source
+                if (!await this.databaseManager.getRuleById(collectionRule.id)) {
+                    await this.databaseManager.saveRule(this.collectionService.toLibraryRule(collectionRule));
+                    restoredRules++;
+                }
+                idMap.set(collectionRule.id, collectionRule.id);
+            }
+
+            const { imported, skipped, idMap: customIdMap } = await this.importCandidates(candidates, resolveConflict);
+            customIdMap.forEach((ruleId, originalId) => idMap.set(originalId, ruleId));
+
+            let favorites = 0;
+            for (const originalId of collection.favorites) {
+                const ruleId = idMap.get(originalId);
+                const rule = ruleId ? await this.databaseManager.getRuleById(ruleId) : null;
+                if (rule && !rule.isFavorite) {
+                    await this.databaseManager.updateRuleFavorite(rule.id, true);
+                    favorites++;
+                }
+            }
+
+            let workspaces = 0;
+            for (const collectionWorkspace of collection.workspaces) {
+                const workspaceId = options.workspaceMapping.get(collectionWorkspace.name);
+                if (!workspaceId) {
+                    continue;
+                }
+
+                const activeRuleIds = collectionWorkspace.activeRules
+                    .map(originalId => idMap.get(originalId))
+                    .filter((ruleId): ruleId is string => Boolean(ruleId));
+                const ruleSettings: Record<string, MdcRuleSettings> = {};
+                for (const [originalId, settings] of Object.entries(collectionWorkspace.ruleSettings || {})) {
+                    const ruleId = idMap.get(originalId);
+                    if (ruleId) {
+                        ruleSettings[ruleId] = settings;
+                    }
+                }
+
+                const previousActive = new Set(await this.databaseManager.getActiveRuleIds(workspaceId));
+                await this.databaseManager.updateWorkspaceRuleState(workspaceId, (active, currentSettings) => {
+                    if (options.mode === 'replace') {
+                        active.clear();
+                        Object.keys(currentSettings).forEach(ruleId => delete currentSettings[ruleId]);
+                    }
+                    activeRuleIds.forEach(ruleId => active.add(ruleId));
+                    Object.assign(currentSettings, ruleSettings);
+                });
+
+                // Rewrite files for every rule whose activation or type may have changed
+                const changedRuleIds = new Set([...previousActive, ...activeRuleIds, ...Object.keys(ruleSettings)]);
+                changedRuleIds.forEach(ruleId => this.addPendingFileOperation(workspaceId, ruleId));
+                workspaces++;
+            }
+
+            if (workspaces > 0) {
+                this.scheduleWorkspaceSync();
+            }
+
+            // A preset with the same name is updated, so re-importing a shared preset picks up its changes
+            let presets = 0;
+            for (const collectionPreset of collection.presets || []) {
+                const ruleIds = collectionPreset.ruleIds
+                    .map(originalId => idMap.get(originalId))
+                    .filter((ruleId): ruleId is string => Boolean(ruleId));
+                await this.savePreset(collectionPreset.name, ruleIds, collectionPreset.description);
+                presets++;
+            }
+            this.scheduleUIRefresh();
+
+            const result: CollectionImportResult = {
+                importedRules: imported.length + restoredRules,
+                skippedRules: skipped,
+                favorites,
+                workspaces,
+                presets
+            };
+            console.log(`📦 Imported collection ${collection.name || sourcePath}:`, result);
+            return result;
         } catch (error) {
-            console.error('Failed to export rules:', error);
-            await this.notificationManager.showErrorMessage(`Failed to export rules: ${error}`);
+            console.error('Failed to import rule collection:', error);
+            await this.notificationManager.showErrorMessage(`Failed to import rule collection: ${error}`);
+            throw error;
         }
     }
 
@@ -1108,6 +2593,12 @@ export class RulesManager {
             clearTimeout(this.uiRefreshTimeout);
         }
         
+        // Stop watching local rule folders and team manifests
+        this.localSourceWatchers.forEach(watcher => watcher.dispose());
+        this.localSourceWatchers = [];
+        this.manifestWatchers.forEach(watcher => watcher.dispose());
+        this.manifestWatchers.clear();
+
         // Clear cache
         this.pendingFileOperations.clear();
         
@@ -1,14 +1,16 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { CursorRule, WorkspaceRuleConfig } from '../types';
+import { CursorRule, WorkspaceRuleConfig, MdcRuleSettings, DEFAULT_RULE_SOURCE } from '../types';
+import { parseMdc, extractRuleFrontmatter, serializeMdc } from '../utils/mdc';
 
 export class WorkspaceManager {
     private readonly CURSOR_RULES_FILE = '.cursorrules'; // Legacy support
     private readonly PROJECT_RULES_DIR = '.cursor/rules';
+    private readonly GENERATED_HEADER = '<!-- Generated by SolidRules';
     
     // Performance optimization: cache for avoiding unnecessary file operations
-    private lastSyncedRules = new Map<string, string>(); // ruleId -> content hash
+    private lastSyncedRules = new Map<string, string>(); // workspaceId::ruleId -> content hash
     private readonly SYNC_CACHE_SIZE = 100; // Limit cache size
 
     // Performance: Cache content hashes to avoid unnecessary writes
@@ -22,24 +24,59 @@ export class WorkspaceManager {
         return hash.toString(36);
     }
 
+    // Multi-root: the folder that rule toggles from the explorer apply to
+    private selectedWorkspaceId: string | null = null;
+
+    private getSyncCacheKey(workspaceId: string, ruleId: string): string {
+        return `${workspaceId}::${ruleId}`;
+    }
+
+    getWorkspaceFolders(): readonly vscode.WorkspaceFolder[] {
+        return vscode.workspace.workspaceFolders || [];
+    }
+
+    getWorkspaceIds(): string[] {
+        return this.getWorkspaceFolders().map(folder => folder.uri.fsPath);
+    }
+
+    isMultiRootWorkspace(): boolean {
+        return this.getWorkspaceFolders().length > 1;
+    }
+
     getCurrentWorkspaceId(): string | null {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const folders = this.getWorkspaceFolders();
+        if (this.selectedWorkspaceId && folders.some(folder => folder.uri.fsPath === this.selectedWorkspaceId)) {
+            return this.selectedWorkspaceId;
+        }
+
+        const workspaceFolder = folders[0];
         if (!workspaceFolder) {
             return null;
         }
         return workspaceFolder.uri.fsPath;
     }
 
+    setCurrentWorkspaceId(workspaceId: string): void {
+        if (!this.getWorkspaceIds().includes(workspaceId)) {
+            throw new Error(`Workspace folder not open: ${workspaceId}`);
+        }
+        this.selectedWorkspaceId = workspaceId;
+    }
+
     getCurrentWorkspaceName(): string {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
+        const workspaceId = this.getCurrentWorkspaceId();
+        if (!workspaceId) {
             return 'No Workspace';
         }
-        return workspaceFolder.name;
+        return this.getWorkspaceName(workspaceId);
     }
 
-    async createCursorRulesDirectory(rulesDirectory: string = 'cursorRules'): Promise<string | null> {
-        const workspaceId = this.getCurrentWorkspaceId();
+    getWorkspaceName(workspaceId: string): string {
+        const workspaceFolder = this.getWorkspaceFolders().find(folder => folder.uri.fsPath === workspaceId);
+        return workspaceFolder?.name || path.basename(workspaceId);
+    }
+
+    async createCursorRulesDirectory(rulesDirectory: string = 'cursorRules', workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<string | null> {
         if (!workspaceId) {
             throw new Error('No workspace is currently open');
         }
@@ -55,8 +92,7 @@ export class WorkspaceManager {
         }
     }
 
-    async createProjectRulesDirectory(): Promise<string | null> {
-        const workspaceId = this.getCurrentWorkspaceId();
+    async createProjectRulesDirectory(workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<string | null> {
         if (!workspaceId) {
             throw new Error('No workspace is currently open');
         }
@@ -72,13 +108,12 @@ export class WorkspaceManager {
         }
     }
 
-    async writeRuleToWorkspace(rule: CursorRule, rulesDirectory: string = 'cursorRules'): Promise<void> {
-        const workspaceId = this.getCurrentWorkspaceId();
+    async writeRuleToWorkspace(rule: CursorRule, rulesDirectory: string = 'cursorRules', workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<void> {
         if (!workspaceId) {
             throw new Error('No workspace is currently open');
         }
 
-        const rulesPath = await this.createCursorRulesDirectory(rulesDirectory);
+        const rulesPath = await this.createCursorRulesDirectory(rulesDirectory, workspaceId);
         if (!rulesPath) {
             throw new Error('Failed to create rules directory');
         }
@@ -96,13 +131,12 @@ export class WorkspaceManager {
         }
     }
 
-    async writeProjectRule(rule: CursorRule): Promise<void> {
-        const workspaceId = this.getCurrentWorkspaceId();
+    async writeProjectRule(rule: CursorRule, workspaceId: string | null = this.getCurrentWorkspaceId(), workspaceSettings?: MdcRuleSettings): Promise<void> {
         if (!workspaceId) {
             throw new Error('No workspace is currently open');
         }
 
-        const rulesPath = await this.createProjectRulesDirectory();
+        const rulesPath = await this.createProjectRulesDirectory(workspaceId);
         if (!rulesPath) {
             throw new Error('Failed to create project rules directory');
         }
@@ -110,7 +144,12 @@ export class WorkspaceManager {
         const ruleFileName = `${this.sanitizeFileName(rule.name)}.mdc`;
         const ruleFilePath = path.join(rulesPath, ruleFileName);
 
-        const content = this.formatProjectRuleContent(rule);
+        if (await this.isHandWrittenProjectRule(ruleFilePath)) {
+            console.warn(`⚠️ Skipping ${ruleFileName}: hand-written project rule, not overwriting`);
+            return;
+        }
+
+        const content = this.formatProjectRuleContent(rule, workspaceSettings);
         
         try {
             await fs.writeFile(ruleFilePath, content, 'utf-8');
@@ -120,8 +159,7 @@ export class WorkspaceManager {
         }
     }
 
-    async removeRuleFromWorkspace(rule: CursorRule, rulesDirectory: string = 'cursorRules'): Promise<void> {
-        const workspaceId = this.getCurrentWorkspaceId();
+    async removeRuleFromWorkspace(rule: CursorRule, rulesDirectory: string = 'cursorRules', workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<void> {
         if (!workspaceId) {
             throw new Error('No workspace is currently open');
         }
@@ -138,8 +176,7 @@ export class WorkspaceManager {
         }
     }
 
-    async removeProjectRule(rule: CursorRule): Promise<void> {
-        const workspaceId = this.getCurrentWorkspaceId();
+    async removeProjectRule(rule: CursorRule, workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<void> {
         if (!workspaceId) {
             throw new Error('No workspace is currently open');
         }
@@ -148,6 +185,11 @@ export class WorkspaceManager {
         const ruleFileName = `${this.sanitizeFileName(rule.name)}.mdc`;
         const ruleFilePath = path.join(rulesPath, ruleFileName);
 
+        if (await this.isHandWrittenProjectRule(ruleFilePath)) {
+            console.log(`Project rule file ${ruleFileName} is hand-written, skipping removal`);
+            return;
+        }
+
         try {
             await fs.unlink(ruleFilePath);
         } catch (error) {
@@ -156,8 +198,7 @@ export class WorkspaceManager {
         }
     }
 
-    async generateMasterCursorRulesFile(activeRules: CursorRule[]): Promise<void> {
-        const workspaceId = this.getCurrentWorkspaceId();
+    async generateMasterCursorRulesFile(activeRules: CursorRule[], workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<void> {
         if (!workspaceId) {
             throw new Error('No workspace is currently open');
         }
@@ -198,10 +239,10 @@ export class WorkspaceManager {
 # Rule: ${rule.name}
 # Category: ${rule.category}
 # Technologies: ${rule.technologies.join(', ')}
-# Source: ${rule.isCustom ? 'Custom Rule' : 'GitHub - awesome-cursorrules'}
+# Source: ${rule.isCustom ? 'Custom Rule' : `GitHub - ${rule.sourceId || DEFAULT_RULE_SOURCE.id}`}
 # ============================================
 
-${rule.content}
+${extractRuleFrontmatter(rule.content).body}
 
 `;
         }).join('\n');
@@ -217,55 +258,73 @@ ${rule.content}
 # Tags: ${rule.tags.join(', ')}
 # Created: ${rule.createdAt.toISOString()}
 # Last Updated: ${rule.lastUpdated?.toISOString() || 'Never'}
-# Source: ${rule.isCustom ? 'Custom Rule' : 'GitHub - awesome-cursorrules'}
+# Source: ${rule.isCustom ? 'Custom Rule' : `GitHub - ${rule.sourceId || DEFAULT_RULE_SOURCE.id}`}
 
 `;
 
-        return metadata + rule.content;
+        return metadata + extractRuleFrontmatter(rule.content).body;
     }
 
-    private formatProjectRuleContent(rule: CursorRule): string {
-        // Determine rule type based on rule properties
-        const ruleType = this.determineRuleType(rule);
-        
-        // YAML frontmatter for MDC format - following Cursor documentation exactly
-        let frontmatter = `---
-description: ${this.escapeYamlString(rule.description || rule.name)}`;
-
-        // Add globs only if present (for Auto Attached rules)
-        if (ruleType.globs) {
-            frontmatter += `
-globs: ${ruleType.globs}`;
-        }
-
-        // Add alwaysApply (for Always rules)
-        frontmatter += `
-alwaysApply: ${ruleType.alwaysApply}
----
+    formatProjectRuleContent(rule: CursorRule, workspaceSettings?: MdcRuleSettings): string {
+        // Rules stored before upstream frontmatter was split off still carry it in their content;
+        // merge it into the rule so the file gets exactly one frontmatter block
+        const upstream = extractRuleFrontmatter(rule.content);
+        const mergedRule: CursorRule = {
+            ...rule,
+            content: upstream.body,
+            description: upstream.description || rule.description,
+            ...(rule.globs === undefined && upstream.globs && { globs: upstream.globs }),
+            ...(rule.alwaysApply === undefined && upstream.alwaysApply !== undefined && { alwaysApply: upstream.alwaysApply })
+        };
 
-`;
+        // Determine rule type: workspace override, then the rule's own settings, then defaults
+        const settings = this.resolveRuleSettings(mergedRule, workspaceSettings);
+        const description = settings.description || mergedRule.description || mergedRule.name;
 
         // Add metadata as comments (more compact format)
-        const metadata = `<!-- Generated by SolidRules Extension
+        const metadata = `${this.GENERATED_HEADER} Extension
 Rule: ${rule.name} | Category: ${rule.category}
 Technologies: ${rule.technologies.join(', ')} | Tags: ${rule.tags.join(', ')}
-Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
+Source: ${rule.isCustom ? 'Custom' : rule.sourceId || DEFAULT_RULE_SOURCE.id}
 -->
 
 `;
 
-        return frontmatter + metadata + rule.content;
+        // YAML frontmatter for MDC format - following Cursor documentation exactly:
+        // manual rules have no description so the agent never requests them on its own,
+        // globs only for Auto Attached rules, alwaysApply only true for Always rules
+        return serializeMdc({
+            description: settings.ruleType === 'manual' ? '' : description,
+            globs: settings.ruleType === 'autoAttached' ? settings.globs || undefined : undefined,
+            alwaysApply: settings.ruleType === 'always'
+        }, metadata + upstream.body);
     }
 
-    private escapeYamlString(str: string): string {
-        // Escape YAML special characters
-        if (str.includes(':') || str.includes('"') || str.includes("'") || str.includes('\n')) {
-            return `"${str.replace(/"/g, '\\"')}"`;
+    // Effective rule type: workspace override > user setting on the rule > source frontmatter > category defaults
+    resolveRuleSettings(rule: CursorRule, workspaceSettings?: MdcRuleSettings): MdcRuleSettings {
+        if (workspaceSettings) {
+            return workspaceSettings;
+        }
+
+        if (rule.mdcSettings) {
+            return rule.mdcSettings;
+        }
+
+        // Frontmatter from the rule's own source file wins over the category heuristics
+        if (rule.alwaysApply) {
+            return { ruleType: 'always' };
+        }
+        if (rule.globs) {
+            return { ruleType: 'autoAttached', globs: rule.globs };
+        }
+        if (rule.alwaysApply === false) {
+            return { ruleType: 'agentRequested' };
         }
-        return str;
+
+        return this.determineRuleType(rule);
     }
 
-    private determineRuleType(rule: CursorRule): { globs?: string; alwaysApply: boolean } {
+    private determineRuleType(rule: CursorRule): MdcRuleSettings {
         // Determine rule type based on Cursor documentation:
         // - Always: alwaysApply: true (always included)
         // - Auto Attached: globs pattern + alwaysApply: false
@@ -275,39 +334,39 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
         // For technology-specific rules, use Auto Attached with appropriate globs
         if (rule.category === 'Frontend') {
             if (rule.technologies.some(tech => ['react', 'vue', 'angular', 'svelte'].includes(tech))) {
-                return { globs: '*.{tsx,jsx,ts,js,vue,svelte}', alwaysApply: false };
+                return { ruleType: 'autoAttached', globs: '*.{tsx,jsx,ts,js,vue,svelte}' };
             }
-            return { globs: '*.{html,css,js,ts}', alwaysApply: false };
+            return { ruleType: 'autoAttached', globs: '*.{html,css,js,ts}' };
         }
 
         if (rule.category === 'Backend') {
             if (rule.technologies.includes('python')) {
-                return { globs: '*.py', alwaysApply: false };
+                return { ruleType: 'autoAttached', globs: '*.py' };
             } else if (rule.technologies.includes('node') || rule.technologies.includes('typescript')) {
-                return { globs: '*.{ts,js}', alwaysApply: false };
+                return { ruleType: 'autoAttached', globs: '*.{ts,js}' };
             } else if (rule.technologies.includes('go')) {
-                return { globs: '*.go', alwaysApply: false };
+                return { ruleType: 'autoAttached', globs: '*.go' };
             } else if (rule.technologies.includes('java')) {
-                return { globs: '*.java', alwaysApply: false };
+                return { ruleType: 'autoAttached', globs: '*.java' };
             }
-            return { globs: '*.{py,js,ts,go,java}', alwaysApply: false };
+            return { ruleType: 'autoAttached', globs: '*.{py,js,ts,go,java}' };
         }
 
         if (rule.category === 'Styling') {
-            return { globs: '*.{css,scss,sass,less,stylus}', alwaysApply: false };
+            return { ruleType: 'autoAttached', globs: '*.{css,scss,sass,less,stylus}' };
         }
 
         if (rule.category === 'Database') {
-            return { globs: '*.{sql,prisma,schema}', alwaysApply: false };
+            return { ruleType: 'autoAttached', globs: '*.{sql,prisma,schema}' };
         }
 
         if (rule.category === 'DevOps') {
-            return { globs: '*.{yml,yaml,dockerfile,tf,json}', alwaysApply: false };
+            return { ruleType: 'autoAttached', globs: '*.{yml,yaml,dockerfile,tf,json}' };
         }
 
         // For general rules (Other category), use Agent Requested (no globs)
         // These will be available to AI but not auto-attached
-        return { alwaysApply: false };
+        return { ruleType: 'agentRequested' };
     }
 
     private sanitizeFileName(name: string): string {
@@ -318,16 +377,58 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
             .substring(0, 50);
     }
 
-    async getRulesDirectoryPath(rulesDirectory: string = 'cursorRules'): Promise<string | null> {
-        const workspaceId = this.getCurrentWorkspaceId();
+    getProjectRuleFileName(ruleName: string): string {
+        return `${this.sanitizeFileName(ruleName)}.mdc`;
+    }
+
+    getProjectRuleFilePath(fileName: string, workspaceId: string | null = this.getCurrentWorkspaceId()): string | null {
+        if (!workspaceId) {
+            return null;
+        }
+        return path.join(workspaceId, this.PROJECT_RULES_DIR, fileName);
+    }
+
+    async readProjectRuleFile(fileName: string, workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<string> {
+        const filePath = this.getProjectRuleFilePath(fileName, workspaceId);
+        if (!filePath) {
+            throw new Error('No workspace is currently open');
+        }
+        return await fs.readFile(filePath, 'utf-8');
+    }
+
+    isGeneratedBySolidRules(content: string): boolean {
+        return content.includes(this.GENERATED_HEADER);
+    }
+
+    // Project rules without the SolidRules header were written by hand and are never overwritten or deleted
+    private async isHandWrittenProjectRule(filePath: string): Promise<boolean> {
+        try {
+            const content = await fs.readFile(filePath, 'utf-8');
+            return !this.isGeneratedBySolidRules(content);
+        } catch {
+            return false; // Missing file
+        }
+    }
+
+    // Rule body of a project rule file without its frontmatter and SolidRules metadata comment
+    extractProjectRuleBody(content: string): string {
+        const { body } = parseMdc(content);
+        if (!body.startsWith(this.GENERATED_HEADER)) {
+            return body;
+        }
+        const commentEnd = body.indexOf('-->');
+        return commentEnd === -1 ? body : body.slice(commentEnd + 3).replace(/^(?:[ \t]*\r?\n)+/, '');
+    }
+
+    async getRulesDirectoryPath(rulesDirectory: string = 'cursorRules', workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<string | null> {
         if (!workspaceId) {
             return null;
         }
         return path.join(workspaceId, rulesDirectory);
     }
 
-    async listWorkspaceRuleFiles(rulesDirectory: string = 'cursorRules'): Promise<string[]> {
-        const rulesPath = await this.getRulesDirectoryPath(rulesDirectory);
+    async listWorkspaceRuleFiles(rulesDirectory: string = 'cursorRules', workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<string[]> {
+        const rulesPath = await this.getRulesDirectoryPath(rulesDirectory, workspaceId);
         if (!rulesPath) {
             return [];
         }
@@ -340,8 +441,8 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
         }
     }
 
-    async readWorkspaceRuleFile(fileName: string, rulesDirectory: string = 'cursorRules'): Promise<string> {
-        const rulesPath = await this.getRulesDirectoryPath(rulesDirectory);
+    async readWorkspaceRuleFile(fileName: string, rulesDirectory: string = 'cursorRules', workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<string> {
+        const rulesPath = await this.getRulesDirectoryPath(rulesDirectory, workspaceId);
         if (!rulesPath) {
             throw new Error('No workspace is currently open');
         }
@@ -356,8 +457,7 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
         }
     }
 
-    async doesMasterRulesFileExist(): Promise<boolean> {
-        const workspaceId = this.getCurrentWorkspaceId();
+    async doesMasterRulesFileExist(workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<boolean> {
         if (!workspaceId) {
             return false;
         }
@@ -372,8 +472,7 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
         }
     }
 
-    async backupExistingCursorRules(): Promise<string | null> {
-        const workspaceId = this.getCurrentWorkspaceId();
+    async backupExistingCursorRules(workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<string | null> {
         if (!workspaceId) {
             return null;
         }
@@ -389,18 +488,17 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
         }
     }
 
-    async getWorkspaceRulesStats(rulesDirectory: string = 'cursorRules'): Promise<{
+    async getWorkspaceRulesStats(rulesDirectory: string = 'cursorRules', workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<{
         totalRuleFiles: number;
         masterFileExists: boolean;
         lastModified?: Date | undefined;
     }> {
-        const ruleFiles = await this.listWorkspaceRuleFiles(rulesDirectory);
-        const masterExists = await this.doesMasterRulesFileExist();
+        const ruleFiles = await this.listWorkspaceRuleFiles(rulesDirectory, workspaceId);
+        const masterExists = await this.doesMasterRulesFileExist(workspaceId);
         
         let lastModified: Date | undefined;
         
         if (masterExists) {
-            const workspaceId = this.getCurrentWorkspaceId();
             if (workspaceId) {
                 const masterFilePath = path.join(workspaceId, this.CURSOR_RULES_FILE);
                 try {
@@ -422,20 +520,20 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
     async syncActiveRules(activeRules: CursorRule[], config: WorkspaceRuleConfig): Promise<void> {
         try {
             // Create project rules directory (.cursor/rules)
-            await this.createProjectRulesDirectory();
+            await this.createProjectRulesDirectory(config.workspaceId);
 
             // Write individual rule files in new MDC format
             for (const rule of activeRules) {
-                await this.writeProjectRule(rule);
+                await this.writeProjectRule(rule, config.workspaceId, config.ruleSettings?.[rule.id]);
             }
 
             // Legacy support: still create old format if requested
             if (config.maintainLegacyFormat) {
-                await this.createCursorRulesDirectory(config.rulesDirectory);
+                await this.createCursorRulesDirectory(config.rulesDirectory, config.workspaceId);
                 for (const rule of activeRules) {
-                    await this.writeRuleToWorkspace(rule, config.rulesDirectory);
+                    await this.writeRuleToWorkspace(rule, config.rulesDirectory, config.workspaceId);
                 }
-                await this.generateMasterCursorRulesFile(activeRules);
+                await this.generateMasterCursorRulesFile(activeRules, config.workspaceId);
             }
 
         } catch (error) {
@@ -444,18 +542,17 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
         }
     }
 
-    async cleanupInactiveRules(allRules: CursorRule[], activeRules: CursorRule[], rulesDirectory: string = 'cursorRules'): Promise<void> {
+    async cleanupInactiveRules(allRules: CursorRule[], activeRules: CursorRule[], rulesDirectory: string = 'cursorRules', workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<void> {
         const activeRuleIds = new Set(activeRules.map(r => r.id));
         const inactiveRules = allRules.filter(r => !activeRuleIds.has(r.id));
 
         for (const rule of inactiveRules) {
-            await this.removeRuleFromWorkspace(rule, rulesDirectory);
-            await this.removeProjectRule(rule); // Also remove from project rules
+            await this.removeRuleFromWorkspace(rule, rulesDirectory, workspaceId);
+            await this.removeProjectRule(rule, workspaceId); // Also remove from project rules
         }
     }
 
-    async listProjectRuleFiles(): Promise<string[]> {
-        const workspaceId = this.getCurrentWorkspaceId();
+    async listProjectRuleFiles(workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<string[]> {
         if (!workspaceId) {
             return [];
         }
@@ -470,12 +567,11 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
         }
     }
 
-    async getProjectRulesStats(): Promise<{
+    async getProjectRulesStats(workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<{
         totalProjectRules: number;
         projectRulesDirectoryExists: boolean;
         lastModified?: Date | undefined;
     }> {
-        const workspaceId = this.getCurrentWorkspaceId();
         if (!workspaceId) {
             return { totalProjectRules: 0, projectRulesDirectoryExists: false };
         }
@@ -484,7 +580,7 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
         
         try {
             const stats = await fs.stat(rulesPath);
-            const files = await this.listProjectRuleFiles();
+            const files = await this.listProjectRuleFiles(workspaceId);
             
             return {
                 totalProjectRules: files.length,
@@ -500,34 +596,34 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
     async syncActiveRulesOptimized(activeRules: CursorRule[], config: WorkspaceRuleConfig): Promise<void> {
         const startTime = Date.now();
         
+        const workspaceId = config.workspaceId;
+        
         try {
             // 1. Detect changes to avoid unnecessary operations
             const changedRules: CursorRule[] = [];
             const unchangedCount = activeRules.length;
             
             for (const rule of activeRules) {
-                const content = this.formatProjectRuleContent(rule);
+                const content = this.formatProjectRuleContent(rule, config.ruleSettings?.[rule.id]);
                 const currentHash = this.generateContentHash(content);
-                const lastHash = this.lastSyncedRules.get(rule.id);
+                const cacheKey = this.getSyncCacheKey(workspaceId, rule.id);
+                const lastHash = this.lastSyncedRules.get(cacheKey);
                 
                 // Check if file actually exists on disk (critical fix)
-                const workspaceId = this.getCurrentWorkspaceId();
                 let fileExists = false;
-                if (workspaceId) {
-                    const fileName = `${this.sanitizeFileName(rule.name)}.mdc`;
-                    const filePath = path.join(workspaceId, this.PROJECT_RULES_DIR, fileName);
-                    try {
-                        await fs.access(filePath);
-                        fileExists = true;
-                    } catch {
-                        fileExists = false;
-                    }
+                const fileName = `${this.sanitizeFileName(rule.name)}.mdc`;
+                const filePath = path.join(workspaceId, this.PROJECT_RULES_DIR, fileName);
+                try {
+                    await fs.access(filePath);
+                    fileExists = true;
+                } catch {
+                    fileExists = false;
                 }
                 
                 // Rule needs sync if: hash changed OR file doesn't exist
                 if (lastHash !== currentHash || !fileExists) {
                     changedRules.push(rule);
-                    this.lastSyncedRules.set(rule.id, currentHash);
+                    this.lastSyncedRules.set(cacheKey, currentHash);
                 }
             }
 
@@ -546,17 +642,17 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
             }
 
             // 4. Parallel directory creation (only if needed)
-            await this.createProjectRulesDirectory();
+            await this.createProjectRulesDirectory(workspaceId);
 
             // 5. Parallel file operations for changed rules only
-            const writePromises = changedRules.map(rule => this.writeProjectRuleOptimized(rule));
+            const writePromises = changedRules.map(rule => this.writeProjectRuleOptimized(rule, workspaceId, config.ruleSettings?.[rule.id]));
             await Promise.all(writePromises);
 
             // 6. Legacy support (only if needed and requested)
             if (config.maintainLegacyFormat) {
                 await Promise.all([
-                    this.createCursorRulesDirectory(config.rulesDirectory),
-                    this.generateMasterCursorRulesFileOptimized(activeRules)
+                    this.createCursorRulesDirectory(config.rulesDirectory, workspaceId),
+                    this.generateMasterCursorRulesFileOptimized(activeRules, workspaceId)
                 ]);
             }
 
@@ -570,15 +666,17 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
     }
 
     // Optimized write with error handling and atomic operations
-    private async writeProjectRuleOptimized(rule: CursorRule): Promise<void> {
-        const workspaceId = this.getCurrentWorkspaceId();
-        if (!workspaceId) return;
-
+    private async writeProjectRuleOptimized(rule: CursorRule, workspaceId: string, workspaceSettings?: MdcRuleSettings): Promise<void> {
         try {
             const rulesPath = path.join(workspaceId, this.PROJECT_RULES_DIR);
             const fileName = `${this.sanitizeFileName(rule.name)}.mdc`;
             const filePath = path.join(rulesPath, fileName);
-            const content = this.formatProjectRuleContent(rule);
+            const content = this.formatProjectRuleContent(rule, workspaceSettings);
+
+            if (await this.isHandWrittenProjectRule(filePath)) {
+                console.warn(`⚠️ Skipping ${fileName}: hand-written project rule, not overwriting`);
+                return;
+            }
 
             // Atomic write operation
             const tempPath = `${filePath}.tmp`;
@@ -592,17 +690,15 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
     }
 
     // Optimized master file generation with smart content management
-    private async generateMasterCursorRulesFileOptimized(activeRules: CursorRule[]): Promise<void> {
-        const workspaceId = this.getCurrentWorkspaceId();
-        if (!workspaceId) return;
-
+    private async generateMasterCursorRulesFileOptimized(activeRules: CursorRule[], workspaceId: string): Promise<void> {
         try {
             const masterFilePath = path.join(workspaceId, this.CURSOR_RULES_FILE);
             const content = this.generateMasterRulesContent(activeRules);
             
             // Check if content has changed AND file exists
             const contentHash = this.generateContentHash(content);
-            const lastMasterHash = this.lastSyncedRules.get('__MASTER__');
+            const masterCacheKey = this.getSyncCacheKey(workspaceId, '__MASTER__');
+            const lastMasterHash = this.lastSyncedRules.get(masterCacheKey);
             
             // Check if master file actually exists on disk
             let masterFileExists = false;
@@ -624,7 +720,7 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
             await fs.writeFile(tempPath, content, 'utf-8');
             await fs.rename(tempPath, masterFilePath);
             
-            this.lastSyncedRules.set('__MASTER__', contentHash);
+            this.lastSyncedRules.set(masterCacheKey, contentHash);
             console.log('📝 Master .cursorrules file updated');
             
         } catch (error) {
@@ -634,7 +730,7 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
     }
 
     // Parallel bulk cleanup for better performance
-    async bulkCleanupRules(ruleIds: string[], rulesDirectory: string = 'cursorRules'): Promise<void> {
+    async bulkCleanupRules(ruleIds: string[], rulesDirectory: string = 'cursorRules', workspaceId: string | null = this.getCurrentWorkspaceId()): Promise<void> {
         const startTime = Date.now();
         
         try {
@@ -649,8 +745,8 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
             const cleanupPromises = rules.map(async (rule) => {
                 try {
                     await Promise.all([
-                        this.removeProjectRuleOptimized(rule.id),
-                        this.removeRuleFromWorkspaceOptimized(rule.name, rulesDirectory)
+                        this.removeProjectRuleOptimized(rule.id, workspaceId),
+                        this.removeRuleFromWorkspaceOptimized(rule.name, rulesDirectory, workspaceId)
                     ]);
                 } catch (error) {
                     console.error(`Failed to cleanup rule ${rule.id}:`, error);
@@ -670,8 +766,7 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
     }
 
     // Optimized removal methods
-    private async removeProjectRuleOptimized(ruleId: string): Promise<void> {
-        const workspaceId = this.getCurrentWorkspaceId();
+    private async removeProjectRuleOptimized(ruleId: string, workspaceId: string | null): Promise<void> {
         if (!workspaceId) return;
 
         try {
@@ -680,20 +775,19 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
             
             // Find and remove the rule file
             const ruleFile = files.find(file => file.includes(ruleId) && file.endsWith('.mdc'));
-            if (ruleFile) {
+            if (ruleFile && !(await this.isHandWrittenProjectRule(path.join(rulesPath, ruleFile)))) {
                 await fs.unlink(path.join(rulesPath, ruleFile));
             }
             
             // Remove from cache
-            this.lastSyncedRules.delete(ruleId);
+            this.lastSyncedRules.delete(this.getSyncCacheKey(workspaceId, ruleId));
             
         } catch (error) {
             console.error(`Failed to remove optimized project rule ${ruleId}:`, error);
         }
     }
 
-    private async removeRuleFromWorkspaceOptimized(ruleName: string, rulesDirectory: string): Promise<void> {
-        const workspaceId = this.getCurrentWorkspaceId();
+    private async removeRuleFromWorkspaceOptimized(ruleName: string, rulesDirectory: string, workspaceId: string | null): Promise<void> {
         if (!workspaceId) return;
 
         try {
@@ -711,7 +805,16 @@ Source: ${rule.isCustom ? 'Custom' : 'awesome-cursorrules'}
     }
 
     // Method to clear sync cache (useful for debugging or reset)
-    clearSyncCache(): void {
+    clearSyncCache(workspaceId?: string): void {
+        if (workspaceId) {
+            const prefix = this.getSyncCacheKey(workspaceId, '');
+            Array.from(this.lastSyncedRules.keys())
+                .filter(key => key.startsWith(prefix))
+                .forEach(key => this.lastSyncedRules.delete(key));
+            console.log(`🗑️ Cleared sync cache for ${workspaceId}`);
+            return;
+        }
+
         console.log(`🗑️ Clearing sync cache - ${this.lastSyncedRules.size} entries removed`);
         this.lastSyncedRules.clear();
     }
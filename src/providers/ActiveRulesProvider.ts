@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { RulesManager } from '../managers/RulesManager';
-import { CursorRule, BaseRuleTreeItem } from '../types';
+import { CursorRule, BaseRuleTreeItem, getRuleContextValue, MdcRuleSettings, MDC_RULE_TYPE_LABELS } from '../types';
 
 export class ActiveRulesProvider implements vscode.TreeDataProvider<ActiveRuleTreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<ActiveRuleTreeItem | undefined | void> = new vscode.EventEmitter<ActiveRuleTreeItem | undefined | void>();
@@ -23,27 +23,17 @@ export class ActiveRulesProvider implements vscode.TreeDataProvider<ActiveRuleTr
     }
 
     async getChildren(element?: ActiveRuleTreeItem): Promise<ActiveRuleTreeItem[]> {
-        // Check if GitHub token is configured via SecretStorage
-        try {
-            const githubService = this.rulesManager.getGitHubService();
-            const githubToken = await githubService.getSecureToken();
-            
-            if (!githubToken) {
-                console.log('🔍 ActiveRulesProvider: No GitHub token configured, hiding active rules panel');
-                // Hide this panel when token is not configured
-                return [];
-            }
-        } catch (error) {
-            console.error('❌ ActiveRulesProvider: Failed to check GitHub token:', error);
-            return [];
+        if (!element && this.rulesManager.isMultiRootWorkspace()) {
+            return this.getWorkspaceFolderItems();
         }
-        
-        if (element) {
+
+        if (element && element.contextValue !== 'workspace-folder') {
             return [];
         }
 
         try {
-            const activeRules = await this.rulesManager.getActiveRules();
+            const workspaceId = element?.workspaceId;
+            const activeRules = await this.rulesManager.getActiveRules(workspaceId);
             
             if (activeRules.length === 0) {
                 return [new ActiveRuleTreeItem(
@@ -54,15 +44,18 @@ export class ActiveRulesProvider implements vscode.TreeDataProvider<ActiveRuleTr
                 )];
             }
 
+            const ruleSettings = await this.rulesManager.getEffectiveRuleSettings(activeRules, workspaceId);
+
             return activeRules.map(rule => {
                 const treeItem = new ActiveRuleTreeItem(
                     rule.name,
                     vscode.TreeItemCollapsibleState.None,
-                    'rule-active',
-                    this.getRuleDescription(rule),
+                    getRuleContextValue('rule-active', rule),
+                    this.getRuleDescription(rule, ruleSettings.get(rule.id)),
                     undefined,
                     rule
                 );
+                treeItem.workspaceId = workspaceId;
 
                 // Set icon
                 if (rule.isFavorite) {
@@ -73,11 +66,11 @@ export class ActiveRulesProvider implements vscode.TreeDataProvider<ActiveRuleTr
                     treeItem.iconPath = new vscode.ThemeIcon('check');
                 }
 
-                // Add command for single click - toggle rule deactivation
+                // Add command for single click - toggle rule deactivation in this folder
                 treeItem.command = {
                     command: 'solidrules.toggleRule',
                     title: 'Toggle Rule',
-                    arguments: [rule.id]
+                    arguments: workspaceId ? [rule.id, workspaceId] : [rule.id]
                 };
 
                 // Add visual styling for active rules
@@ -96,9 +89,55 @@ export class ActiveRulesProvider implements vscode.TreeDataProvider<ActiveRuleTr
         }
     }
 
-    private getRuleDescription(rule: CursorRule): string {
+    // Multi-root workspaces group active rules by workspace folder
+    private async getWorkspaceFolderItems(): Promise<ActiveRuleTreeItem[]> {
+        try {
+            const folders = this.rulesManager.getWorkspaceFolders();
+
+            return await Promise.all(folders.map(async folder => {
+                const activeRules = await this.rulesManager.getActiveRules(folder.workspaceId);
+
+                let description = `${activeRules.length} active`;
+                if (folder.isCurrent) {
+                    description += ' • target';
+                }
+
+                const treeItem = new ActiveRuleTreeItem(
+                    folder.name,
+                    vscode.TreeItemCollapsibleState.Expanded,
+                    'workspace-folder',
+                    description
+                );
+                treeItem.workspaceId = folder.workspaceId;
+                treeItem.tooltip = `${folder.workspaceId}\n${folder.isCurrent ? 'Explorer toggles apply to this folder' : 'Click to make this the target folder'}`;
+                treeItem.iconPath = new vscode.ThemeIcon(folder.isCurrent ? 'root-folder-opened' : 'root-folder');
+                treeItem.command = {
+                    command: 'solidrules.selectWorkspaceFolder',
+                    title: 'Select Workspace Folder',
+                    arguments: [folder.workspaceId]
+                };
+
+                return treeItem;
+            }));
+        } catch (error) {
+            console.error('Failed to get workspace folders:', error);
+            return [new ActiveRuleTreeItem(
+                'Error loading workspace folders',
+                vscode.TreeItemCollapsibleState.None,
+                'error'
+            )];
+        }
+    }
+
+    private getRuleDescription(rule: CursorRule, settings?: MdcRuleSettings): string {
         const parts: string[] = [];
         
+        if (settings) {
+            parts.push(settings.ruleType === 'autoAttached' && settings.globs
+                ? `${MDC_RULE_TYPE_LABELS.autoAttached} (${settings.globs})`
+                : MDC_RULE_TYPE_LABELS[settings.ruleType]);
+        }
+
         parts.push(rule.category);
         
         if (rule.technologies.length > 0) {
@@ -117,6 +156,9 @@ export class ActiveRulesProvider implements vscode.TreeDataProvider<ActiveRuleTr
 }
 
 export class ActiveRuleTreeItem extends BaseRuleTreeItem {
+    // Workspace folder the item belongs to (multi-root workspaces only)
+    workspaceId: string | undefined;
+
     protected getTooltipPrefix(): string {
         return '(Active)';
     }
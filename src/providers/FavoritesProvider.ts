@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { RulesManager } from '../managers/RulesManager';
-import { CursorRule, BaseRuleTreeItem } from '../types';
+import { CursorRule, BaseRuleTreeItem, getRuleContextValue } from '../types';
 
 export class FavoritesProvider implements vscode.TreeDataProvider<FavoriteRuleTreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<FavoriteRuleTreeItem | undefined | void> = new vscode.EventEmitter<FavoriteRuleTreeItem | undefined | void>();
@@ -23,21 +23,6 @@ export class FavoritesProvider implements vscode.TreeDataProvider<FavoriteRuleTr
     }
 
     async getChildren(element?: FavoriteRuleTreeItem): Promise<FavoriteRuleTreeItem[]> {
-        // Check if GitHub token is configured via SecretStorage
-        try {
-            const githubService = this.rulesManager.getGitHubService();
-            const githubToken = await githubService.getSecureToken();
-            
-            if (!githubToken) {
-                console.log('🔍 FavoritesProvider: No GitHub token configured, hiding favorites panel');
-                // Hide this panel when token is not configured
-                return [];
-            }
-        } catch (error) {
-            console.error('❌ FavoritesProvider: Failed to check GitHub token:', error);
-            return [];
-        }
-        
         if (element) {
             return [];
         }
@@ -58,7 +43,7 @@ export class FavoritesProvider implements vscode.TreeDataProvider<FavoriteRuleTr
                 const treeItem = new FavoriteRuleTreeItem(
                     rule.name,
                     vscode.TreeItemCollapsibleState.None,
-                    'rule-favorite',
+                    getRuleContextValue('rule-favorite', rule),
                     this.getRuleDescription(rule),
                     undefined,
                     rule
@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import { RulesManager } from '../managers/RulesManager';
+import { CursorRule, BaseRuleTreeItem, RulePreset } from '../types';
+
+export class PresetsProvider implements vscode.TreeDataProvider<PresetTreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<PresetTreeItem | undefined | void> = new vscode.EventEmitter<PresetTreeItem | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<PresetTreeItem | undefined | void> = this._onDidChangeTreeData.event;
+
+    constructor(private rulesManager: RulesManager) {
+        // Preset changes and rule activation both fire onDidChangeRules
+        this.rulesManager.onDidChangeRules(() => {
+            this.refresh();
+        });
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: PresetTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: PresetTreeItem): Promise<PresetTreeItem[]> {
+        try {
+            // Activation state is shown for the target workspace folder
+            const rulesById = new Map((await this.rulesManager.getAllRules()).map(rule => [rule.id, rule]));
+
+            if (element?.preset) {
+                return this.getPresetRuleItems(element.preset, rulesById);
+            }
+            if (element) {
+                return [];
+            }
+
+            const presets = await this.rulesManager.getPresets();
+            if (presets.length === 0) {
+                return [new PresetTreeItem(
+                    'No presets',
+                    vscode.TreeItemCollapsibleState.None,
+                    'empty',
+                    'Save your active rules as a preset with the + button'
+                )];
+            }
+
+            return presets.map(preset => {
+                const activeCount = preset.ruleIds.filter(ruleId => rulesById.get(ruleId)?.isActive).length;
+                const treeItem = new PresetTreeItem(
+                    preset.name,
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    'preset',
+                    `${activeCount}/${preset.ruleIds.length} active`
+                );
+                treeItem.preset = preset;
+                treeItem.tooltip = [preset.name, preset.description, `${preset.ruleIds.length} rules`].filter(Boolean).join('\n');
+                treeItem.iconPath = new vscode.ThemeIcon(
+                    preset.ruleIds.length > 0 && activeCount === preset.ruleIds.length ? 'layers-active' : 'layers'
+                );
+                return treeItem;
+            });
+        } catch (error) {
+            console.error('Failed to get presets:', error);
+            return [new PresetTreeItem(
+                'Error loading presets',
+                vscode.TreeItemCollapsibleState.None,
+                'error'
+            )];
+        }
+    }
+
+    private getPresetRuleItems(preset: RulePreset, rulesById: ReadonlyMap<string, CursorRule>): PresetTreeItem[] {
+        return preset.ruleIds.map(ruleId => {
+            const rule = rulesById.get(ruleId);
+            if (!rule) {
+                const treeItem = new PresetTreeItem(
+                    ruleId,
+                    vscode.TreeItemCollapsibleState.None,
+                    'preset-rule-missing',
+                    'Not in library'
+                );
+                treeItem.iconPath = new vscode.ThemeIcon('warning');
+                treeItem.tooltip = 'This rule is not in the library. Refresh rules or import it to use it in this preset.';
+                return treeItem;
+            }
+
+            const treeItem = new PresetTreeItem(
+                rule.name,
+                vscode.TreeItemCollapsibleState.None,
+                'preset-rule',
+                rule.isActive ? 'Active' : rule.category,
+                undefined,
+                rule
+            );
+            treeItem.iconPath = new vscode.ThemeIcon(rule.isActive ? 'check' : 'circle-outline');
+            treeItem.command = {
+                command: 'solidrules.previewRule',
+                title: 'Preview Rule',
+                arguments: [rule.id]
+            };
+            return treeItem;
+        });
+    }
+}
+
+export class PresetTreeItem extends BaseRuleTreeItem {
+    // Set on preset nodes; rule nodes carry their rule instead
+    preset: RulePreset | undefined;
+
+    protected getTooltipPrefix(): string {
+        return '🧩';
+    }
+
+    protected getTooltipSuffix(): string {
+        return 'Right-click the preset to apply it';
+    }
+
+    iconPath = new vscode.ThemeIcon('layers');
+}
@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import { RulesManager } from '../managers/RulesManager';
+
+// Read-only documents showing the project rule file SolidRules would write for a library rule,
+// addressed as solidrules-rule:/<ruleId>/<fileName> so they can be opened in diff editors.
+// With ?upstream=<version> the document shows the fetched update under review instead of the stored rule
+export class RuleContentProvider implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'solidrules-rule';
+
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+
+    private changeListener: vscode.Disposable;
+
+    constructor(private rulesManager: RulesManager) {
+        // Open documents of stored rules follow updates, rollbacks and edits
+        this.changeListener = this.rulesManager.onDidChangeRules(() => {
+            vscode.workspace.textDocuments
+                .filter(document => document.uri.scheme === RuleContentProvider.scheme && !document.uri.query)
+                .forEach(document => this._onDidChange.fire(document.uri));
+        });
+    }
+
+    static createUri(ruleId: string, fileName: string, upstreamVersion?: string): vscode.Uri {
+        return vscode.Uri.from({
+            scheme: RuleContentProvider.scheme,
+            path: `/${encodeURIComponent(ruleId)}/${fileName}`,
+            // The version keeps documents for different fetched updates apart in VS Code's document cache
+            ...(upstreamVersion !== undefined && { query: `upstream=${encodeURIComponent(upstreamVersion)}` })
+        });
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        try {
+            const ruleId = decodeURIComponent(uri.path.split('/')[1] || '');
+            if (uri.query.startsWith('upstream=')) {
+                const update = await this.rulesManager.getFetchedRuleUpdate(ruleId);
+                return update ? this.rulesManager.renderProjectRule(update) : `No fetched update for rule: ${ruleId}`;
+            }
+
+            const rule = await this.rulesManager.getRuleById(ruleId);
+            if (!rule) {
+                return `Rule not found: ${ruleId}`;
+            }
+            return this.rulesManager.renderProjectRule(rule);
+        } catch (error) {
+            console.error('❌ Error providing rule content:', error);
+            return `Error loading rule: ${error}`;
+        }
+    }
+
+    dispose(): void {
+        this.changeListener.dispose();
+        this._onDidChange.dispose();
+    }
+}
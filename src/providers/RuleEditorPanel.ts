@@ -0,0 +1,474 @@
+import * as vscode from 'vscode';
+import { RulesManager } from '../managers/RulesManager';
+import { CustomRuleDraft, MdcRuleSettings, MdcRuleType, MDC_RULE_TYPE_LABELS } from '../types';
+
+// Editor tab for creating and editing custom rules, with a live preview of the generated .mdc file
+export class RuleEditorPanel {
+    public static readonly viewType = 'solidrules.ruleEditor';
+
+    // One panel per rule; new-rule panels are keyed until their first save
+    private static panels = new Map<string, RuleEditorPanel>();
+    private static newPanelCount = 0;
+
+    private disposables: vscode.Disposable[] = [];
+
+    static async show(extensionUri: vscode.Uri, rulesManager: RulesManager, ruleId?: string): Promise<void> {
+        const existingPanel = ruleId ? RuleEditorPanel.panels.get(ruleId) : undefined;
+        if (existingPanel) {
+            existingPanel.panel.reveal();
+            return;
+        }
+
+        const rule = ruleId ? await rulesManager.getRuleById(ruleId) : null;
+        if (ruleId && !rule) {
+            throw new Error('Rule not found');
+        }
+        if (rule && !rule.isCustom) {
+            throw new Error(`"${rule.name}" comes from a rule source and cannot be edited`);
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            RuleEditorPanel.viewType,
+            rule ? `Edit Rule: ${rule.name}` : 'New Custom Rule',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [extensionUri]
+            }
+        );
+
+        const key = rule?.id || `new-${++RuleEditorPanel.newPanelCount}`;
+        RuleEditorPanel.panels.set(key, new RuleEditorPanel(panel, rulesManager, key, rule?.id));
+    }
+
+    private constructor(
+        private readonly panel: vscode.WebviewPanel,
+        private readonly rulesManager: RulesManager,
+        private key: string,
+        private ruleId: string | undefined
+    ) {
+        this.panel.webview.html = this.getHtmlForWebview(this.panel.webview);
+
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage(async (message) => {
+            try {
+                switch (message.command) {
+                    case 'ready':
+                        await this.loadRule();
+                        break;
+                    case 'preview':
+                        await this.postPreview(this.toDraft(message.draft));
+                        break;
+                    case 'save':
+                        await this.save(this.toDraft(message.draft));
+                        break;
+                    case 'cancel':
+                        this.panel.dispose();
+                        break;
+                }
+            } catch (error) {
+                console.error('❌ Rule editor error:', error);
+                vscode.window.showErrorMessage(`Rule editor error: ${error}`);
+            }
+        }, null, this.disposables);
+    }
+
+    private async loadRule(): Promise<void> {
+        const rule = this.ruleId ? await this.rulesManager.getRuleById(this.ruleId) : null;
+        const categories = await this.rulesManager.getCategories();
+
+        const draft: CustomRuleDraft = rule
+            ? {
+                name: rule.name,
+                description: rule.description,
+                category: rule.category,
+                technologies: rule.technologies,
+                tags: rule.tags,
+                content: rule.content,
+                mdcSettings: rule.mdcSettings
+            }
+            : { name: '', description: '', category: 'Custom', technologies: [], tags: [], content: '' };
+
+        await this.panel.webview.postMessage({
+            command: 'load',
+            draft,
+            isNew: !rule,
+            categories: Array.from(new Set(['Custom', ...categories])),
+            ruleTypes: MDC_RULE_TYPE_LABELS
+        });
+        await this.postPreview(draft);
+    }
+
+    private async postPreview(draft: CustomRuleDraft): Promise<void> {
+        const [preview, errors] = await Promise.all([
+            this.rulesManager.renderCustomRuleDraft(draft, this.ruleId),
+            this.rulesManager.validateCustomRuleDraft(draft, this.ruleId)
+        ]);
+        await this.panel.webview.postMessage({ command: 'preview', preview, errors });
+    }
+
+    private async save(draft: CustomRuleDraft): Promise<void> {
+        const errors = await this.rulesManager.validateCustomRuleDraft(draft, this.ruleId);
+        if (errors.length > 0) {
+            await this.panel.webview.postMessage({ command: 'preview', preview: await this.rulesManager.renderCustomRuleDraft(draft, this.ruleId), errors });
+            return;
+        }
+
+        const rule = await this.rulesManager.saveCustomRule(draft, this.ruleId);
+
+        // A new rule's panel becomes the editor of the saved rule
+        if (this.key !== rule.id) {
+            RuleEditorPanel.panels.delete(this.key);
+            this.key = rule.id;
+            this.ruleId = rule.id;
+            RuleEditorPanel.panels.set(rule.id, this);
+        }
+        this.panel.title = `Edit Rule: ${rule.name}`;
+        await this.panel.webview.postMessage({ command: 'saved' });
+    }
+
+    // Messages come from our own webview, but normalize them before they reach the database
+    private toDraft(raw: any): CustomRuleDraft {
+        const text = (value: unknown): string => typeof value === 'string' ? value : '';
+        const list = (value: unknown): string[] => Array.isArray(value)
+            ? value.filter((item): item is string => typeof item === 'string')
+            : text(value).split(',').map(item => item.trim()).filter(item => item.length > 0);
+
+        const ruleType = text(raw?.ruleType);
+        let mdcSettings: MdcRuleSettings | undefined;
+        if (Object.keys(MDC_RULE_TYPE_LABELS).includes(ruleType)) {
+            mdcSettings = ruleType === 'autoAttached'
+                ? { ruleType, globs: text(raw?.globs).trim() }
+                : { ruleType: ruleType as MdcRuleType };
+        }
+
+        return {
+            name: text(raw?.name),
+            description: text(raw?.description),
+            category: text(raw?.category),
+            technologies: list(raw?.technologies),
+            tags: list(raw?.tags),
+            content: text(raw?.content),
+            mdcSettings
+        };
+    }
+
+    dispose(): void {
+        RuleEditorPanel.panels.delete(this.key);
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private getHtmlForWebview(webview: vscode.Webview): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src ${webview.cspSource} 'unsafe-inline';">
+    <title>SolidRules Rule Editor</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 16px;
+            margin: 0;
+            line-height: 1.4;
+        }
+
+        .layout {
+            display: grid;
+            grid-template-columns: minmax(0, 1fr) minmax(0, 1fr);
+            gap: 16px;
+        }
+
+        .fields {
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 0 12px;
+        }
+
+        .input-group {
+            margin: 0 0 12px 0;
+        }
+
+        .input-group.wide {
+            grid-column: 1 / -1;
+        }
+
+        .input-group label,
+        .preview h3 {
+            display: block;
+            margin: 0 0 4px 0;
+            font-weight: 500;
+            font-size: 12px;
+        }
+
+        .hint {
+            color: var(--vscode-descriptionForeground);
+            font-size: 11px;
+            margin-top: 2px;
+        }
+
+        input,
+        select,
+        textarea {
+            width: 100%;
+            padding: 6px 8px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+            border-radius: 3px;
+            font-family: var(--vscode-font-family);
+            font-size: 12px;
+            box-sizing: border-box;
+        }
+
+        textarea {
+            min-height: 360px;
+            resize: vertical;
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            tab-size: 4;
+        }
+
+        input:focus,
+        select:focus,
+        textarea:focus {
+            outline: none;
+            border-color: var(--vscode-focusBorder);
+        }
+
+        .hidden {
+            display: none;
+        }
+
+        .preview pre {
+            margin: 0;
+            padding: 8px 10px;
+            min-height: 360px;
+            max-height: 70vh;
+            overflow: auto;
+            white-space: pre-wrap;
+            word-break: break-word;
+            background-color: var(--vscode-textBlockQuote-background);
+            border: 1px solid var(--vscode-input-border, transparent);
+            border-radius: 3px;
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+        }
+
+        .errors {
+            margin: 0 0 12px 0;
+            padding: 8px 12px 8px 28px;
+            background-color: var(--vscode-inputValidation-errorBackground);
+            border: 1px solid var(--vscode-inputValidation-errorBorder);
+            border-radius: 3px;
+        }
+
+        .actions {
+            display: flex;
+            gap: 8px;
+            margin-top: 4px;
+        }
+
+        .button {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 14px;
+            border-radius: 3px;
+            cursor: pointer;
+            font-family: var(--vscode-font-family);
+            font-size: 12px;
+        }
+
+        .button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+
+        .button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+
+        .button.secondary {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+
+        .status {
+            align-self: center;
+            color: var(--vscode-descriptionForeground);
+            font-size: 11px;
+        }
+    </style>
+</head>
+<body>
+    <div class="layout">
+        <div>
+            <div class="fields">
+                <div class="input-group">
+                    <label for="name">Name</label>
+                    <input id="name" placeholder="My Custom Rule" />
+                </div>
+                <div class="input-group">
+                    <label for="category">Category</label>
+                    <input id="category" list="categories" />
+                    <datalist id="categories"></datalist>
+                </div>
+                <div class="input-group wide">
+                    <label for="description">Description</label>
+                    <input id="description" placeholder="When the agent should use this rule" />
+                </div>
+                <div class="input-group">
+                    <label for="technologies">Technologies</label>
+                    <input id="technologies" placeholder="react, typescript" />
+                    <div class="hint">Comma-separated</div>
+                </div>
+                <div class="input-group">
+                    <label for="tags">Tags</label>
+                    <input id="tags" placeholder="custom, testing" />
+                    <div class="hint">Comma-separated</div>
+                </div>
+                <div class="input-group">
+                    <label for="ruleType">Rule Type</label>
+                    <select id="ruleType"></select>
+                </div>
+                <div class="input-group" id="globsGroup">
+                    <label for="globs">Globs</label>
+                    <input id="globs" placeholder="*.ts, src/**/*.tsx" />
+                </div>
+                <div class="input-group wide">
+                    <label for="content">Rule Content (Markdown)</label>
+                    <textarea id="content" placeholder="You are an expert developer..."></textarea>
+                </div>
+            </div>
+            <div class="actions">
+                <button class="button" id="saveButton">Save Rule</button>
+                <button class="button secondary" id="cancelButton">Close</button>
+                <span class="status" id="status"></span>
+            </div>
+        </div>
+        <div class="preview">
+            <ul class="errors hidden" id="errors"></ul>
+            <h3>Generated .mdc</h3>
+            <pre id="preview"></pre>
+        </div>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const fields = ['name', 'category', 'description', 'technologies', 'tags', 'ruleType', 'globs', 'content'];
+        const element = id => document.getElementById(id);
+        let previewTimeout;
+        let hasErrors = false;
+
+        function collectDraft() {
+            const draft = {};
+            for (const field of fields) {
+                draft[field] = element(field).value;
+            }
+            return draft;
+        }
+
+        function updateGlobsVisibility() {
+            element('globsGroup').classList.toggle('hidden', element('ruleType').value !== 'autoAttached');
+        }
+
+        function schedulePreview() {
+            element('status').textContent = 'Unsaved changes';
+            clearTimeout(previewTimeout);
+            previewTimeout = setTimeout(() => {
+                vscode.postMessage({ command: 'preview', draft: collectDraft() });
+            }, 300);
+        }
+
+        function load(message) {
+            const draft = message.draft;
+            const ruleType = element('ruleType');
+            ruleType.replaceChildren();
+            ruleType.append(new Option('Default (from category)', ''));
+            for (const [value, label] of Object.entries(message.ruleTypes)) {
+                ruleType.append(new Option(label, value));
+            }
+
+            const categories = element('categories');
+            categories.replaceChildren(...message.categories.map(category => new Option(category)));
+
+            element('name').value = draft.name;
+            element('category').value = draft.category;
+            element('description').value = draft.description;
+            element('technologies').value = draft.technologies.join(', ');
+            element('tags').value = draft.tags.join(', ');
+            element('ruleType').value = draft.mdcSettings ? draft.mdcSettings.ruleType : '';
+            element('globs').value = draft.mdcSettings && draft.mdcSettings.globs ? draft.mdcSettings.globs : '';
+            element('content').value = draft.content;
+            element('saveButton').textContent = message.isNew ? 'Create Rule' : 'Save Rule';
+            element('status').textContent = '';
+            updateGlobsVisibility();
+            element('name').focus();
+        }
+
+        function showPreview(message) {
+            element('preview').textContent = message.preview;
+            hasErrors = message.errors.length > 0;
+
+            const errors = element('errors');
+            errors.replaceChildren(...message.errors.map(error => {
+                const item = document.createElement('li');
+                item.textContent = error;
+                return item;
+            }));
+            errors.classList.toggle('hidden', !hasErrors);
+            element('saveButton').disabled = hasErrors;
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            switch (message.command) {
+                case 'load':
+                    load(message);
+                    break;
+                case 'preview':
+                    showPreview(message);
+                    break;
+                case 'saved':
+                    element('saveButton').textContent = 'Save Rule';
+                    element('status').textContent = 'Saved';
+                    break;
+            }
+        });
+
+        for (const field of fields) {
+            element(field).addEventListener('input', schedulePreview);
+        }
+        element('ruleType').addEventListener('change', updateGlobsVisibility);
+
+        // Keep Tab inside the body editor instead of moving focus
+        element('content').addEventListener('keydown', event => {
+            if (event.key === 'Tab' && !event.shiftKey) {
+                event.preventDefault();
+                const textarea = event.target;
+                textarea.setRangeText('    ', textarea.selectionStart, textarea.selectionEnd, 'end');
+                schedulePreview();
+            }
+        });
+
+        element('saveButton').addEventListener('click', () => {
+            clearTimeout(previewTimeout);
+            vscode.postMessage({ command: 'save', draft: collectDraft() });
+        });
+        element('cancelButton').addEventListener('click', () => {
+            vscode.postMessage({ command: 'cancel' });
+        });
+
+        vscode.postMessage({ command: 'ready' });
+    </script>
+</body>
+</html>`;
+    }
+}
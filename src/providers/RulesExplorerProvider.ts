@@ -1,6 +1,12 @@
 import * as vscode from 'vscode';
 import { RulesManager } from '../managers/RulesManager';
-import { CursorRule, SearchFilters, BaseRuleTreeItem } from '../types';
+import { CursorRule, SearchFilters, BaseRuleTreeItem, ParsedSearchQuery, RuleSearchMatch, RuleSearchSnippet, getRuleContextValue, LOCAL_SOURCE_PREFIX } from '../types';
+import { parseSearchQuery, matchesSearchQuery } from '../utils/searchQuery';
+
+export type RulesGroupBy = 'category' | 'source';
+
+// Source node key for custom rules, which don't come from any configured source
+const CUSTOM_SOURCE_KEY = '__custom__';
 
 export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<RuleTreeItem | undefined | void> = new vscode.EventEmitter<RuleTreeItem | undefined | void>();
@@ -8,7 +14,12 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
 
     // Enhanced state management
     private searchQuery: string = '';
+    // Full-text matches of searchQuery by rule id, in relevance order
+    private searchMatches: Promise<Map<string, RuleSearchMatch>> | undefined;
     private currentFilters: SearchFilters = { sortBy: 'recent' };
+    // searchQuery's qualifiers merged over currentFilters
+    private parsedQuery: ParsedSearchQuery = parseSearchQuery('', this.currentFilters);
+    private groupBy: RulesGroupBy = 'category';
     
     // Performance optimization: caching with TTL
     private categoriesCache: Map<string, RuleTreeItem[]> = new Map();
@@ -53,6 +64,19 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
     private invalidateCache(): void {
         this.categoriesCache.clear();
         this.cacheTimestamp = 0;
+        this.searchMatches = undefined;
+    }
+
+    // Ranked once per query and reused by every node of the tree
+    private async getSearchMatches(): Promise<Map<string, RuleSearchMatch> | undefined> {
+        if (!this.parsedQuery.text.trim()) {
+            return undefined;
+        }
+        if (!this.searchMatches) {
+            this.searchMatches = this.rulesManager.searchRuleMatches(this.parsedQuery.text)
+                .then(matches => new Map(matches.map(match => [match.ruleId, match])));
+        }
+        return this.searchMatches;
     }
 
     private isCacheValid(): boolean {
@@ -84,7 +108,7 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
     }
 
     private generateCacheKey(): string {
-        return `${this.searchQuery}|${JSON.stringify(this.currentFilters)}`;
+        return `${this.groupBy}|${this.searchQuery}|${JSON.stringify(this.currentFilters)}`;
     }
 
     getTreeItem(element: RuleTreeItem): vscode.TreeItem {
@@ -103,24 +127,21 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
 
     async getChildren(element?: RuleTreeItem): Promise<RuleTreeItem[]> {
         try {
-            // Check if token is configured using secure storage
-            const githubService = this.rulesManager.getGitHubService();
-            const hasToken = !!(await githubService.getSecureToken());
-
-            if (!hasToken) {
-                // Don't show any tree items when no token - the webview will handle the interface
-                return [];
-            }
-
             if (!element) {
-                // Root level - show categories with caching
-                return await this.getMergedCategories();
+                // Root level - show categories or sources with caching
+                return this.groupBy === 'source'
+                    ? await this.getSourceGroups()
+                    : await this.getMergedCategories();
             }
             
             if (element.contextValue === 'category') {
                 return await this.getMergedCategoryRules(element.category!);
             }
 
+            if (element.contextValue === 'source' || element.contextValue === 'source-local' || element.contextValue === 'source-custom') {
+                return await this.getSourceRules(element.category!);
+            }
+
             return [];
         } catch (error) {
             console.error('❌ Error getting children:', error);
@@ -154,7 +175,7 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
             }
 
             // Apply search and filters
-            const filteredRules = this.applyFiltersToRules(allRules);
+            const filteredRules = this.applyFiltersToRules(allRules, await this.getSearchMatches());
 
             // Group by category (merge both formats)
             const categoryMap = new Map<string, CursorRule[]>();
@@ -222,10 +243,11 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
             const categoryRules = allRules.filter(rule => (rule.category || 'Other') === category);
             
             // Apply search and filters
-            const filteredRules = this.applyFiltersToRules(categoryRules);
+            const searchMatches = await this.getSearchMatches();
+            const filteredRules = this.applyFiltersToRules(categoryRules, searchMatches);
             
             console.log(`📋 Found ${filteredRules.length} merged rules in category ${category}`);
-            return this.createRuleTreeItems(filteredRules);
+            return this.createRuleTreeItems(filteredRules, searchMatches);
             
         } catch (error) {
             console.error(`❌ Failed to get merged rules for category ${category}:`, error);
@@ -238,25 +260,131 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
         }
     }
 
+    private async getSourceGroups(): Promise<RuleTreeItem[]> {
+        try {
+            // Check cache first
+            const cached = this.getCachedCategories();
+            if (cached) {
+                return cached;
+            }
+
+            const { directoryRules, fileRules } = await this.rulesManager.getRulesByFormat();
+            const allRules = [...directoryRules, ...fileRules];
+            
+            if (allRules.length === 0) {
+                return [new RuleTreeItem(
+                    'No rules found',
+                    vscode.TreeItemCollapsibleState.None,
+                    'empty',
+                    'Try refreshing or configuring a GitHub token'
+                )];
+            }
+
+            const filteredRules = this.applyFiltersToRules(allRules, await this.getSearchMatches());
+
+            const sourceMap = new Map<string, CursorRule[]>();
+            filteredRules.forEach(rule => {
+                const sourceKey = this.rulesManager.getRuleSourceId(rule) || CUSTOM_SOURCE_KEY;
+                if (!sourceMap.has(sourceKey)) {
+                    sourceMap.set(sourceKey, []);
+                }
+                sourceMap.get(sourceKey)!.push(rule);
+            });
+
+            // Configured sources first in settings order, then sources that were removed from settings, custom rules last
+            const configuredIds = Array.from(this.rulesManager.getRuleSourceNames().keys());
+            const sourceKeys = Array.from(sourceMap.keys()).sort((a, b) => {
+                const rank = (key: string) => key === CUSTOM_SOURCE_KEY
+                    ? Number.MAX_SAFE_INTEGER
+                    : (configuredIds.indexOf(key) === -1 ? configuredIds.length : configuredIds.indexOf(key));
+                return rank(a) - rank(b) || a.localeCompare(b);
+            });
+            const sourceNames = this.rulesManager.getRuleSourceNames();
+
+            const sourceItems = sourceKeys.map(sourceKey => {
+                const sourceRules = sourceMap.get(sourceKey)!;
+                const activeCount = sourceRules.filter(r => r.isActive).length;
+
+                let description = `${sourceRules.length} rules`;
+                if (activeCount > 0) {
+                    description += ` • ${activeCount} active`;
+                }
+
+                const isCustom = sourceKey === CUSTOM_SOURCE_KEY;
+                const isLocal = sourceKey.startsWith(LOCAL_SOURCE_PREFIX);
+                const treeItem = new RuleTreeItem(
+                    isCustom ? 'Custom Rules' : (sourceNames.get(sourceKey) || sourceKey),
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    isCustom ? 'source-custom' : (isLocal ? 'source-local' : 'source'),
+                    description,
+                    sourceKey
+                );
+
+                treeItem.iconPath = new vscode.ThemeIcon(isCustom ? 'edit' : (isLocal ? 'folder-library' : 'repo'));
+                if (!isCustom) {
+                    treeItem.tooltip = sourceKey;
+                }
+
+                return treeItem;
+            });
+
+            this.setCachedCategories(sourceItems);
+
+            console.log(`📦 Generated ${sourceItems.length} source groups with ${filteredRules.length} rules`);
+
+            return sourceItems;
+
+        } catch (error) {
+            console.error('❌ Failed to get source groups:', error);
+            return [new RuleTreeItem(
+                'Error loading sources',
+                vscode.TreeItemCollapsibleState.None,
+                'error',
+                `Error: ${error}`
+            )];
+        }
+    }
+
+    private async getSourceRules(sourceKey: string): Promise<RuleTreeItem[]> {
+        try {
+            const { directoryRules, fileRules } = await this.rulesManager.getRulesByFormat();
+            const allRules = [...directoryRules, ...fileRules];
+            const sourceRules = allRules.filter(rule => 
+                (this.rulesManager.getRuleSourceId(rule) || CUSTOM_SOURCE_KEY) === sourceKey
+            );
+            
+            const searchMatches = await this.getSearchMatches();
+            const filteredRules = this.applyFiltersToRules(sourceRules, searchMatches);
+            
+            console.log(`📋 Found ${filteredRules.length} rules in source ${sourceKey}`);
+            return this.createRuleTreeItems(filteredRules, searchMatches);
+            
+        } catch (error) {
+            console.error(`❌ Failed to get rules for source ${sourceKey}:`, error);
+            return [new RuleTreeItem(
+                'Error loading rules',
+                vscode.TreeItemCollapsibleState.None,
+                'error',
+                `Error: ${error}`
+            )];
+        }
+    }
+
     // Enhanced filtering logic
-    private applyFiltersToRules(rules: CursorRule[]): CursorRule[] {
+    private applyFiltersToRules(rules: CursorRule[], searchMatches?: Map<string, RuleSearchMatch>): CursorRule[] {
         let filteredRules = [...rules];
+        const filters = this.parsedQuery.filters;
+        const sourceNames = this.rulesManager.getRuleSourceNames();
 
         try {
             // Apply search query
-            if (this.searchQuery) {
-                const query = this.searchQuery.toLowerCase();
-                filteredRules = filteredRules.filter(rule =>
-                    rule.name.toLowerCase().includes(query) ||
-                    rule.description.toLowerCase().includes(query) ||
-                    rule.technologies.some(tech => tech.toLowerCase().includes(query)) ||
-                    rule.tags.some(tag => tag.toLowerCase().includes(query))
-                );
+            if (searchMatches) {
+                filteredRules = filteredRules.filter(rule => searchMatches.has(rule.id));
             }
 
             // Apply filters
-            if (this.currentFilters.technology) {
-                const technologyFilter = this.currentFilters.technology.toLowerCase();
+            if (filters.technology) {
+                const technologyFilter = filters.technology.toLowerCase();
                 filteredRules = filteredRules.filter(rule =>
                     rule.technologies.some(tech =>
                         tech.toLowerCase().includes(technologyFilter)
@@ -264,23 +392,36 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
                 );
             }
 
-            if (this.currentFilters.category) {
-                const categoryFilter = this.currentFilters.category.toLowerCase();
+            if (filters.category) {
+                const categoryFilter = filters.category.toLowerCase();
                 filteredRules = filteredRules.filter(rule =>
                     rule.category.toLowerCase() === categoryFilter
                 );
             }
 
-            if (this.currentFilters.showFavoritesOnly) {
+            if (filters.source) {
+                const sourceFilter = filters.source.toLowerCase();
+                filteredRules = filteredRules.filter(rule => this.getSourceKeys(rule, sourceNames).includes(sourceFilter));
+            }
+
+            if (filters.showFavoritesOnly) {
                 filteredRules = filteredRules.filter(rule => rule.isFavorite);
             }
 
-            if (this.currentFilters.showActiveOnly) {
+            if (filters.showActiveOnly) {
                 filteredRules = filteredRules.filter(rule => rule.isActive);
             }
 
+            // Query language parts: every technology, tags, is: flags, exclusions and phrases
+            filteredRules = filteredRules.filter(rule => matchesSearchQuery(rule, this.parsedQuery, this.getSourceKeys(rule, sourceNames)));
+
+            // Search results are ranked by relevance instead
+            if (searchMatches) {
+                return filteredRules.sort((a, b) => searchMatches.get(b.id)!.score - searchMatches.get(a.id)!.score);
+            }
+
             // Apply sorting
-            return this.sortRules(filteredRules, this.currentFilters.sortBy);
+            return this.sortRules(filteredRules, filters.sortBy);
 
         } catch (error) {
             console.error('❌ Error applying filters:', error);
@@ -288,6 +429,16 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
         }
     }
 
+    // Sources can be named by id or by name in searches
+    private getSourceKeys(rule: CursorRule, sourceNames: Map<string, string>): string[] {
+        const sourceId = this.rulesManager.getRuleSourceId(rule);
+        if (!sourceId) {
+            return [];
+        }
+        const sourceName = sourceNames.get(sourceId);
+        return [sourceId.toLowerCase(), ...(sourceName ? [sourceName.toLowerCase()] : [])];
+    }
+
     private sortRules(rules: CursorRule[], sortBy: 'recent' | 'alphabetical' | 'popularity'): CursorRule[] {
         try {
             switch (sortBy) {
@@ -319,17 +470,19 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
         }
     }
 
-    private createRuleTreeItems(rules: CursorRule[]): RuleTreeItem[] {
+    private createRuleTreeItems(rules: CursorRule[], searchMatches?: Map<string, RuleSearchMatch>): RuleTreeItem[] {
         try {
             return rules.map(rule => {
                 // Simple display name without redundant visual indicators
                 const displayName = rule.name;
-                const description = this.getRuleDescription(rule);
+                // Search results show where the query matched instead
+                const snippet = searchMatches?.get(rule.id)?.snippet;
+                const description = snippet ? snippet.text : this.getRuleDescription(rule);
 
                 const treeItem = new RuleTreeItem(
                     displayName,
                     vscode.TreeItemCollapsibleState.None,
-                    rule.isActive ? 'rule-active' : 'rule-inactive',
+                    getRuleContextValue(rule.isActive ? 'rule-active' : 'rule-inactive', rule),
                     description,
                     undefined,
                     rule
@@ -358,6 +511,10 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
                     treeItem.resourceUri = vscode.Uri.parse(`rule-active:${rule.id}`);
                 }
 
+                if (snippet) {
+                    treeItem.tooltip = new vscode.MarkdownString(`${treeItem.tooltip}\n\n---\n\n${this.formatSnippet(snippet)}`);
+                }
+
                 return treeItem;
             });
         } catch (error) {
@@ -371,6 +528,18 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
         }
     }
 
+    // Snippet as markdown with the matched words in bold
+    private formatSnippet(snippet: RuleSearchSnippet): string {
+        const escape = (text: string) => text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, '\\$&');
+        let markdown = '';
+        let position = 0;
+        for (const [start, end] of snippet.highlights) {
+            markdown += `${escape(snippet.text.slice(position, start))}**${escape(snippet.text.slice(start, end))}**`;
+            position = end;
+        }
+        return markdown + escape(snippet.text.slice(position));
+    }
+
     private getRuleDescription(rule: CursorRule): string {
         try {
             const parts: string[] = [];
@@ -384,6 +553,8 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
 
             if (rule.isCustom) {
                 parts.push('Custom');
+            } else if (rule.localPath) {
+                parts.push('Local');
             }
 
             const lastUpdated = this.rulesManager.formatLastUpdated(rule.lastUpdated);
@@ -401,6 +572,7 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
     async applySearch(query: string): Promise<void> {
         try {
             this.searchQuery = query;
+            this.parsedQuery = parseSearchQuery(query, this.currentFilters);
             this.invalidateCache();
             this.refresh();
         } catch (error) {
@@ -411,6 +583,7 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
     async applyFilters(filters: SearchFilters): Promise<void> {
         try {
             this.currentFilters = { ...filters };
+            this.parsedQuery = parseSearchQuery(this.searchQuery, this.currentFilters);
             this.invalidateCache();
             this.refresh();
         } catch (error) {
@@ -422,6 +595,7 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
         try {
             this.searchQuery = '';
             this.currentFilters = { sortBy: 'recent' };
+            this.parsedQuery = parseSearchQuery('', this.currentFilters);
             this.invalidateCache();
             this.refresh();
         } catch (error) {
@@ -429,6 +603,20 @@ export class RulesExplorerProvider implements vscode.TreeDataProvider<RuleTreeIt
         }
     }
 
+    setGroupBy(groupBy: RulesGroupBy): void {
+        try {
+            this.groupBy = groupBy;
+            this.invalidateCache();
+            this.refresh();
+        } catch (error) {
+            console.error('❌ Error changing grouping:', error);
+        }
+    }
+
+    getGroupBy(): RulesGroupBy {
+        return this.groupBy;
+    }
+
     getCurrentFilters(): SearchFilters {
         return { ...this.currentFilters };
     }
@@ -38,6 +38,10 @@ export class TokenSetupViewProvider implements vscode.WebviewViewProvider {
                         }
                         break;
 
+                    case 'skipTokenSetup':
+                        await vscode.commands.executeCommand('solidrules.skipTokenSetup');
+                        break;
+
                     case 'openGitHub':
                         console.log('openGitHub case triggered');
                         try {
@@ -260,6 +264,9 @@ export class TokenSetupViewProvider implements vscode.WebviewViewProvider {
         <button class="button" id="saveButton">
             Configurer SolidRules
         </button>
+        <button class="button secondary" id="skipButton">
+            Continuer sans token
+        </button>
     </div>
 
     <script>
@@ -298,6 +305,11 @@ export class TokenSetupViewProvider implements vscode.WebviewViewProvider {
             // Save button
             document.getElementById('saveButton').addEventListener('click', saveToken);
             
+            // Anonymous mode
+            document.getElementById('skipButton').addEventListener('click', function() {
+                vscode.postMessage({ command: 'skipTokenSetup' });
+            });
+            
             // Allow Enter key to save token
             document.getElementById('tokenInput').addEventListener('keypress', function(e) {
                 if (e.key === 'Enter') {
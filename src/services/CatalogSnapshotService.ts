@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { GitHubService } from './GitHubService';
+import { CatalogSnapshot, CursorRule, CATALOG_SNAPSHOT_FILE, CATALOG_SNAPSHOT_VERSION } from '../types';
+
+// Reads the bundled catalog snapshot so first-run users get a browsable library before their first refresh
+export class CatalogSnapshotService {
+    constructor(
+        private extensionUri: vscode.Uri,
+        private githubService: GitHubService
+    ) {}
+
+    getSnapshotPath(): string {
+        return path.join(this.extensionUri.fsPath, 'resources', CATALOG_SNAPSHOT_FILE);
+    }
+
+    // null when no usable snapshot is bundled
+    async readSnapshot(): Promise<CatalogSnapshot | null> {
+        let data: any;
+        try {
+            data = JSON.parse(await fs.readFile(this.getSnapshotPath(), 'utf-8'));
+        } catch (error) {
+            console.warn('⚠️ No readable catalog snapshot bundled:', error);
+            return null;
+        }
+
+        if (!data || data.version !== CATALOG_SNAPSHOT_VERSION || typeof data.sourceId !== 'string' || !Array.isArray(data.rules)) {
+            console.warn(`⚠️ Ignoring catalog snapshot with unsupported format (version ${data?.version})`);
+            return null;
+        }
+
+        const rules = data.rules.filter((rule: any) =>
+            rule
+            && typeof rule.path === 'string'
+            && (rule.format === 'directory' || rule.format === 'file')
+            && typeof rule.content === 'string'
+            && typeof rule.contentSha === 'string'
+        );
+        return { ...data, rules };
+    }
+
+    // Rules of the snapshot, built exactly like a refresh would build them; empty when the snapshot's
+    // source is no longer configured
+    async loadRules(): Promise<CursorRule[]> {
+        const snapshot = await this.readSnapshot();
+        if (!snapshot || snapshot.rules.length === 0) {
+            return [];
+        }
+        if (!this.githubService.getRuleSources().some(source => source.id === snapshot.sourceId)) {
+            console.log(`⏭️ Catalog snapshot source ${snapshot.sourceId} is not configured, skipping it`);
+            return [];
+        }
+
+        const rules: CursorRule[] = [];
+        for (const snapshotRule of snapshot.rules) {
+            try {
+                const ruleInfo = this.githubService.createRuleInfo(snapshotRule.path, snapshotRule.format, snapshot.sourceId);
+                rules.push(this.githubService.createCursorRuleFromFiles(ruleInfo, {
+                    content: snapshotRule.content,
+                    contentSha: snapshotRule.contentSha,
+                    ...(snapshotRule.readme !== undefined && { readme: snapshotRule.readme })
+                }));
+            } catch (error) {
+                console.warn(`⚠️ Skipping catalog snapshot rule ${snapshotRule.path}:`, error);
+            }
+        }
+
+        console.log(`📦 Catalog snapshot from ${snapshot.generatedAt || 'an unknown date'}${snapshot.commit ? ` (${snapshot.commit.substring(0, 7)})` : ''}: ${rules.length} rules`);
+        return rules;
+    }
+}
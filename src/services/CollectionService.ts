@@ -0,0 +1,300 @@
+import {
+    CursorRule,
+    MdcRuleSettings,
+    RuleCollection,
+    RuleCollectionRule,
+    RuleCollectionWorkspace,
+    RuleCollectionPreset,
+    RuleImportCandidate,
+    RulePreset,
+    RULE_COLLECTION_SCHEMA_VERSION,
+    MDC_RULE_TYPE_LABELS
+} from '../types';
+
+// Builds, validates and reads versioned rule collections (see resources/schemas/rule-collection.schema.json)
+export class CollectionService {
+    private readonly EXPORTED_BY = 'SolidRules Extension';
+
+    createCollection(
+        rules: ReadonlyArray<CursorRule>,
+        workspaces: ReadonlyArray<RuleCollectionWorkspace>,
+        name?: string,
+        presets: ReadonlyArray<RulePreset> = []
+    ): RuleCollection {
+        const includedIds = new Set(rules.map(rule => rule.id));
+        const collectionPresets: RuleCollectionPreset[] = presets.map(preset => ({
+            name: preset.name,
+            ...(preset.description && { description: preset.description }),
+            ruleIds: preset.ruleIds.filter(ruleId => includedIds.has(ruleId))
+        }));
+
+        return {
+            schemaVersion: RULE_COLLECTION_SCHEMA_VERSION,
+            ...(name && { name }),
+            exportedAt: new Date().toISOString(),
+            exportedBy: this.EXPORTED_BY,
+            rules: rules.map(rule => this.toCollectionRule(rule)),
+            favorites: rules.filter(rule => rule.isFavorite).map(rule => rule.id),
+            workspaces,
+            ...(collectionPresets.length > 0 && { presets: collectionPresets })
+        };
+    }
+
+    private toCollectionRule(rule: CursorRule): RuleCollectionRule {
+        return {
+            id: rule.id,
+            name: rule.name,
+            description: rule.description,
+            content: rule.content,
+            technologies: rule.technologies,
+            tags: rule.tags,
+            category: rule.category,
+            isCustom: rule.isCustom,
+            ...(rule.githubPath && { githubPath: rule.githubPath }),
+            ...(rule.sourceId && { sourceId: rule.sourceId }),
+            ...(rule.format && { format: rule.format }),
+            ...(rule.globs && { globs: rule.globs }),
+            ...(rule.alwaysApply !== undefined && { alwaysApply: rule.alwaysApply }),
+            ...(rule.mdcSettings && { mdcSettings: rule.mdcSettings }),
+            ...(rule.version && { version: rule.version }),
+            createdAt: rule.createdAt.toISOString(),
+            ...(rule.lastUpdated && { lastUpdated: rule.lastUpdated.toISOString() })
+        };
+    }
+
+    stringify(collection: RuleCollection): string {
+        return JSON.stringify(collection, null, 2);
+    }
+
+    // Parse and validate a collection; exports from before schemaVersion existed are upgraded
+    parseCollection(text: string): RuleCollection {
+        let data: any;
+        try {
+            data = JSON.parse(text);
+        } catch (error) {
+            throw new Error(`Rule collection is not valid JSON: ${error}`);
+        }
+
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+            throw new Error('Rule collection must be a JSON object');
+        }
+
+        if (data.schemaVersion === undefined && Array.isArray(data.rules)) {
+            console.log('📦 Upgrading legacy rule export to a versioned collection');
+            data = this.migrateLegacyExport(data);
+        }
+
+        if (typeof data.schemaVersion !== 'number') {
+            throw new Error('Rule collection has no schemaVersion');
+        }
+        if (data.schemaVersion > RULE_COLLECTION_SCHEMA_VERSION) {
+            throw new Error(`Rule collection uses schema version ${data.schemaVersion}; this version of SolidRules supports up to ${RULE_COLLECTION_SCHEMA_VERSION}. Please update the extension.`);
+        }
+
+        const errors = this.validate(data);
+        if (errors.length > 0) {
+            const shown = errors.slice(0, 5).join('; ');
+            throw new Error(`Invalid rule collection: ${shown}${errors.length > 5 ? ` (and ${errors.length - 5} more)` : ''}`);
+        }
+
+        return data as RuleCollection;
+    }
+
+    // {exportedAt, exportedBy, rules} written by the old exportRules(); favorites came from the rules themselves
+    private migrateLegacyExport(data: any): any {
+        const rules = data.rules.map((rule: any) => {
+            if (!rule || typeof rule !== 'object') {
+                return rule;
+            }
+            const { isActive: _isActive, isFavorite: _isFavorite, ...rest } = rule;
+            return rest;
+        });
+
+        return {
+            schemaVersion: 1,
+            exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : new Date().toISOString(),
+            exportedBy: typeof data.exportedBy === 'string' ? data.exportedBy : this.EXPORTED_BY,
+            rules,
+            favorites: data.rules.filter((rule: any) => rule?.isFavorite === true && typeof rule.id === 'string').map((rule: any) => rule.id),
+            workspaces: []
+        };
+    }
+
+    // Mirrors resources/schemas/rule-collection.schema.json; returns one message per problem with its JSON path
+    private validate(data: any): string[] {
+        const errors: string[] = [];
+        const isString = (value: unknown) => typeof value === 'string';
+        const isStringArray = (value: unknown) => Array.isArray(value) && value.every(isString);
+        const optional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+        if (!optional(data.name, isString)) {
+            errors.push('name must be a string');
+        }
+        if (!isString(data.exportedAt)) {
+            errors.push('exportedAt must be a string');
+        }
+        if (!Array.isArray(data.rules)) {
+            errors.push('rules must be an array');
+        }
+        if (!isStringArray(data.favorites)) {
+            errors.push('favorites must be an array of rule ids');
+        }
+        if (!Array.isArray(data.workspaces)) {
+            errors.push('workspaces must be an array');
+        }
+        if (!optional(data.presets, Array.isArray)) {
+            errors.push('presets must be an array');
+        }
+
+        const ruleIds = new Set<string>();
+        (Array.isArray(data.rules) ? data.rules : []).forEach((rule: any, index: number) => {
+            const at = `rules[${index}]`;
+            if (!rule || typeof rule !== 'object') {
+                errors.push(`${at} must be an object`);
+                return;
+            }
+            for (const key of ['id', 'name', 'description', 'content', 'category']) {
+                if (!isString(rule[key])) {
+                    errors.push(`${at}.${key} must be a string`);
+                }
+            }
+            if (isString(rule.id)) {
+                if (ruleIds.has(rule.id)) {
+                    errors.push(`${at}.id "${rule.id}" is duplicated`);
+                }
+                ruleIds.add(rule.id);
+            }
+            if (!isStringArray(rule.technologies)) {
+                errors.push(`${at}.technologies must be an array of strings`);
+            }
+            if (!isStringArray(rule.tags)) {
+                errors.push(`${at}.tags must be an array of strings`);
+            }
+            if (typeof rule.isCustom !== 'boolean') {
+                errors.push(`${at}.isCustom must be a boolean`);
+            }
+            if (!optional(rule.format, value => value === 'directory' || value === 'file')) {
+                errors.push(`${at}.format must be "directory" or "file"`);
+            }
+            if (!optional(rule.alwaysApply, value => typeof value === 'boolean')) {
+                errors.push(`${at}.alwaysApply must be a boolean`);
+            }
+            if (!optional(rule.mdcSettings, value => this.isRuleSettings(value))) {
+                errors.push(`${at}.mdcSettings is not a valid rule type`);
+            }
+            for (const key of ['githubPath', 'sourceId', 'globs', 'version', 'createdAt', 'lastUpdated']) {
+                if (!optional(rule[key], isString)) {
+                    errors.push(`${at}.${key} must be a string`);
+                }
+            }
+        });
+
+        (Array.isArray(data.workspaces) ? data.workspaces : []).forEach((workspace: any, index: number) => {
+            const at = `workspaces[${index}]`;
+            if (!workspace || typeof workspace !== 'object') {
+                errors.push(`${at} must be an object`);
+                return;
+            }
+            if (!isString(workspace.name) || !workspace.name) {
+                errors.push(`${at}.name must be a non-empty string`);
+            }
+            if (!isStringArray(workspace.activeRules)) {
+                errors.push(`${at}.activeRules must be an array of rule ids`);
+            }
+            if (workspace.ruleSettings !== undefined) {
+                if (!workspace.ruleSettings || typeof workspace.ruleSettings !== 'object' || Array.isArray(workspace.ruleSettings)) {
+                    errors.push(`${at}.ruleSettings must be an object`);
+                } else {
+                    for (const [ruleId, settings] of Object.entries(workspace.ruleSettings)) {
+                        if (!this.isRuleSettings(settings)) {
+                            errors.push(`${at}.ruleSettings["${ruleId}"] is not a valid rule type`);
+                        }
+                    }
+                }
+            }
+        });
+
+        (Array.isArray(data.presets) ? data.presets : []).forEach((preset: any, index: number) => {
+            const at = `presets[${index}]`;
+            if (!preset || typeof preset !== 'object') {
+                errors.push(`${at} must be an object`);
+                return;
+            }
+            if (!isString(preset.name) || !preset.name) {
+                errors.push(`${at}.name must be a non-empty string`);
+            }
+            if (!optional(preset.description, isString)) {
+                errors.push(`${at}.description must be a string`);
+            }
+            if (!isStringArray(preset.ruleIds)) {
+                errors.push(`${at}.ruleIds must be an array of rule ids`);
+            }
+        });
+
+        return errors;
+    }
+
+    private isRuleSettings(value: any): value is MdcRuleSettings {
+        return Boolean(value)
+            && typeof value === 'object'
+            && typeof value.ruleType === 'string'
+            && Object.keys(MDC_RULE_TYPE_LABELS).includes(value.ruleType)
+            && (value.globs === undefined || typeof value.globs === 'string')
+            && (value.description === undefined || typeof value.description === 'string');
+    }
+
+    // Library rules (fetched from a GitHub source) are restored as-is so they refresh like any other
+    isLibraryRule(rule: RuleCollectionRule): boolean {
+        return !rule.isCustom && Boolean(rule.githubPath);
+    }
+
+    toLibraryRule(rule: RuleCollectionRule): CursorRule {
+        return {
+            id: rule.id,
+            name: rule.name,
+            description: rule.description,
+            content: rule.content,
+            technologies: [...rule.technologies],
+            tags: [...rule.tags],
+            category: rule.category,
+            isActive: false,
+            isFavorite: false,
+            isCustom: false,
+            ...(rule.githubPath && { githubPath: rule.githubPath }),
+            ...(rule.sourceId && { sourceId: rule.sourceId }),
+            ...(rule.format && { format: rule.format }),
+            ...(rule.globs && { globs: rule.globs }),
+            ...(rule.alwaysApply !== undefined && { alwaysApply: rule.alwaysApply }),
+            ...(rule.mdcSettings && { mdcSettings: rule.mdcSettings }),
+            ...(rule.version && { version: rule.version }),
+            createdAt: this.parseDate(rule.createdAt) || new Date(),
+            ...(this.parseDate(rule.lastUpdated) && { lastUpdated: this.parseDate(rule.lastUpdated)! })
+        };
+    }
+
+    // Custom rules, and rules from local folders that do not exist on the importing machine, become custom rules
+    toImportCandidate(rule: RuleCollectionRule, sourcePath: string): RuleImportCandidate {
+        return {
+            name: rule.name,
+            description: rule.description,
+            content: rule.content,
+            technologies: rule.technologies,
+            tags: rule.tags,
+            category: rule.category,
+            globs: rule.globs,
+            alwaysApply: rule.alwaysApply,
+            mdcSettings: rule.mdcSettings,
+            createdAt: this.parseDate(rule.createdAt),
+            originalId: rule.id,
+            sourcePath
+        };
+    }
+
+    private parseDate(value: string | undefined): Date | undefined {
+        if (!value) {
+            return undefined;
+        }
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? undefined : date;
+    }
+}
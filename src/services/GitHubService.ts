@@ -1,21 +1,34 @@
 import { Octokit } from '@octokit/rest';
 import * as vscode from 'vscode';
-import { GitHubRuleInfo, CursorRule } from '../types';
+import { GitHubRuleInfo, GitHubRuleFiles, CursorRule, RuleFormat, RuleSource, RuleSourcePath, DEFAULT_RULE_SOURCE } from '../types';
+import { formatRuleName, parseRuleName, parseTechnologiesFromPath, getCategoryFromTechnologies, generateTagsFromPath } from '../utils/ruleMetadata';
+import { extractRuleFrontmatter } from '../utils/mdc';
+import { extractTarGz, gitBlobSha } from '../utils/tar';
 
 export class GitHubService {
     private octokit!: Octokit;
-    private readonly REPO_OWNER = 'PatrickJS';
-    private readonly REPO_NAME = 'awesome-cursorrules';
-    private readonly RULES_PATHS = [
-        { path: 'rules', format: 'directory' },      // Old format: directories with .cursorrules
-        { path: 'rules-new', format: 'file' }       // New format: direct .mdc files
-    ];
+    // Above this many blob requests a refresh downloads the source archive instead
+    private readonly MAX_BLOB_REQUESTS = 20;
 
     // Secure token storage using VSCode SecretStorage API
     private readonly TOKEN_SECRET_KEY = 'solidrules.github.token';
+    private readonly TOKEN_SETUP_SKIPPED_KEY = 'solidrules.tokenSetupSkipped';
+
+    // Fires when the token is stored or removed, including by the token setup view
+    private _onDidChangeToken = new vscode.EventEmitter<void>();
+    public readonly onDidChangeToken = this._onDidChangeToken.event;
 
     constructor(private context: vscode.ExtensionContext) {
         this.initializeOctokit();
+        this.context.subscriptions.push(
+            this._onDidChangeToken,
+            this.context.secrets.onDidChange(async (event) => {
+                if (event.key === this.TOKEN_SECRET_KEY) {
+                    await this.initializeOctokit();
+                    this._onDidChangeToken.fire();
+                }
+            })
+        );
     }
 
     private async initializeOctokit(): Promise<void> {
@@ -109,77 +122,87 @@ export class GitHubService {
         }
     }
 
-    async fetchRulesList(): Promise<GitHubRuleInfo[]> {
-        try {
-            console.log(`📡 Fetching rules list from ${this.REPO_OWNER}/${this.REPO_NAME}...`);
-            
-            const allRules: GitHubRuleInfo[] = [];
-            
-            // Parse both rules directories with different formats
-            for (const rulesConfig of this.RULES_PATHS) {
-                try {
-                    console.log(`📁 Processing directory: ${rulesConfig.path} (format: ${rulesConfig.format})`);
-                    
-                    const response = await this.octokit.repos.getContent({
-                        owner: this.REPO_OWNER,
-                        repo: this.REPO_NAME,
-                        path: rulesConfig.path
-                    });
+    // Anonymous mode was chosen explicitly, so the token setup view is no longer shown
+    isTokenSetupSkipped(): boolean {
+        return this.context.globalState.get<boolean>(this.TOKEN_SETUP_SKIPPED_KEY, false);
+    }
 
-                    if (Array.isArray(response.data)) {
-                        const allItems = response.data;
-                        let rules: GitHubRuleInfo[] = [];
-                        
-                        if (rulesConfig.format === 'directory') {
-                            // Old format: filter directories
-                            const directories = allItems.filter(item => item.type === 'dir');
-                            console.log(`📊 Directory ${rulesConfig.path}: ${allItems.length} total items, ${directories.length} rule directories`);
-                            
-                            rules = directories.map(item => ({
-                                path: item.path,
-                                name: item.name,
-                                sha: item.sha,
-                                size: item.size || 0,
-                                download_url: item.download_url || '',
-                                type: item.type as 'file' | 'dir',
-                                format: 'directory'
-                            }));
-                        } else if (rulesConfig.format === 'file') {
-                            // New format: filter .mdc files
-                            const mdcFiles = allItems.filter(item => 
-                                item.type === 'file' && item.name.endsWith('.mdc')
-                            );
-                            console.log(`📊 Directory ${rulesConfig.path}: ${allItems.length} total items, ${mdcFiles.length} .mdc rule files`);
-                            
-                            rules = mdcFiles.map(item => ({
-                                path: item.path,
-                                name: item.name.replace('.mdc', ''), // Remove .mdc extension for display
-                                sha: item.sha,
-                                size: item.size || 0,
-                                download_url: item.download_url || '',
-                                type: item.type as 'file' | 'dir',
-                                format: 'file'
-                            }));
-                        }
-                        
-                        allRules.push(...rules);
-                        console.log(`✅ Successfully parsed ${rules.length} rules from ${rulesConfig.path}`);
-                    } else {
-                        console.warn(`⚠️ Directory ${rulesConfig.path}: GitHub API response is not an array`);
-                    }
-                } catch (error: any) {
-                    // Enhanced error handling with specific error types
-                    if (error.status === 404) {
-                        console.warn(`⚠️ Directory ${rulesConfig.path} not found in repository`);
-                    } else if (error.status === 403 && error.message?.includes('rate limit')) {
-                        console.error(`❌ GitHub API rate limit exceeded for directory ${rulesConfig.path}`);
-                        throw new Error('GitHub API rate limit exceeded. Please wait a few minutes before trying again.');
-                    } else {
-                        console.error(`❌ Error processing directory ${rulesConfig.path}:`, error);
-                        throw new Error(`Failed to process rules directory: ${error.message || error}`);
-                    }
-                }
+    async setTokenSetupSkipped(skipped: boolean): Promise<void> {
+        await this.context.globalState.update(this.TOKEN_SETUP_SKIPPED_KEY, skipped);
+    }
+
+    // Core API quota of the current token (or of this machine's IP without one); checking it costs no quota
+    async getRateLimit(): Promise<{ limit: number; remaining: number; reset: Date }> {
+        const response = await this.octokit.rateLimit.get();
+        const core = response.data.resources.core;
+        return { limit: core.limit, remaining: core.remaining, reset: new Date(core.reset * 1000) };
+    }
+
+    // Rule sources from settings (awesome-cursorrules by default, an empty list disables GitHub sources)
+    getRuleSources(): RuleSource[] {
+        const config = vscode.workspace.getConfiguration('solidrules');
+        const configured = config.get<any[]>('ruleSources', []);
+        
+        const sources: RuleSource[] = [];
+        for (const entry of configured) {
+            if (!entry || typeof entry.owner !== 'string' || typeof entry.repo !== 'string' || !entry.owner || !entry.repo) {
+                console.warn('⚠️ Ignoring invalid rule source:', entry);
+                continue;
+            }
+
+            const paths: RuleSourcePath[] = Array.isArray(entry.paths)
+                ? entry.paths.filter((p: any) => p && typeof p.path === 'string' && (p.format === 'directory' || p.format === 'file'))
+                : [];
+            const id = typeof entry.id === 'string' && entry.id ? entry.id : `${entry.owner}/${entry.repo}`;
+
+            if (sources.some(source => source.id === id)) {
+                console.warn(`⚠️ Ignoring duplicate rule source: ${id}`);
+                continue;
+            }
+
+            sources.push({
+                id,
+                name: typeof entry.name === 'string' && entry.name ? entry.name : id,
+                owner: entry.owner,
+                repo: entry.repo,
+                ref: typeof entry.ref === 'string' && entry.ref ? entry.ref : undefined,
+                paths: paths.length > 0 ? paths : [{ path: '', format: 'directory' }]
+            });
+        }
+
+        return sources;
+    }
+
+    // Rules without a sourceId predate configurable sources and come from the default source
+    getRuleSource(sourceId?: string): RuleSource {
+        const id = sourceId || DEFAULT_RULE_SOURCE.id;
+        const source = this.getRuleSources().find(s => s.id === id);
+        if (source) {
+            return source;
+        }
+        if (id === DEFAULT_RULE_SOURCE.id) {
+            return DEFAULT_RULE_SOURCE;
+        }
+        throw new Error(`Rule source "${id}" is not configured`);
+    }
+
+    async fetchRulesList(source?: RuleSource): Promise<GitHubRuleInfo[]> {
+        if (!source) {
+            const allRules: GitHubRuleInfo[] = [];
+            for (const ruleSource of this.getRuleSources()) {
+                allRules.push(...await this.fetchRulesList(ruleSource));
             }
+            return allRules;
+        }
+
+        try {
+            console.log(`📡 Fetching rules list from ${source.owner}/${source.repo}${source.ref ? `@${source.ref}` : ''}...`);
+            
+            // One recursive tree listing covers every rules path; very large repositories fall back to folder listings
+            const tree = await this.fetchSourceTree(source);
+            const allRules = tree
+                ? this.parseRulesFromTree(source, tree)
+                : await this.fetchRulesFromContents(source);
             
             // Remove duplicates based on rule name (in case same rule exists in both directories)
             const uniqueRules = allRules.filter((rule, index, self) => 
@@ -190,7 +213,7 @@ export class GitHubService {
                 console.log(`🔄 Removed ${allRules.length - uniqueRules.length} duplicate rules`);
             }
             
-            console.log(`✅ Total rules found: ${uniqueRules.length} (from ${this.RULES_PATHS.map(p => p.path).join(', ')})`);
+            console.log(`✅ Total rules found in ${source.id}: ${uniqueRules.length} (from ${source.paths.map(p => p.path).join(', ')})`);
             
             // Log some examples for debugging
             if (uniqueRules.length > 0) {
@@ -208,38 +231,346 @@ export class GitHubService {
             } else if (error.status === 401) {
                 throw new Error('GitHub authentication failed. Please check your token and try again.');
             } else if (error.status === 404) {
-                throw new Error('GitHub repository not found. Please check the repository configuration.');
+                throw new Error(`GitHub repository ${source.owner}/${source.repo} not found. Please check the rule source configuration.`);
             }
             
-            throw new Error(`Failed to fetch rules from GitHub: ${error.message || error}`);
+            throw new Error(`Failed to fetch rules from ${source.id}: ${error.message || error}`);
         }
     }
 
-    async fetchRuleContent(rulePath: string, format?: string): Promise<string> {
+    // Every path of the source ref from one recursive tree listing; null when GitHub truncates the listing
+    private async fetchSourceTree(source: RuleSource): Promise<Map<string, { type: string; sha: string }> | null> {
         try {
-            let contentPath: string;
-            
-            // Determine content path based on format
-            if (format === 'file') {
-                // New format: direct .mdc file - path already includes .mdc extension
-                contentPath = rulePath;
-            } else {
-                // Old format: .cursorrules file in directory
-                contentPath = `${rulePath}/.cursorrules`;
+            const response = await this.octokit.git.getTree({
+                owner: source.owner,
+                repo: source.repo,
+                tree_sha: source.ref || 'HEAD',
+                recursive: 'true'
+            });
+            if (response.data.truncated) {
+                console.warn(`⚠️ Tree listing for ${source.id} was truncated, listing rule folders instead`);
+                return null;
+            }
+
+            const tree = new Map<string, { type: string; sha: string }>();
+            for (const item of response.data.tree) {
+                if (item.path && item.type && item.sha) {
+                    tree.set(item.path, { type: item.type, sha: item.sha });
+                }
+            }
+            console.log(`🌳 Tree listing for ${source.id}: ${tree.size} entries`);
+            return tree;
+        } catch (error: any) {
+            if (error.status === 401 || error.status === 404 || error.message?.includes('rate limit')) {
+                throw error;
+            }
+            console.warn(`⚠️ Tree listing for ${source.id} failed, listing rule folders instead:`, error);
+            return null;
+        }
+    }
+
+    private parseRulesFromTree(source: RuleSource, tree: ReadonlyMap<string, { type: string; sha: string }>): GitHubRuleInfo[] {
+        const allRules: GitHubRuleInfo[] = [];
+
+        // Parse every configured rules path with its own format
+        for (const rulesConfig of source.paths) {
+            const prefix = rulesConfig.path ? `${rulesConfig.path}/` : '';
+            if (rulesConfig.path && tree.get(rulesConfig.path)?.type !== 'tree') {
+                console.warn(`⚠️ Directory ${rulesConfig.path} not found in repository`);
+                continue;
+            }
+
+            const rules: GitHubRuleInfo[] = [];
+            for (const [itemPath, item] of tree) {
+                const name = itemPath.startsWith(prefix) ? itemPath.slice(prefix.length) : '';
+                if (!name || name.includes('/')) {
+                    continue;
+                }
+
+                if (rulesConfig.format === 'directory' && item.type === 'tree') {
+                    // Folders without a .cursorrules file are not rules
+                    const content = tree.get(`${itemPath}/.cursorrules`);
+                    if (!content) {
+                        continue;
+                    }
+                    const readme = tree.get(`${itemPath}/README.md`);
+                    rules.push({
+                        path: itemPath,
+                        name,
+                        sha: item.sha,
+                        contentSha: content.sha,
+                        ...(readme && { readmeSha: readme.sha }),
+                        size: 0,
+                        download_url: '',
+                        type: 'dir',
+                        format: 'directory',
+                        sourceId: source.id
+                    });
+                } else if (rulesConfig.format === 'file' && item.type === 'blob' && name.endsWith('.mdc')) {
+                    rules.push({
+                        path: itemPath,
+                        name: name.replace('.mdc', ''), // Remove .mdc extension for display
+                        sha: item.sha,
+                        contentSha: item.sha,
+                        size: 0,
+                        download_url: '',
+                        type: 'file',
+                        format: 'file',
+                        sourceId: source.id
+                    });
+                }
+            }
+
+            allRules.push(...rules);
+            console.log(`✅ Successfully parsed ${rules.length} rules from ${rulesConfig.path || source.id}`);
+        }
+
+        return allRules;
+    }
+
+    // Content (and README) of many rules of one source, keyed by rule path: one tarball download when many
+    // rules changed, individual blob fetches when only a few did. Rules that cannot be read are left out
+    async fetchRuleFiles(rules: GitHubRuleInfo[], source: RuleSource): Promise<Map<string, GitHubRuleFiles>> {
+        const requestCount = rules.reduce((count, rule) => count + 1 + (rule.readmeSha ? 1 : 0), 0);
+        if (requestCount > this.MAX_BLOB_REQUESTS) {
+            return this.fetchRuleFilesFromTarball(rules, source);
+        }
+
+        const files = new Map<string, GitHubRuleFiles>();
+        for (const rule of rules) {
+            try {
+                const { content, sha } = rule.contentSha
+                    ? { content: await this.fetchBlob(rule.contentSha, source), sha: rule.contentSha }
+                    : await this.fetchRuleContent(rule.path, rule.format, source);
+                const readme = rule.readmeSha ? await this.fetchBlob(rule.readmeSha, source) : undefined;
+                files.set(rule.path, { content, contentSha: sha, ...(readme !== undefined && { readme }) });
+            } catch (error: any) {
+                if (error.message?.includes('rate limit')) {
+                    throw error;
+                }
+                console.error(`❌ Failed to fetch ${rule.path}:`, error);
+            }
+        }
+        return files;
+    }
+
+    private async fetchBlob(sha: string, source: RuleSource): Promise<string> {
+        const response = await this.octokit.git.getBlob({
+            owner: source.owner,
+            repo: source.repo,
+            file_sha: sha
+        });
+        return Buffer.from(response.data.content, response.data.encoding === 'base64' ? 'base64' : 'utf-8').toString('utf-8');
+    }
+
+    private async fetchRuleFilesFromTarball(rules: GitHubRuleInfo[], source: RuleSource): Promise<Map<string, GitHubRuleFiles>> {
+        console.log(`📦 Downloading ${source.id} archive for ${rules.length} rules...`);
+        const response = await this.octokit.repos.downloadTarballArchive({
+            owner: source.owner,
+            repo: source.repo,
+            ref: source.ref || 'HEAD'
+        });
+
+        const wanted = new Set<string>();
+        for (const rule of rules) {
+            wanted.add(this.getContentPath(rule.path, rule.format));
+            if (rule.format !== 'file') {
+                wanted.add(`${rule.path}/README.md`);
+            }
+        }
+        const archive = extractTarGz(Buffer.from(response.data as ArrayBuffer), filePath => wanted.has(filePath));
+
+        const files = new Map<string, GitHubRuleFiles>();
+        for (const rule of rules) {
+            const content = archive.get(this.getContentPath(rule.path, rule.format));
+            if (!content) {
+                console.warn(`⚠️ ${rule.path} is missing from the ${source.id} archive`);
+                continue;
+            }
+            const readme = rule.format !== 'file' ? archive.get(`${rule.path}/README.md`) : undefined;
+            files.set(rule.path, {
+                content: content.toString('utf-8'),
+                // The archive may be newer than the listing, so hash what was actually downloaded
+                contentSha: gitBlobSha(content),
+                ...(readme && { readme: readme.toString('utf-8') })
+            });
+        }
+        console.log(`✅ Read ${files.size}/${rules.length} rules from the ${source.id} archive`);
+        return files;
+    }
+
+    // Folder-by-folder listing through the contents API, used when the tree listing is unavailable
+    private async fetchRulesFromContents(source: RuleSource): Promise<GitHubRuleInfo[]> {
+        const allRules: GitHubRuleInfo[] = [];
+        
+        // Parse every configured rules path with its own format
+        for (const rulesConfig of source.paths) {
+            try {
+                console.log(`📁 Processing directory: ${rulesConfig.path} (format: ${rulesConfig.format})`);
+                
+                const response = await this.octokit.repos.getContent({
+                    owner: source.owner,
+                    repo: source.repo,
+                    path: rulesConfig.path,
+                    ...(source.ref && { ref: source.ref })
+                });
+
+                if (Array.isArray(response.data)) {
+                    const allItems = response.data;
+                    let rules: GitHubRuleInfo[] = [];
+                    
+                    if (rulesConfig.format === 'directory') {
+                        // Old format: filter directories
+                        const directories = allItems.filter(item => item.type === 'dir');
+                        console.log(`📊 Directory ${rulesConfig.path}: ${allItems.length} total items, ${directories.length} rule directories`);
+                        
+                        // Directory shas change with any file in the folder; versions track the .cursorrules blob
+                        const contentShas = directories.length > 0
+                            ? await this.fetchCursorrulesShas(source, rulesConfig.path)
+                            : new Map<string, string>();
+                        
+                        rules = directories.map(item => ({
+                            path: item.path,
+                            name: item.name,
+                            sha: item.sha,
+                            ...(contentShas.has(item.path) && { contentSha: contentShas.get(item.path)! }),
+                            size: item.size || 0,
+                            download_url: item.download_url || '',
+                            type: item.type as 'file' | 'dir',
+                            format: 'directory',
+                            sourceId: source.id
+                        }));
+                    } else if (rulesConfig.format === 'file') {
+                        // New format: filter .mdc files
+                        const mdcFiles = allItems.filter(item => 
+                            item.type === 'file' && item.name.endsWith('.mdc')
+                        );
+                        console.log(`📊 Directory ${rulesConfig.path}: ${allItems.length} total items, ${mdcFiles.length} .mdc rule files`);
+                        
+                        rules = mdcFiles.map(item => ({
+                            path: item.path,
+                            name: item.name.replace('.mdc', ''), // Remove .mdc extension for display
+                            sha: item.sha,
+                            contentSha: item.sha,
+                            size: item.size || 0,
+                            download_url: item.download_url || '',
+                            type: item.type as 'file' | 'dir',
+                            format: 'file',
+                            sourceId: source.id
+                        }));
+                    }
+                    
+                    allRules.push(...rules);
+                    console.log(`✅ Successfully parsed ${rules.length} rules from ${rulesConfig.path}`);
+                } else {
+                    console.warn(`⚠️ Directory ${rulesConfig.path}: GitHub API response is not an array`);
+                }
+            } catch (error: any) {
+                // Enhanced error handling with specific error types
+                if (error.status === 404) {
+                    console.warn(`⚠️ Directory ${rulesConfig.path} not found in repository`);
+                } else if (error.status === 403 && error.message?.includes('rate limit')) {
+                    console.error(`❌ GitHub API rate limit exceeded for directory ${rulesConfig.path}`);
+                    throw new Error('GitHub API rate limit exceeded. Please wait a few minutes before trying again.');
+                } else {
+                    console.error(`❌ Error processing directory ${rulesConfig.path}:`, error);
+                    throw new Error(`Failed to process rules directory: ${error.message || error}`);
+                }
+            }
+        }
+        return allRules;
+    }
+
+    // Blob sha of every <rulesPath>/<rule>/.cursorrules, read from one recursive tree listing
+    private async fetchCursorrulesShas(source: RuleSource, rulesPath: string): Promise<Map<string, string>> {
+        const shas = new Map<string, string>();
+        try {
+            let treeSha = source.ref || 'HEAD';
+            if (rulesPath) {
+                // The contents API only gives a folder's tree sha through its parent listing
+                const slash = rulesPath.lastIndexOf('/');
+                const parentPath = slash === -1 ? '' : rulesPath.slice(0, slash);
+                const parent = await this.octokit.repos.getContent({
+                    owner: source.owner,
+                    repo: source.repo,
+                    path: parentPath,
+                    ...(source.ref && { ref: source.ref })
+                });
+                const entry = Array.isArray(parent.data) ? parent.data.find(item => item.path === rulesPath) : undefined;
+                if (!entry) {
+                    return shas;
+                }
+                treeSha = entry.sha;
+            }
+
+            const response = await this.octokit.git.getTree({
+                owner: source.owner,
+                repo: source.repo,
+                tree_sha: treeSha,
+                recursive: 'true'
+            });
+            if (response.data.truncated) {
+                console.warn(`⚠️ Tree listing for ${rulesPath || source.id} was truncated, some rules will be refetched`);
+            }
+
+            const prefix = rulesPath ? `${rulesPath}/` : '';
+            for (const item of response.data.tree) {
+                const match = item.type === 'blob' && item.sha && item.path?.match(/^([^/]+)\/\.cursorrules$/);
+                if (match) {
+                    shas.set(`${prefix}${match[1]}`, item.sha!);
+                }
             }
+        } catch (error: any) {
+            if (error.status === 403 && error.message?.includes('rate limit')) {
+                throw error;
+            }
+            // Without content shas the rules are simply refetched
+            console.warn(`⚠️ Could not list .cursorrules shas for ${rulesPath || source.id}:`, error);
+        }
+        return shas;
+    }
+
+    // Rule info for fetching a single rule by path, e.g. a stored rule or a manifest entry
+    createRuleInfo(rulePath: string, format?: RuleFormat, sourceId?: string): GitHubRuleInfo {
+        if (!format) {
+            format = rulePath.endsWith('.mdc') ? 'file' : 'directory';
+        }
+        const baseName = rulePath.split('/').pop() || rulePath;
+        return {
+            path: rulePath,
+            name: format === 'file' ? baseName.replace('.mdc', '') : baseName,
+            sha: '',
+            size: 0,
+            download_url: '',
+            type: format === 'file' ? 'file' : 'dir',
+            format,
+            ...(sourceId && { sourceId })
+        };
+    }
+
+    private getContentPath(rulePath: string, format?: string): string {
+        // New format: direct .mdc file - path already includes .mdc extension
+        // Old format: .cursorrules file in directory
+        return format === 'file' ? rulePath : `${rulePath}/.cursorrules`;
+    }
+
+    async fetchRuleContent(rulePath: string, format?: string, source: RuleSource = DEFAULT_RULE_SOURCE): Promise<{ content: string; sha: string }> {
+        try {
+            const contentPath = this.getContentPath(rulePath, format);
             
             console.log(`📄 Fetching content from: ${contentPath} (format: ${format})`);
             
             const response = await this.octokit.repos.getContent({
-                owner: this.REPO_OWNER,
-                repo: this.REPO_NAME,
-                path: contentPath
+                owner: source.owner,
+                repo: source.repo,
+                path: contentPath,
+                ...(source.ref && { ref: source.ref })
             });
 
             if (!Array.isArray(response.data) && response.data.type === 'file') {
                 const content = Buffer.from(response.data.content, 'base64').toString('utf-8');
                 console.log(`✅ Successfully fetched content for ${contentPath} (${content.length} chars)`);
-                return content;
+                return { content, sha: response.data.sha };
             }
             throw new Error('Rule content not found');
         } catch (error: any) {
@@ -256,168 +587,150 @@ export class GitHubService {
         }
     }
 
-    async fetchRuleMetadata(rulePath: string): Promise<{ description: string; technologies: string[] }> {
+    async fetchRuleMetadata(rulePath: string, source: RuleSource = DEFAULT_RULE_SOURCE): Promise<{ description: string; technologies: string[] }> {
         try {
             // Try to fetch README.md from the rule directory
             let description = '';
             try {
                 const readmeResponse = await this.octokit.repos.getContent({
-                    owner: this.REPO_OWNER,
-                    repo: this.REPO_NAME,
-                    path: `${rulePath}/README.md`
+                    owner: source.owner,
+                    repo: source.repo,
+                    path: `${rulePath}/README.md`,
+                    ...(source.ref && { ref: source.ref })
                 });
 
                 if (!Array.isArray(readmeResponse.data) && readmeResponse.data.type === 'file') {
-                    description = Buffer.from(readmeResponse.data.content, 'base64').toString('utf-8');
-                    // Extract first paragraph as description
-                    const firstParagraph = description.split('\n').find(line => line.trim() && !line.startsWith('#'));
-                    description = firstParagraph || '';
+                    description = this.describeReadme(Buffer.from(readmeResponse.data.content, 'base64').toString('utf-8'));
                 }
             } catch {
                 // README not found, use rule name as description
-                description = this.parseRuleName(rulePath).join(', ');
+                description = parseRuleName(rulePath).join(', ');
             }
 
-            const technologies = this.parseTechnologiesFromPath(rulePath);
+            const technologies = parseTechnologiesFromPath(rulePath);
             
             return { description, technologies };
         } catch (error) {
             console.error(`Error fetching metadata for ${rulePath}:`, error);
             return { 
-                description: this.parseRuleName(rulePath).join(', '), 
-                technologies: this.parseTechnologiesFromPath(rulePath) 
+                description: parseRuleName(rulePath).join(', '), 
+                technologies: parseTechnologiesFromPath(rulePath) 
             };
         }
     }
 
+    // Extract first paragraph as description
+    private describeReadme(readme: string): string {
+        return readme.split('\n').find(line => line.trim() && !line.startsWith('#')) || '';
+    }
+
+    // With a contentSha the rule is built from that blob (e.g. a version pinned in a team manifest)
+    // instead of the content at the source's ref
     async createCursorRuleFromGitHub(ruleInfo: GitHubRuleInfo): Promise<CursorRule> {
         try {
+            const source = this.getRuleSource(ruleInfo.sourceId);
+            const contentSha = ruleInfo.contentSha;
+
             // Fetch content and metadata in parallel for better performance
-            const [content, { description, technologies }] = await Promise.all([
-                this.fetchRuleContent(ruleInfo.path, ruleInfo.format),
-                this.fetchRuleMetadata(ruleInfo.path)
+            const [{ content, sha }, { description }] = await Promise.all([
+                contentSha
+                    ? this.fetchBlob(contentSha, source).then(content => ({ content, sha: contentSha }))
+                    : this.fetchRuleContent(ruleInfo.path, ruleInfo.format, source),
+                this.fetchRuleMetadata(ruleInfo.path, source)
             ]);
             
-            const ruleId = this.generateRuleId(ruleInfo.path);
-            const category = this.getCategoryFromTechnologies(technologies);
-            const tags = this.generateTagsFromPath(ruleInfo.path);
-
-            return {
-                id: ruleId,
-                name: this.formatRuleName(ruleInfo.name),
-                description,
-                content,
-                technologies,
-                tags,
-                category,
-                isActive: false,
-                isFavorite: false,
-                isCustom: false,
-                githubPath: ruleInfo.path,
-                createdAt: new Date(),
-                lastUpdated: new Date()
-            };
+            return this.buildCursorRule(ruleInfo, source.id, content, sha, description);
         } catch (error) {
             console.error(`Error creating rule from GitHub data:`, error);
             throw error;
         }
     }
 
-    private generateRuleId(path: string): string {
-        return path.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase();
+    // Same as createCursorRuleFromGitHub, for files already fetched by fetchRuleFiles
+    createCursorRuleFromFiles(ruleInfo: GitHubRuleInfo, files: GitHubRuleFiles): CursorRule {
+        const source = this.getRuleSource(ruleInfo.sourceId);
+        const description = files.readme !== undefined
+            ? this.describeReadme(files.readme)
+            : parseRuleName(ruleInfo.path).join(', ');
+        return this.buildCursorRule(ruleInfo, source.id, files.content, files.contentSha, description);
     }
 
-    private formatRuleName(name: string): string {
-        return name
-            .replace(/-/g, ' ')
-            .replace(/cursorrules|prompt|file/gi, '')
-            .replace(/\s+/g, ' ')
-            .trim()
-            .split(' ')
-            .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-            .join(' ');
-    }
+    private buildCursorRule(ruleInfo: GitHubRuleInfo, sourceId: string, content: string, sha: string, description: string): CursorRule {
+        const ruleId = this.generateRuleId(ruleInfo.path, sourceId);
+        const technologies = parseTechnologiesFromPath(ruleInfo.path);
+        const category = getCategoryFromTechnologies(technologies);
+        const tags = generateTagsFromPath(ruleInfo.path);
+        // rules-new/*.mdc files carry their own frontmatter; keep it as fields, not as part of the content
+        const frontmatter = extractRuleFrontmatter(content);
 
-    private parseRuleName(path: string): string[] {
-        const name = path.split('/').pop() || '';
-        return name.split('-').filter(part => 
-            !['cursorrules', 'prompt', 'file'].includes(part.toLowerCase())
-        );
+        return {
+            id: ruleId,
+            name: formatRuleName(ruleInfo.name),
+            description: frontmatter.description || description,
+            content: frontmatter.body,
+            technologies,
+            tags,
+            category,
+            isActive: false,
+            isFavorite: false,
+            isCustom: false,
+            githubPath: ruleInfo.path,
+            sourceId,
+            format: ruleInfo.format || 'directory',
+            version: sha,
+            ...(frontmatter.globs && { globs: frontmatter.globs }),
+            ...(frontmatter.alwaysApply !== undefined && { alwaysApply: frontmatter.alwaysApply }),
+            createdAt: new Date(),
+            lastUpdated: new Date()
+        };
     }
 
-    private parseTechnologiesFromPath(path: string): string[] {
-        const name = path.split('/').pop() || '';
-        const parts = name.split('-');
-        
-        const knownTechnologies = [
-            'react', 'vue', 'angular', 'svelte', 'next', 'nuxt', 'typescript', 'javascript',
-            'node', 'express', 'fastapi', 'django', 'flask', 'spring', 'laravel',
-            'go', 'rust', 'python', 'java', 'php', 'csharp', 'cpp',
-            'tailwind', 'css', 'sass', 'styled', 'material',
-            'mongodb', 'postgresql', 'mysql', 'sqlite', 'redis',
-            'docker', 'kubernetes', 'aws', 'azure', 'gcp',
-            'jest', 'cypress', 'playwright', 'testing'
-        ];
-
-        return parts.filter(part => 
-            knownTechnologies.some(tech => 
-                part.toLowerCase().includes(tech) || tech.includes(part.toLowerCase())
-            )
-        ).map(tech => tech.toLowerCase());
+    // Default-source ids stay path-based so rules stored before sources existed keep their id
+    generateRuleId(path: string, sourceId: string = DEFAULT_RULE_SOURCE.id): string {
+        const key = sourceId === DEFAULT_RULE_SOURCE.id ? path : `${sourceId}/${path}`;
+        return key.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase();
     }
 
-    private getCategoryFromTechnologies(technologies: string[]): string {
-        const categoryMap: Record<string, string[]> = {
-            'Frontend': ['react', 'vue', 'angular', 'svelte', 'next', 'nuxt', 'typescript', 'javascript'],
-            'Backend': ['node', 'express', 'fastapi', 'django', 'flask', 'spring', 'laravel', 'go', 'rust'],
-            'Mobile': ['react-native', 'flutter', 'ionic', 'xamarin'],
-            'Styling': ['tailwind', 'css', 'sass', 'styled', 'material'],
-            'Database': ['mongodb', 'postgresql', 'mysql', 'sqlite', 'redis'],
-            'DevOps': ['docker', 'kubernetes', 'aws', 'azure', 'gcp'],
-            'Testing': ['jest', 'cypress', 'playwright', 'testing']
-        };
+    // Latest content file sha per rule; pinned rules are never reported as updated
+    async checkForUpdates(currentRules: CursorRule[]): Promise<Map<string, { hasUpdate: boolean; latestVersion?: string }>> {
+        const updateMap = new Map<string, { hasUpdate: boolean; latestVersion?: string }>();
 
-        for (const [category, techs] of Object.entries(categoryMap)) {
-            if (technologies.some(tech => techs.includes(tech))) {
-                return category;
+        // Group rules by source so each repository is listed once
+        const rulesBySource = new Map<string, CursorRule[]>();
+        for (const rule of currentRules) {
+            if (rule.githubPath && !rule.isCustom && !rule.isPinned) {
+                const sourceId = rule.sourceId || DEFAULT_RULE_SOURCE.id;
+                if (!rulesBySource.has(sourceId)) {
+                    rulesBySource.set(sourceId, []);
+                }
+                rulesBySource.get(sourceId)!.push(rule);
             }
         }
 
-        return 'Other';
-    }
-
-    private generateTagsFromPath(path: string): string[] {
-        const name = path.split('/').pop() || '';
-        const parts = name.split('-');
-        
-        return parts
-            .filter(part => !['cursorrules', 'prompt', 'file'].includes(part.toLowerCase()))
-            .map(part => part.toLowerCase());
-    }
-
-    async checkForUpdates(currentRules: CursorRule[]): Promise<Map<string, boolean>> {
-        const updateMap = new Map<string, boolean>();
-        
-        try {
-            const latestRules = await this.fetchRulesList();
-            const latestRulesMap = new Map(
-                latestRules.map(rule => [this.generateRuleId(rule.path), rule.sha])
-            );
+        for (const [sourceId, rules] of rulesBySource) {
+            try {
+                const source = this.getRuleSource(sourceId);
+                const latestRules = await this.fetchRulesList(source);
+                const latestRulesMap = new Map(
+                    latestRules.map(rule => [this.generateRuleId(rule.path, source.id), rule.contentSha])
+                );
 
-            for (const rule of currentRules) {
-                if (rule.githubPath && !rule.isCustom) {
-                    const ruleId = this.generateRuleId(rule.githubPath);
+                for (const rule of rules) {
+                    const ruleId = this.generateRuleId(rule.githubPath!, source.id);
                     const latestSha = latestRulesMap.get(ruleId);
                     
-                    if (latestSha && rule.version !== latestSha) {
-                        updateMap.set(rule.id, true);
-                    } else {
-                        updateMap.set(rule.id, false);
-                    }
+                    updateMap.set(rule.id, {
+                        hasUpdate: Boolean(latestSha && rule.version !== latestSha),
+                        ...(latestSha && { latestVersion: latestSha })
+                    });
+                }
+            } catch (error: any) {
+                console.error(`Error checking for updates in ${sourceId}:`, error);
+                // Other sources would hit the same limit; let the caller back off
+                if (error.message?.includes('rate limit')) {
+                    throw error;
                 }
             }
-        } catch (error) {
-            console.error('Error checking for updates:', error);
         }
 
         return updateMap;
@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs/promises';
+import { Dirent } from 'fs';
+import { CursorRule, LocalRuleSource, LOCAL_SOURCE_PREFIX } from '../types';
+import { parseMdc, getString, getList, getBoolean } from '../utils/mdc';
+import { formatRuleName, parseRuleName, parseTechnologiesFromPath, getCategoryFromTechnologies, generateTagsFromPath } from '../utils/ruleMetadata';
+
+export class LocalRulesService {
+    private readonly IGNORED_DIRECTORIES = new Set(['.git', 'node_modules', '.cursor']);
+    private readonly MAX_DEPTH = 8; // Guard against deep trees on network shares
+    private readonly WATCH_DEBOUNCE = 500; // 500ms debounce for bursts of file events
+
+    // Local rule sources from settings; relative paths resolve against the first workspace folder
+    getLocalSources(): LocalRuleSource[] {
+        const config = vscode.workspace.getConfiguration('solidrules');
+        const configured = config.get<any[]>('localRuleSources', []);
+
+        const sources: LocalRuleSource[] = [];
+        for (const entry of configured) {
+            const rawPath = typeof entry === 'string' ? entry : entry?.path;
+            if (typeof rawPath !== 'string' || !rawPath.trim()) {
+                console.warn('⚠️ Ignoring invalid local rule source:', entry);
+                continue;
+            }
+
+            const resolvedPath = this.resolveSourcePath(rawPath.trim());
+            if (!resolvedPath) {
+                console.warn(`⚠️ Cannot resolve relative local rule source without a workspace: ${rawPath}`);
+                continue;
+            }
+
+            const key = typeof entry === 'object' && typeof entry.id === 'string' && entry.id ? entry.id : resolvedPath;
+            const id = `${LOCAL_SOURCE_PREFIX}${key}`;
+            if (sources.some(source => source.id === id)) {
+                console.warn(`⚠️ Ignoring duplicate local rule source: ${id}`);
+                continue;
+            }
+
+            sources.push({
+                id,
+                name: typeof entry === 'object' && typeof entry.name === 'string' && entry.name ? entry.name : path.basename(resolvedPath),
+                path: resolvedPath
+            });
+        }
+
+        return sources;
+    }
+
+    hasLocalSources(): boolean {
+        return this.getLocalSources().length > 0;
+    }
+
+    private resolveSourcePath(rawPath: string): string | null {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+        let resolved = rawPath;
+        if (resolved.includes('${workspaceFolder}')) {
+            if (!workspaceFolder) {
+                return null;
+            }
+            resolved = resolved.replace(/\$\{workspaceFolder\}/g, workspaceFolder);
+        }
+        if (resolved === '~' || resolved.startsWith('~/') || resolved.startsWith('~\\')) {
+            resolved = path.join(os.homedir(), resolved.slice(1));
+        }
+        if (!path.isAbsolute(resolved)) {
+            if (!workspaceFolder) {
+                return null;
+            }
+            resolved = path.join(workspaceFolder, resolved);
+        }
+
+        return path.normalize(resolved);
+    }
+
+    isRuleFile(fileName: string): boolean {
+        return fileName.endsWith('.mdc') || fileName.endsWith('.cursorrules');
+    }
+
+    // Index every rule file under a source folder
+    async indexSource(source: LocalRuleSource): Promise<CursorRule[]> {
+        try {
+            const stat = await fs.stat(source.path);
+            if (!stat.isDirectory()) {
+                throw new Error(`Not a directory: ${source.path}`);
+            }
+        } catch (error) {
+            console.error(`❌ Local rule source unavailable: ${source.path}`, error);
+            throw new Error(`Local rule source "${source.name}" is not accessible: ${source.path}`);
+        }
+
+        const files = await this.findRuleFiles(source.path, 0);
+        const rules: CursorRule[] = [];
+
+        for (const filePath of files) {
+            try {
+                rules.push(await this.createCursorRuleFromFile(source, filePath));
+            } catch (error) {
+                console.error(`❌ Failed to index local rule ${filePath}:`, error);
+            }
+        }
+
+        console.log(`📂 Indexed ${rules.length} local rules from ${source.path}`);
+        return rules;
+    }
+
+    private async findRuleFiles(directory: string, depth: number): Promise<string[]> {
+        if (depth > this.MAX_DEPTH) {
+            return [];
+        }
+
+        let entries: Dirent[];
+        try {
+            entries = await fs.readdir(directory, { withFileTypes: true });
+        } catch (error) {
+            console.warn(`⚠️ Cannot read local rules directory ${directory}:`, error);
+            return [];
+        }
+
+        const files: string[] = [];
+        for (const entry of entries) {
+            const entryPath = path.join(directory, entry.name);
+            if (entry.isDirectory()) {
+                if (!this.IGNORED_DIRECTORIES.has(entry.name)) {
+                    files.push(...await this.findRuleFiles(entryPath, depth + 1));
+                }
+            } else if (entry.isFile() && this.isRuleFile(entry.name)) {
+                files.push(entryPath);
+            }
+        }
+
+        return files;
+    }
+
+    private async createCursorRuleFromFile(source: LocalRuleSource, filePath: string): Promise<CursorRule> {
+        const [text, stat] = await Promise.all([
+            fs.readFile(filePath, 'utf-8'),
+            fs.stat(filePath)
+        ]);
+        const { attributes, body } = parseMdc(text);
+
+        const relativePath = path.relative(source.path, filePath).split(path.sep).join('/');
+        const isMdc = filePath.endsWith('.mdc');
+
+        // Old format: <rule-name>/.cursorrules takes its name from the folder, like awesome-cursorrules
+        const baseName = path.basename(filePath) === '.cursorrules'
+            ? path.basename(path.dirname(filePath))
+            : path.basename(filePath).replace(/\.(mdc|cursorrules)$/, '');
+        const namePath = `${path.dirname(relativePath)}/${baseName}`;
+
+        const technologies = getList(attributes, 'technologies');
+        const resolvedTechnologies = technologies.length > 0 ? technologies.map(t => t.toLowerCase()) : parseTechnologiesFromPath(namePath);
+        const tags = getList(attributes, 'tags');
+        const globs = getString(attributes, 'globs');
+        const alwaysApply = getBoolean(attributes, 'alwaysApply');
+
+        return {
+            id: this.generateRuleId(source, relativePath),
+            name: getString(attributes, 'name') || getString(attributes, 'title') || formatRuleName(baseName) || baseName,
+            description: getString(attributes, 'description') || parseRuleName(namePath).join(', '),
+            content: body,
+            technologies: resolvedTechnologies,
+            tags: tags.length > 0 ? tags : generateTagsFromPath(namePath),
+            category: getString(attributes, 'category') || getCategoryFromTechnologies(resolvedTechnologies),
+            isActive: false,
+            isFavorite: false,
+            isCustom: false,
+            sourceId: source.id,
+            format: isMdc ? 'file' : 'directory',
+            localPath: filePath,
+            ...(globs && { globs }),
+            ...(alwaysApply !== undefined && { alwaysApply }),
+            // Modification time doubles as the version so unchanged files are skipped on reindex
+            version: stat.mtimeMs.toString(),
+            createdAt: stat.birthtime.getTime() > 0 ? stat.birthtime : stat.mtime,
+            lastUpdated: stat.mtime
+        };
+    }
+
+    generateRuleId(source: LocalRuleSource, relativePath: string): string {
+        return `local-${source.id.slice(LOCAL_SOURCE_PREFIX.length)}/${relativePath}`
+            .replace(/[^a-zA-Z0-9]/g, '-')
+            .toLowerCase();
+    }
+
+    // Watch a source folder for rule file changes; bursts of events are debounced into one callback
+    watchSource(source: LocalRuleSource, onChange: (source: LocalRuleSource) => void): vscode.Disposable {
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(source.path), '**/{*.mdc,.cursorrules,*.cursorrules}')
+        );
+
+        let timeout: NodeJS.Timeout | undefined;
+        const schedule = () => {
+            if (timeout) {
+                clearTimeout(timeout);
+            }
+            timeout = setTimeout(() => {
+                timeout = undefined;
+                onChange(source);
+            }, this.WATCH_DEBOUNCE);
+        };
+
+        watcher.onDidCreate(schedule);
+        watcher.onDidChange(schedule);
+        watcher.onDidDelete(schedule);
+
+        console.log(`👀 Watching local rule source ${source.path}`);
+
+        return new vscode.Disposable(() => {
+            if (timeout) {
+                clearTimeout(timeout);
+            }
+            watcher.dispose();
+        });
+    }
+}
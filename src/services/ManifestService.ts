@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { TeamManifest, TeamManifestRule, MdcRuleSettings, TEAM_MANIFEST_FILE, TEAM_MANIFEST_VERSION, MDC_RULE_TYPE_LABELS } from '../types';
+
+// Reads, writes and watches the .solidrules.json team manifest of a workspace folder
+export class ManifestService {
+    private readonly WATCH_DEBOUNCE = 500; // 500ms debounce for editor saves and git checkouts
+
+    getManifestPath(workspaceId: string): string {
+        return path.join(workspaceId, TEAM_MANIFEST_FILE);
+    }
+
+    async hasManifest(workspaceId: string): Promise<boolean> {
+        try {
+            await fs.access(this.getManifestPath(workspaceId));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    // null when the folder has no manifest; throws when the manifest exists but is invalid
+    async readManifest(workspaceId: string): Promise<TeamManifest | null> {
+        let text: string;
+        try {
+            text = await fs.readFile(this.getManifestPath(workspaceId), 'utf-8');
+        } catch {
+            return null;
+        }
+        return this.parseManifest(text);
+    }
+
+    parseManifest(text: string): TeamManifest {
+        let data: any;
+        try {
+            data = JSON.parse(text);
+        } catch (error) {
+            throw new Error(`${TEAM_MANIFEST_FILE} is not valid JSON: ${error}`);
+        }
+
+        if (!data || typeof data !== 'object' || !Array.isArray(data.rules)) {
+            throw new Error(`${TEAM_MANIFEST_FILE} must contain a "rules" array`);
+        }
+        const version = data.version ?? TEAM_MANIFEST_VERSION;
+        if (typeof version !== 'number' || version > TEAM_MANIFEST_VERSION) {
+            throw new Error(`${TEAM_MANIFEST_FILE} version ${version} is not supported; please update SolidRules`);
+        }
+
+        const rules: TeamManifestRule[] = [];
+        const seen = new Set<string>();
+        for (const entry of data.rules) {
+            // A bare string is shorthand for { "id": "..." }
+            const rule = typeof entry === 'string' ? { id: entry } : entry;
+            if (!rule || typeof rule.id !== 'string' || !rule.id) {
+                console.warn(`⚠️ Ignoring ${TEAM_MANIFEST_FILE} entry without an id:`, entry);
+                continue;
+            }
+            if (seen.has(rule.id)) {
+                console.warn(`⚠️ Ignoring duplicate ${TEAM_MANIFEST_FILE} entry: ${rule.id}`);
+                continue;
+            }
+            seen.add(rule.id);
+
+            const text = (value: unknown) => typeof value === 'string' && value ? value : undefined;
+            const strings = (value: unknown) => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+            const custom = rule.custom && typeof rule.custom.content === 'string'
+                ? {
+                    description: text(rule.custom.description),
+                    content: rule.custom.content,
+                    technologies: strings(rule.custom.technologies),
+                    tags: strings(rule.custom.tags),
+                    category: text(rule.custom.category)
+                }
+                : undefined;
+
+            rules.push({
+                id: rule.id,
+                name: text(rule.name),
+                source: text(rule.source),
+                path: text(rule.path),
+                version: text(rule.version),
+                settings: this.parseSettings(rule.settings),
+                custom
+            });
+        }
+
+        return { version, rules };
+    }
+
+    private parseSettings(value: any): MdcRuleSettings | undefined {
+        if (!value || typeof value.ruleType !== 'string' || !Object.keys(MDC_RULE_TYPE_LABELS).includes(value.ruleType)) {
+            return undefined;
+        }
+        return {
+            ruleType: value.ruleType,
+            ...(typeof value.globs === 'string' && value.globs && { globs: value.globs }),
+            ...(typeof value.description === 'string' && value.description && { description: value.description })
+        };
+    }
+
+    // Stable, diff-friendly output: optional fields are omitted and entries keep their order
+    serializeManifest(manifest: TeamManifest): string {
+        const rules = manifest.rules.map(rule => ({
+            id: rule.id,
+            ...(rule.name && { name: rule.name }),
+            ...(rule.source && { source: rule.source }),
+            ...(rule.path && { path: rule.path }),
+            ...(rule.version && { version: rule.version }),
+            ...(rule.settings && { settings: rule.settings }),
+            ...(rule.custom && { custom: rule.custom })
+        }));
+        return JSON.stringify({ version: manifest.version, rules }, null, 2) + '\n';
+    }
+
+    // Returns false when the file already had this content, so watchers are not triggered for nothing
+    async writeManifest(workspaceId: string, manifest: TeamManifest): Promise<boolean> {
+        const manifestPath = this.getManifestPath(workspaceId);
+        const content = this.serializeManifest(manifest);
+
+        try {
+            if (await fs.readFile(manifestPath, 'utf-8') === content) {
+                return false;
+            }
+        } catch {
+            // New manifest
+        }
+
+        await fs.writeFile(manifestPath, content, 'utf-8');
+        console.log(`📝 Wrote team manifest ${manifestPath}`);
+        return true;
+    }
+
+    watchManifest(workspaceId: string, onChange: (workspaceId: string) => void): vscode.Disposable {
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(workspaceId), TEAM_MANIFEST_FILE)
+        );
+
+        let timeout: NodeJS.Timeout | undefined;
+        const schedule = () => {
+            if (timeout) {
+                clearTimeout(timeout);
+            }
+            timeout = setTimeout(() => {
+                timeout = undefined;
+                onChange(workspaceId);
+            }, this.WATCH_DEBOUNCE);
+        };
+
+        watcher.onDidCreate(schedule);
+        watcher.onDidChange(schedule);
+
+        return new vscode.Disposable(() => {
+            if (timeout) {
+                clearTimeout(timeout);
+            }
+            watcher.dispose();
+        });
+    }
+}
@@ -0,0 +1,226 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { Dirent } from 'fs';
+import { RuleImportCandidate, MdcRuleSettings, MDC_RULE_TYPE_LABELS } from '../types';
+import { parseMdc, getString, getList, getBoolean } from '../utils/mdc';
+import { formatRuleName, parseTechnologiesFromPath, getCategoryFromTechnologies } from '../utils/ruleMetadata';
+
+// Reads custom rules back from files written by SolidRules (or by hand) and from JSON exports
+export class RuleImportService {
+    private readonly IMPORTABLE_EXTENSIONS = ['.mdc', '.cursorrules', '.md'];
+    private readonly IGNORED_DIRECTORIES = new Set(['.git', 'node_modules']);
+    private readonly MAX_DEPTH = 8;
+
+    // Header written by WorkspaceManager.formatRuleContent for legacy .cursorrules files
+    private readonly LEGACY_METADATA_HEADER = '# SolidRules Metadata';
+    // Comment written by WorkspaceManager.formatProjectRuleContent below the frontmatter
+    private readonly GENERATED_COMMENT = '<!-- Generated by SolidRules';
+
+    isImportableFile(fileName: string): boolean {
+        return fileName === '.cursorrules' || this.IMPORTABLE_EXTENSIONS.some(extension => fileName.endsWith(extension));
+    }
+
+    // Candidates from a file, a JSON export or every rule file under a directory
+    async readCandidates(targetPath: string): Promise<RuleImportCandidate[]> {
+        const stat = await fs.stat(targetPath);
+
+        if (stat.isDirectory()) {
+            const files = await this.findRuleFiles(targetPath, 0);
+            const candidates: RuleImportCandidate[] = [];
+            for (const filePath of files) {
+                try {
+                    candidates.push(await this.readRuleFile(filePath));
+                } catch (error) {
+                    console.error(`❌ Failed to read rule file ${filePath}:`, error);
+                }
+            }
+            console.log(`📂 Found ${candidates.length} importable rules in ${targetPath}`);
+            return candidates;
+        }
+
+        if (targetPath.endsWith('.json')) {
+            return this.parseExport(await fs.readFile(targetPath, 'utf-8'), targetPath);
+        }
+
+        return [await this.readRuleFile(targetPath)];
+    }
+
+    private async findRuleFiles(directory: string, depth: number): Promise<string[]> {
+        if (depth > this.MAX_DEPTH) {
+            return [];
+        }
+
+        let entries: Dirent[];
+        try {
+            entries = await fs.readdir(directory, { withFileTypes: true });
+        } catch (error) {
+            console.warn(`⚠️ Cannot read directory ${directory}:`, error);
+            return [];
+        }
+
+        const files: string[] = [];
+        for (const entry of entries) {
+            const entryPath = path.join(directory, entry.name);
+            if (entry.isDirectory()) {
+                if (!this.IGNORED_DIRECTORIES.has(entry.name)) {
+                    files.push(...await this.findRuleFiles(entryPath, depth + 1));
+                }
+            } else if (entry.isFile() && this.isImportableFile(entry.name)) {
+                files.push(entryPath);
+            }
+        }
+
+        return files.sort();
+    }
+
+    private async readRuleFile(filePath: string): Promise<RuleImportCandidate> {
+        return this.parseRuleFile(await fs.readFile(filePath, 'utf-8'), filePath);
+    }
+
+    // Frontmatter wins over the SolidRules metadata header, which wins over names derived from the path
+    parseRuleFile(text: string, filePath: string): RuleImportCandidate {
+        const { attributes, body: afterFrontmatter } = parseMdc(text);
+        const { metadata, body } = this.extractSolidRulesMetadata(afterFrontmatter);
+
+        // <rule-name>/.cursorrules takes its name from the folder
+        const fileName = path.basename(filePath);
+        const baseName = fileName === '.cursorrules'
+            ? path.basename(path.dirname(filePath))
+            : fileName.replace(/\.(mdc|cursorrules|md)$/, '');
+
+        const frontmatterTechnologies = getList(attributes, 'technologies');
+        const technologies = frontmatterTechnologies.length > 0
+            ? frontmatterTechnologies
+            : metadata.technologies.length > 0 ? metadata.technologies : parseTechnologiesFromPath(baseName);
+        const frontmatterTags = getList(attributes, 'tags');
+
+        const globs = getString(attributes, 'globs');
+        const alwaysApply = getBoolean(attributes, 'alwaysApply');
+        const created = metadata.created ? new Date(metadata.created) : undefined;
+
+        return {
+            name: getString(attributes, 'name') || getString(attributes, 'title') || metadata.name || formatRuleName(baseName) || baseName,
+            description: getString(attributes, 'description') || '',
+            content: body,
+            technologies: technologies.map(tech => tech.toLowerCase()),
+            tags: frontmatterTags.length > 0 ? frontmatterTags : metadata.tags,
+            category: getString(attributes, 'category') || metadata.category || getCategoryFromTechnologies(technologies),
+            globs,
+            alwaysApply,
+            createdAt: created && !isNaN(created.getTime()) ? created : undefined,
+            sourcePath: filePath
+        };
+    }
+
+    // Strip the legacy "# SolidRules Metadata" header or the generated project rule comment, keeping their fields
+    private extractSolidRulesMetadata(text: string): {
+        metadata: { name?: string; category?: string; technologies: string[]; tags: string[]; created?: string };
+        body: string;
+    } {
+        const metadata: { name?: string; category?: string; technologies: string[]; tags: string[]; created?: string } = {
+            technologies: [],
+            tags: []
+        };
+        const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+
+        if (text.startsWith(this.LEGACY_METADATA_HEADER)) {
+            const lines = text.split(/\r?\n/);
+            let index = 1;
+            for (; index < lines.length; index++) {
+                const field = /^#\s*([A-Za-z ]+):\s*(.*)$/.exec(lines[index]!);
+                if (!field) {
+                    break;
+                }
+                const value = field[2]!.trim();
+                switch (field[1]!.trim()) {
+                    case 'Name': metadata.name = value; break;
+                    case 'Category': metadata.category = value; break;
+                    case 'Technologies': metadata.technologies = splitList(value); break;
+                    case 'Tags': metadata.tags = splitList(value); break;
+                    case 'Created': metadata.created = value; break;
+                }
+            }
+            return { metadata, body: lines.slice(index).join('\n').replace(/^(?:[ \t]*\r?\n)+/, '') };
+        }
+
+        if (text.startsWith(this.GENERATED_COMMENT)) {
+            const commentEnd = text.indexOf('-->');
+            if (commentEnd !== -1) {
+                const comment = text.slice(0, commentEnd);
+                // "Rule: X | Category: Y" and "Technologies: a, b | Tags: c" lines
+                for (const part of comment.split(/\r?\n|\s\|\s/)) {
+                    const field = /^\s*([A-Za-z]+):\s*(.*)$/.exec(part);
+                    if (!field) {
+                        continue;
+                    }
+                    const value = field[2]!.trim();
+                    switch (field[1]) {
+                        case 'Rule': metadata.name = value; break;
+                        case 'Category': metadata.category = value; break;
+                        case 'Technologies': metadata.technologies = splitList(value); break;
+                        case 'Tags': metadata.tags = splitList(value); break;
+                    }
+                }
+                return { metadata, body: text.slice(commentEnd + 3).replace(/^(?:[ \t]*\r?\n)+/, '') };
+            }
+        }
+
+        return { metadata, body: text };
+    }
+
+    // Rules from a rule collection or the unversioned JSON export that preceded it
+    parseExport(text: string, filePath: string): RuleImportCandidate[] {
+        let data: any;
+        try {
+            data = JSON.parse(text);
+        } catch (error) {
+            throw new Error(`${path.basename(filePath)} is not valid JSON: ${error}`);
+        }
+
+        const rules = Array.isArray(data) ? data : data?.rules;
+        if (!Array.isArray(rules)) {
+            throw new Error(`${path.basename(filePath)} is not a SolidRules export`);
+        }
+
+        const candidates: RuleImportCandidate[] = [];
+        for (const rule of rules) {
+            if (!rule || typeof rule.name !== 'string' || typeof rule.content !== 'string') {
+                console.warn('⚠️ Skipping invalid rule in export:', rule?.id);
+                continue;
+            }
+
+            const strings = (value: unknown): string[] => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+            const created = typeof rule.createdAt === 'string' ? new Date(rule.createdAt) : undefined;
+
+            candidates.push({
+                name: rule.name,
+                description: typeof rule.description === 'string' ? rule.description : '',
+                content: rule.content,
+                technologies: strings(rule.technologies),
+                tags: strings(rule.tags),
+                category: typeof rule.category === 'string' && rule.category ? rule.category : 'Custom',
+                globs: typeof rule.globs === 'string' ? rule.globs : undefined,
+                alwaysApply: typeof rule.alwaysApply === 'boolean' ? rule.alwaysApply : undefined,
+                mdcSettings: this.parseMdcSettings(rule.mdcSettings),
+                isFavorite: rule.isFavorite === true,
+                createdAt: created && !isNaN(created.getTime()) ? created : undefined,
+                originalId: typeof rule.id === 'string' ? rule.id : undefined,
+                sourcePath: filePath
+            });
+        }
+
+        console.log(`📦 Found ${candidates.length} rules in export ${filePath}`);
+        return candidates;
+    }
+
+    private parseMdcSettings(value: any): MdcRuleSettings | undefined {
+        if (!value || typeof value.ruleType !== 'string' || !Object.keys(MDC_RULE_TYPE_LABELS).includes(value.ruleType)) {
+            return undefined;
+        }
+        return {
+            ruleType: value.ruleType,
+            ...(typeof value.globs === 'string' && { globs: value.globs }),
+            ...(typeof value.description === 'string' && { description: value.description })
+        };
+    }
+}
@@ -0,0 +1,297 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { createHash } from 'crypto';
+
+// Serialized rule as persisted: everything but the workspace-scoped activation state
+export type StoredRuleRecord = Record<string, any> & { readonly id: string };
+
+interface RuleStoreIndex {
+    readonly version: number;
+    readonly rules: StoredRuleRecord[];
+}
+
+// Rules on disk under globalStorageUri: metadata of every rule in index.json, content in one file per rule.
+// Metadata is cached in memory with lookup indexes; contents are cached once read. The cache is dropped
+// when another window rewrites the index
+export class RuleStoreService implements vscode.Disposable {
+    private readonly STORE_VERSION = 1;
+
+    private records: Map<string, StoredRuleRecord> | null = null;
+    private contents = new Map<string, string>();
+    private byTechnology = new Map<string, Set<string>>();
+    private byCategory = new Map<string, Set<string>>();
+    private bySource = new Map<string, Set<string>>();
+
+    // Writes are applied to the cache right away and persisted in order
+    private writeQueue: Promise<void> = Promise.resolve();
+    private lastWrittenMtime = 0;
+    private watcher: vscode.FileSystemWatcher | undefined;
+
+    // Fired when the cache was dropped because the rules changed outside this window
+    private _onDidInvalidate = new vscode.EventEmitter<void>();
+    readonly onDidInvalidate = this._onDidInvalidate.event;
+
+    constructor(private readonly rootPath: string) {}
+
+    private get indexPath(): string {
+        return path.join(this.rootPath, 'index.json');
+    }
+
+    // Content file names are hashed since custom and local rule ids may contain any character
+    private getContentPath(ruleId: string): string {
+        return path.join(this.rootPath, 'content', `${createHash('sha1').update(ruleId).digest('hex')}.md`);
+    }
+
+    async exists(): Promise<boolean> {
+        try {
+            await fs.access(this.indexPath);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async load(): Promise<void> {
+        await fs.mkdir(path.join(this.rootPath, 'content'), { recursive: true });
+        await this.ensureLoaded();
+        this.watchIndex();
+    }
+
+    // Drop the cache and read everything back, e.g. after the folder was restored from a backup
+    async reload(): Promise<void> {
+        this.records = null;
+        this.contents.clear();
+        await this.load();
+    }
+
+    private async ensureLoaded(): Promise<Map<string, StoredRuleRecord>> {
+        if (this.records) {
+            return this.records;
+        }
+        // Read the index only once this window's queued writes are on disk
+        await this.writeQueue.catch(() => undefined);
+        if (this.records) {
+            return this.records;
+        }
+
+        let index: RuleStoreIndex = { version: this.STORE_VERSION, rules: [] };
+        try {
+            index = JSON.parse(await fs.readFile(this.indexPath, 'utf-8'));
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                console.error('❌ Rule store index is unreadable, starting empty:', error);
+            }
+        }
+
+        this.records = new Map();
+        this.byTechnology.clear();
+        this.byCategory.clear();
+        this.bySource.clear();
+        for (const record of index.rules || []) {
+            if (record && typeof record.id === 'string') {
+                this.records.set(record.id, record);
+                this.addToIndexes(record);
+            }
+        }
+        console.log(`📚 Rule store loaded: ${this.records.size} rules`);
+        return this.records;
+    }
+
+    // Another window sharing globalStorageUri rewrote the index: drop the cache and reload on next access
+    private watchIndex(): void {
+        if (this.watcher) {
+            return;
+        }
+        this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(this.rootPath), 'index.json'));
+        const invalidate = async () => {
+            try {
+                const { mtimeMs } = await fs.stat(this.indexPath);
+                if (mtimeMs === this.lastWrittenMtime) {
+                    return;
+                }
+            } catch {
+                // Deleted: reload as empty
+            }
+            console.log('🔄 Rule store changed on disk, invalidating cache');
+            this.records = null;
+            this.contents.clear();
+            this._onDidInvalidate.fire();
+        };
+        this.watcher.onDidChange(invalidate);
+        this.watcher.onDidCreate(invalidate);
+        this.watcher.onDidDelete(invalidate);
+    }
+
+    count(): number {
+        return this.records?.size ?? 0;
+    }
+
+    async getAll(): Promise<StoredRuleRecord[]> {
+        const records = await this.ensureLoaded();
+        return Promise.all(Array.from(records.values()).map(record => this.withContent(record)));
+    }
+
+    async get(ruleId: string): Promise<StoredRuleRecord | null> {
+        const record = (await this.ensureLoaded()).get(ruleId);
+        return record ? this.withContent(record) : null;
+    }
+
+    async getMany(ruleIds: Iterable<string>): Promise<StoredRuleRecord[]> {
+        const records = await this.ensureLoaded();
+        const found = Array.from(new Set(ruleIds)).map(id => records.get(id)).filter((record): record is StoredRuleRecord => !!record);
+        return Promise.all(found.map(record => this.withContent(record)));
+    }
+
+    // Technologies match by substring, like the search box; categories and sources exactly
+    async getIdsByTechnology(technology: string): Promise<Set<string>> {
+        await this.ensureLoaded();
+        const term = technology.toLowerCase();
+        const ids = new Set<string>();
+        for (const [key, ruleIds] of this.byTechnology) {
+            if (key.includes(term)) {
+                ruleIds.forEach(id => ids.add(id));
+            }
+        }
+        return ids;
+    }
+
+    async getIdsByCategory(category: string): Promise<Set<string>> {
+        await this.ensureLoaded();
+        return new Set(this.byCategory.get(category) || []);
+    }
+
+    // Custom and legacy rules without a sourceId are indexed under ''
+    async getIdsBySource(sourceId: string): Promise<Set<string>> {
+        await this.ensureLoaded();
+        return new Set(this.bySource.get(sourceId) || []);
+    }
+
+    async put(records: StoredRuleRecord[]): Promise<void> {
+        const current = await this.ensureLoaded();
+        const changedContents: Array<[string, string]> = [];
+
+        for (const { content, ...metadata } of records) {
+            const existing = current.get(metadata.id);
+            if (existing) {
+                this.removeFromIndexes(existing);
+            }
+            current.set(metadata.id, metadata as StoredRuleRecord);
+            this.addToIndexes(metadata as StoredRuleRecord);
+
+            const text = typeof content === 'string' ? content : '';
+            if (this.contents.get(metadata.id) !== text) {
+                this.contents.set(metadata.id, text);
+                changedContents.push([metadata.id, text]);
+            }
+        }
+
+        await this.persist(current, async () => {
+            for (const [ruleId, text] of changedContents) {
+                await this.writeFileAtomic(this.getContentPath(ruleId), text);
+            }
+        });
+    }
+
+    async delete(ruleIds: string[]): Promise<void> {
+        const current = await this.ensureLoaded();
+        const removed: string[] = [];
+        for (const ruleId of ruleIds) {
+            const existing = current.get(ruleId);
+            if (existing) {
+                this.removeFromIndexes(existing);
+                current.delete(ruleId);
+                this.contents.delete(ruleId);
+                removed.push(ruleId);
+            }
+        }
+        if (removed.length === 0) {
+            return;
+        }
+
+        await this.persist(current, async () => {
+            for (const ruleId of removed) {
+                await fs.rm(this.getContentPath(ruleId), { force: true });
+            }
+        });
+    }
+
+    async clear(): Promise<void> {
+        const cleared = new Map<string, StoredRuleRecord>();
+        this.records = cleared;
+        this.contents.clear();
+        this.byTechnology.clear();
+        this.byCategory.clear();
+        this.bySource.clear();
+
+        await this.persist(cleared, async () => {
+            await fs.rm(path.join(this.rootPath, 'content'), { recursive: true, force: true });
+            await fs.mkdir(path.join(this.rootPath, 'content'), { recursive: true });
+        });
+    }
+
+    // Content files are written before the index that references them. The index is taken from the
+    // records as the caller left them, not when the write runs: by then the cache may have been invalidated
+    private persist(records: Map<string, StoredRuleRecord>, writeFiles: () => Promise<void>): Promise<void> {
+        const index: RuleStoreIndex = {
+            version: this.STORE_VERSION,
+            rules: Array.from(records.values())
+        };
+        const run = this.writeQueue.catch(() => undefined).then(async () => {
+            await writeFiles();
+            await this.writeFileAtomic(this.indexPath, JSON.stringify(index));
+            this.lastWrittenMtime = (await fs.stat(this.indexPath)).mtimeMs;
+        });
+        this.writeQueue = run;
+        return run;
+    }
+
+    private async writeFileAtomic(filePath: string, data: string): Promise<void> {
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, data, 'utf-8');
+        await fs.rename(tempPath, filePath);
+    }
+
+    private async withContent(record: StoredRuleRecord): Promise<StoredRuleRecord> {
+        let content = this.contents.get(record.id);
+        if (content === undefined) {
+            try {
+                content = await fs.readFile(this.getContentPath(record.id), 'utf-8');
+            } catch (error) {
+                console.error(`❌ Missing content for rule ${record.id}:`, error);
+                content = '';
+            }
+            this.contents.set(record.id, content);
+        }
+        return { ...record, content };
+    }
+
+    private addToIndexes(record: StoredRuleRecord): void {
+        for (const technology of record.technologies || []) {
+            this.addToIndex(this.byTechnology, String(technology).toLowerCase(), record.id);
+        }
+        this.addToIndex(this.byCategory, record.category || '', record.id);
+        this.addToIndex(this.bySource, record.sourceId || '', record.id);
+    }
+
+    private removeFromIndexes(record: StoredRuleRecord): void {
+        for (const technology of record.technologies || []) {
+            this.byTechnology.get(String(technology).toLowerCase())?.delete(record.id);
+        }
+        this.byCategory.get(record.category || '')?.delete(record.id);
+        this.bySource.get(record.sourceId || '')?.delete(record.id);
+    }
+
+    private addToIndex(index: Map<string, Set<string>>, key: string, ruleId: string): void {
+        if (!index.has(key)) {
+            index.set(key, new Set());
+        }
+        index.get(key)!.add(ruleId);
+    }
+
+    dispose(): void {
+        this.watcher?.dispose();
+        this.watcher = undefined;
+        this._onDidInvalidate.dispose();
+    }
+}
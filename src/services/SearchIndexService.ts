@@ -0,0 +1,242 @@
+import { CursorRule, RuleSearchMatch, RuleSearchSnippet } from '../types';
+
+// Indexed fields and how much a match in each counts; a name match outweighs several in the body
+const FIELDS = ['name', 'description', 'technologies', 'tags', 'content'] as const;
+const FIELD_BOOSTS = [5, 2, 3, 3, 1];
+
+// BM25 parameters: term frequency saturation and field length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Prefix and typo matches count for less than exact ones
+const PREFIX_WEIGHT = 0.7;
+const FUZZY_WEIGHTS = [1, 0.6, 0.4];
+const MIN_PREFIX_LENGTH = 2;
+
+const SNIPPET_LENGTH = 140;
+const SNIPPET_CONTEXT = 40;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+[+#]*/gu;
+
+// Words are compared without case and accents
+function normalizeWord(word: string): string {
+    return word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+    return (text.match(WORD_PATTERN) || []).map(normalizeWord);
+}
+
+interface IndexedDocument {
+    readonly lengths: number[];
+    readonly terms: string[];
+}
+
+// In-memory inverted index over the rule library with BM25F ranking. Kept up to date rule by rule,
+// so a refresh only reindexes what changed
+export class SearchIndexService {
+    // term -> rule id -> frequency of the term in each field
+    private postings = new Map<string, Map<string, number[]>>();
+    private documents = new Map<string, IndexedDocument>();
+    private totalLengths = FIELDS.map(() => 0);
+
+    get size(): number {
+        return this.documents.size;
+    }
+
+    add(rules: CursorRule[]): void {
+        for (const rule of rules) {
+            this.removeDocument(rule.id);
+
+            const fieldTerms = [
+                tokenize(rule.name),
+                tokenize(rule.description || ''),
+                tokenize(rule.technologies.join(' ')),
+                tokenize(rule.tags.join(' ')),
+                tokenize(rule.content || '')
+            ];
+            const frequencies = new Map<string, number[]>();
+            fieldTerms.forEach((terms, field) => {
+                for (const term of terms) {
+                    if (!frequencies.has(term)) {
+                        frequencies.set(term, FIELDS.map(() => 0));
+                    }
+                    frequencies.get(term)![field]!++;
+                }
+            });
+
+            for (const [term, termFrequencies] of frequencies) {
+                if (!this.postings.has(term)) {
+                    this.postings.set(term, new Map());
+                }
+                this.postings.get(term)!.set(rule.id, termFrequencies);
+            }
+
+            const lengths = fieldTerms.map(terms => terms.length);
+            lengths.forEach((length, field) => this.totalLengths[field]! += length);
+            this.documents.set(rule.id, { lengths, terms: Array.from(frequencies.keys()) });
+        }
+    }
+
+    remove(ruleIds: Iterable<string>): void {
+        for (const ruleId of ruleIds) {
+            this.removeDocument(ruleId);
+        }
+    }
+
+    clear(): void {
+        this.postings.clear();
+        this.documents.clear();
+        this.totalLengths = FIELDS.map(() => 0);
+    }
+
+    private removeDocument(ruleId: string): void {
+        const document = this.documents.get(ruleId);
+        if (!document) {
+            return;
+        }
+        for (const term of document.terms) {
+            const termPostings = this.postings.get(term);
+            termPostings?.delete(ruleId);
+            if (termPostings?.size === 0) {
+                this.postings.delete(term);
+            }
+        }
+        document.lengths.forEach((length, field) => this.totalLengths[field]! -= length);
+        this.documents.delete(ruleId);
+    }
+
+    // Rules matching every word of the query (exactly, by prefix or with a typo), best first
+    search(query: string): RuleSearchMatch[] {
+        const queryTerms = Array.from(new Set(tokenize(query)));
+        if (queryTerms.length === 0 || this.documents.size === 0) {
+            return [];
+        }
+
+        const averageLengths = this.totalLengths.map(total => Math.max(total / this.documents.size, 1));
+        const scores = new Map<string, number>();
+        const matchedTerms = new Map<string, Set<string>>();
+
+        for (const [index, queryTerm] of queryTerms.entries()) {
+            // Best score of this query word per rule, over all index terms it expands to
+            const termScores = new Map<string, number>();
+
+            for (const { term, weight } of this.expand(queryTerm)) {
+                const termPostings = this.postings.get(term)!;
+                const idf = Math.log(1 + (this.documents.size - termPostings.size + 0.5) / (termPostings.size + 0.5));
+
+                for (const [ruleId, frequencies] of termPostings) {
+                    // Rules that missed an earlier query word can't match anymore
+                    if (index > 0 && !scores.has(ruleId)) {
+                        continue;
+                    }
+                    const lengths = this.documents.get(ruleId)!.lengths;
+                    const frequency = frequencies.reduce((sum, count, field) =>
+                        sum + FIELD_BOOSTS[field]! * count / (1 - B + B * lengths[field]! / averageLengths[field]!), 0);
+                    const score = weight * idf * frequency * (K1 + 1) / (frequency + K1);
+
+                    termScores.set(ruleId, Math.max(termScores.get(ruleId) || 0, score));
+                    if (!matchedTerms.has(ruleId)) {
+                        matchedTerms.set(ruleId, new Set());
+                    }
+                    matchedTerms.get(ruleId)!.add(term);
+                }
+            }
+
+            for (const ruleId of index === 0 ? termScores.keys() : Array.from(scores.keys())) {
+                const termScore = termScores.get(ruleId);
+                if (termScore === undefined) {
+                    scores.delete(ruleId);
+                } else {
+                    scores.set(ruleId, (scores.get(ruleId) || 0) + termScore);
+                }
+            }
+        }
+
+        return Array.from(scores, ([ruleId, score]) => ({ ruleId, score, terms: Array.from(matchedTerms.get(ruleId)!) }))
+            .sort((a, b) => b.score - a.score);
+    }
+
+    // Index terms a query word matches, with how much each match counts
+    private expand(queryTerm: string): Array<{ term: string; weight: number }> {
+        const maxEdits = queryTerm.length >= 8 ? 2 : (queryTerm.length >= 4 ? 1 : 0);
+        const expansions: Array<{ term: string; weight: number }> = [];
+
+        for (const term of this.postings.keys()) {
+            if (term === queryTerm) {
+                expansions.push({ term, weight: 1 });
+            } else if (queryTerm.length >= MIN_PREFIX_LENGTH && term.startsWith(queryTerm)) {
+                expansions.push({ term, weight: PREFIX_WEIGHT });
+            } else if (maxEdits > 0) {
+                const edits = editDistance(queryTerm, term, maxEdits);
+                if (edits <= maxEdits) {
+                    expansions.push({ term, weight: FUZZY_WEIGHTS[edits]! });
+                }
+            }
+        }
+        return expansions;
+    }
+}
+
+// Levenshtein distance, or maxDistance + 1 as soon as it is known to be larger
+function editDistance(a: string, b: string, maxDistance: number): number {
+    if (Math.abs(a.length - b.length) > maxDistance) {
+        return maxDistance + 1;
+    }
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+            rowMin = Math.min(rowMin, current[j]!);
+        }
+        if (rowMin > maxDistance) {
+            return maxDistance + 1;
+        }
+        previous = current;
+    }
+    return previous[b.length]!;
+}
+
+// Excerpt of the rule body (or description) around the first matched word, with every matched word marked
+export function createSnippet(rule: CursorRule, terms: Iterable<string>): RuleSearchSnippet | undefined {
+    const termSet = new Set(terms);
+
+    for (const field of ['content', 'description'] as const) {
+        const text = rule[field] || '';
+        const firstMatch = findWords(text, termSet)[0];
+        if (!firstMatch) {
+            continue;
+        }
+
+        // Cut at whitespace so the excerpt starts and ends with whole words
+        let start = Math.max(firstMatch[0] - SNIPPET_CONTEXT, 0);
+        const wordStart = start > 0 ? text.slice(start, firstMatch[0]).search(/\s/) : -1;
+        if (wordStart >= 0) {
+            start += wordStart + 1;
+        }
+        let end = Math.min(start + SNIPPET_LENGTH, text.length);
+        const wordEnd = end < text.length ? text.slice(firstMatch[1], end).search(/\s\S*$/) : -1;
+        if (wordEnd >= 0) {
+            end = firstMatch[1] + wordEnd;
+        }
+        const excerpt = `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+
+        return { field, text: excerpt, highlights: findWords(excerpt, termSet) };
+    }
+    return undefined;
+}
+
+// [start, end) offsets of the words of text that are in terms
+function findWords(text: string, terms: ReadonlySet<string>): Array<[number, number]> {
+    const ranges: Array<[number, number]> = [];
+    for (const match of text.matchAll(WORD_PATTERN)) {
+        if (terms.has(normalizeWord(match[0]))) {
+            ranges.push([match.index!, match.index! + match[0].length]);
+        }
+    }
+    return ranges;
+}
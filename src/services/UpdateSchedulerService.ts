@@ -0,0 +1,171 @@
+import * as vscode from 'vscode';
+import { RulesManager } from '../managers/RulesManager';
+import { UpdateInfo } from '../types';
+
+// Runs background update checks every solidrules.refreshInterval hours while solidrules.autoRefresh is on,
+// and shows pending rule updates in the status bar
+export class UpdateSchedulerService implements vscode.Disposable {
+    private readonly STARTUP_DELAY = 30 * 1000; // 30s so the first check doesn't compete with activation
+    private readonly RATE_LIMIT_BACKOFF = 15 * 60 * 1000; // 15 minutes, doubled on every consecutive rate limit
+    private readonly MAX_TIMER_DELAY = 2 ** 31 - 1; // setTimeout overflows above ~24.8 days
+
+    private statusBarItem: vscode.StatusBarItem;
+    private timer: NodeJS.Timeout | undefined;
+    private isChecking = false;
+    private rateLimitCount = 0;
+    private nextCheck: Date | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private rulesManager: RulesManager) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+        this.statusBarItem.name = 'SolidRules Updates';
+
+        this.disposables.push(
+            this.statusBarItem,
+            // Accepting, skipping or pinning an update changes the pending count
+            this.rulesManager.onDidChangeRules(() => void this.updateStatusBar()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('solidrules.autoRefresh') || event.affectsConfiguration('solidrules.refreshInterval')) {
+                    this.rateLimitCount = 0;
+                    this.start();
+                }
+            })
+        );
+    }
+
+    start(): void {
+        this.clearTimer();
+
+        if (!this.isEnabled()) {
+            console.log('⏸️ Background update checks disabled');
+            void this.updateStatusBar();
+            return;
+        }
+
+        // Honor the persisted last check so a restart doesn't check again right away
+        const lastCheck = this.rulesManager.getLastUpdateCheck();
+        const dueIn = lastCheck ? lastCheck.getTime() + this.getInterval() - Date.now() : 0;
+        this.schedule(Math.max(dueIn, this.STARTUP_DELAY));
+    }
+
+    // Check all sources now, e.g. from the status bar; the next background check is counted from here
+    async checkNow(): Promise<UpdateInfo[]> {
+        if (this.isChecking) {
+            return [];
+        }
+
+        this.clearTimer();
+        this.isChecking = true;
+        await this.updateStatusBar();
+
+        try {
+            console.log('🔍 Checking for rule updates...');
+            const updates = await this.rulesManager.checkForUpdates();
+            console.log(`✅ Update check completed: ${updates.length} new updates`);
+            this.rateLimitCount = 0;
+            this.isChecking = false;
+            if (this.isEnabled()) {
+                this.schedule(this.getInterval());
+            }
+            return updates;
+        } catch (error: any) {
+            this.isChecking = false;
+            if (!this.isEnabled()) {
+                throw error;
+            }
+            if (error.message?.includes('rate limit')) {
+                // Back off, but never wait longer than the regular interval
+                const delay = Math.min(this.RATE_LIMIT_BACKOFF * 2 ** this.rateLimitCount, this.getInterval());
+                this.rateLimitCount++;
+                console.warn(`⚠️ Rate limited during update check, retrying in ${Math.round(delay / 60000)} minutes`);
+                this.schedule(delay);
+            } else {
+                this.schedule(this.getInterval());
+            }
+            throw error;
+        } finally {
+            await this.updateStatusBar();
+        }
+    }
+
+    private schedule(delay: number): void {
+        this.clearTimer();
+        this.nextCheck = new Date(Date.now() + delay);
+        console.log(`⏰ Next rule update check: ${this.nextCheck.toLocaleString()}`);
+
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            // Long intervals are reached in several steps
+            if (this.nextCheck && this.nextCheck.getTime() > Date.now()) {
+                this.schedule(this.nextCheck.getTime() - Date.now());
+                return;
+            }
+            this.checkNow().catch(error => console.error('❌ Background update check failed:', error));
+        }, Math.min(delay, this.MAX_TIMER_DELAY));
+        void this.updateStatusBar();
+    }
+
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.nextCheck = undefined;
+    }
+
+    private isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('solidrules').get<boolean>('autoRefresh', false);
+    }
+
+    private getInterval(): number {
+        const hours = vscode.workspace.getConfiguration('solidrules').get<number>('refreshInterval', 24);
+        // At least an hour between checks, even if the setting is lower
+        return Math.max(hours, 1) * 60 * 60 * 1000;
+    }
+
+    // Never rejects: failures are logged, so callers that can't wait may discard the promise with void
+    private async updateStatusBar(): Promise<void> {
+        try {
+            if (this.isChecking) {
+                this.statusBarItem.text = '$(sync~spin) Rules';
+                this.statusBarItem.tooltip = 'SolidRules: checking for rule updates...';
+                this.statusBarItem.command = undefined;
+                this.statusBarItem.show();
+                return;
+            }
+
+            const pendingUpdates = await this.rulesManager.getPendingUpdates();
+            const lastCheck = this.rulesManager.getLastUpdateCheck();
+            const details = [
+                `Last checked: ${lastCheck ? lastCheck.toLocaleString() : 'never'}`,
+                ...(this.nextCheck ? [`Next check: ${this.nextCheck.toLocaleString()}`] : [])
+            ];
+
+            if (pendingUpdates.length > 0) {
+                this.statusBarItem.text = `$(cloud-download) ${pendingUpdates.length}`;
+                this.statusBarItem.tooltip = [
+                    `SolidRules: ${pendingUpdates.length} rule update${pendingUpdates.length === 1 ? '' : 's'} available`,
+                    ...details,
+                    'Click to review'
+                ].join('\n');
+                this.statusBarItem.command = 'solidrules.updateAllRules';
+                this.statusBarItem.show();
+            } else if (this.isEnabled()) {
+                this.statusBarItem.text = '$(check) Rules';
+                this.statusBarItem.tooltip = ['SolidRules: rules are up to date', ...details, 'Click to check now'].join('\n');
+                this.statusBarItem.command = 'solidrules.checkForUpdates';
+                this.statusBarItem.show();
+            } else {
+                this.statusBarItem.hide();
+            }
+        } catch (error) {
+            console.error('❌ Failed to update rule updates status bar item:', error);
+        }
+    }
+
+    dispose(): void {
+        this.clearTimer();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
@@ -0,0 +1,62 @@
+import type * as vscode from 'vscode';
+import { EventEmitter, Uri } from './vscode';
+
+// globalState kept in memory. Like VS Code's, values are stored as JSON and update resolves
+// asynchronously, so writes that are not awaited in order can interleave
+export class MemoryMemento {
+    private values = new Map<string, string>();
+
+    keys(): readonly string[] {
+        return Array.from(this.values.keys());
+    }
+
+    get<T>(key: string, defaultValue?: T): T | undefined {
+        const value = this.values.get(key);
+        return value === undefined ? defaultValue : JSON.parse(value);
+    }
+
+    async update(key: string, value: unknown): Promise<void> {
+        await new Promise(resolve => setImmediate(resolve));
+        if (value === undefined) {
+            this.values.delete(key);
+        } else {
+            this.values.set(key, JSON.stringify(value));
+        }
+    }
+
+    setKeysForSync(): void {}
+}
+
+class MemorySecretStorage {
+    private secrets = new Map<string, string>();
+    private _onDidChange = new EventEmitter<{ key: string }>();
+    readonly onDidChange = this._onDidChange.event;
+
+    async get(key: string): Promise<string | undefined> {
+        return this.secrets.get(key);
+    }
+
+    async store(key: string, value: string): Promise<void> {
+        this.secrets.set(key, value);
+        this._onDidChange.fire({ key });
+    }
+
+    async delete(key: string): Promise<void> {
+        this.secrets.delete(key);
+        this._onDidChange.fire({ key });
+    }
+}
+
+// The parts of an ExtensionContext the services use; globalStorage lives in storagePath
+export function createExtensionContext(storagePath: string): vscode.ExtensionContext {
+    const context = {
+        subscriptions: [] as { dispose(): unknown }[],
+        globalState: new MemoryMemento(),
+        workspaceState: new MemoryMemento(),
+        secrets: new MemorySecretStorage(),
+        globalStorageUri: Uri.file(storagePath),
+        extensionUri: Uri.file(storagePath),
+        extensionPath: storagePath
+    };
+    return context as unknown as vscode.ExtensionContext;
+}
@@ -0,0 +1,105 @@
+// Stand-in for the vscode module when unit tests run in plain Node, outside the extension host.
+// Only the parts the modules under test touch are implemented
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+export class Disposable {
+    constructor(private readonly callOnDispose: () => void) {}
+
+    dispose(): void {
+        this.callOnDispose();
+    }
+}
+
+export class EventEmitter<T> {
+    private listeners = new Set<(event: T) => void>();
+
+    readonly event = (listener: (event: T) => void): Disposable => {
+        this.listeners.add(listener);
+        return new Disposable(() => this.listeners.delete(listener));
+    };
+
+    fire(event: T): void {
+        this.listeners.forEach(listener => listener(event));
+    }
+
+    dispose(): void {
+        this.listeners.clear();
+    }
+}
+
+export class Uri {
+    private constructor(readonly scheme: string, readonly fsPath: string) {}
+
+    static file(fsPath: string): Uri {
+        return new Uri('file', fsPath);
+    }
+
+    static joinPath(base: Uri, ...segments: string[]): Uri {
+        return Uri.file(path.join(base.fsPath, ...segments));
+    }
+
+    get path(): string {
+        return this.fsPath;
+    }
+
+    toString(): string {
+        return `${this.scheme}://${this.fsPath}`;
+    }
+}
+
+export class RelativePattern {
+    constructor(readonly base: Uri | string, readonly pattern: string) {}
+}
+
+export class ThemeColor {
+    constructor(readonly id: string) {}
+}
+
+export class ThemeIcon {
+    constructor(readonly id: string, readonly color?: ThemeColor) {}
+}
+
+export enum TreeItemCollapsibleState {
+    None = 0,
+    Collapsed = 1,
+    Expanded = 2
+}
+
+export class TreeItem {
+    constructor(public label: string, public collapsibleState: TreeItemCollapsibleState = TreeItemCollapsibleState.None) {}
+}
+
+export class MarkdownString {
+    constructor(public value: string = '') {}
+}
+
+const noEvent = () => new Disposable(() => undefined);
+
+export const workspace = {
+    workspaceFolders: undefined as unknown,
+    // Every setting reads as its default
+    getConfiguration: () => ({
+        get: <T>(_key: string, defaultValue?: T) => defaultValue,
+        has: () => false,
+        update: async () => undefined
+    }),
+    // Watchers never fire; tests that need a change call the code under test directly
+    createFileSystemWatcher: () => ({
+        onDidChange: noEvent,
+        onDidCreate: noEvent,
+        onDidDelete: noEvent,
+        dispose: () => undefined
+    }),
+    fs: {
+        createDirectory: async (uri: Uri) => {
+            await fs.mkdir(uri.fsPath, { recursive: true });
+        }
+    }
+};
+
+export const window = {
+    showInformationMessage: async () => undefined,
+    showWarningMessage: async () => undefined,
+    showErrorMessage: async () => undefined
+};
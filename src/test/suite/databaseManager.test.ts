@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { DatabaseManager } from '../../managers/DatabaseManager';
+import { CursorRule } from '../../types';
+import { createExtensionContext } from '../mocks/context';
+
+const workspaceId = 'workspace-1';
+const counterKey = 'solidrules.test.counter';
+
+function createRule(id: string): CursorRule {
+    return {
+        id,
+        name: id,
+        description: `Rule ${id}`,
+        content: `Content of ${id}\n`,
+        technologies: ['typescript'],
+        tags: [],
+        category: 'Frontend',
+        isActive: false,
+        isFavorite: false,
+        isCustom: false,
+        githubPath: `rules/${id}`,
+        sourceId: 'PatrickJS/awesome-cursorrules',
+        format: 'directory',
+        createdAt: new Date('2024-01-01T00:00:00Z')
+    };
+}
+
+suite('DatabaseManager', () => {
+    let storagePath: string;
+    let context: vscode.ExtensionContext;
+    let database: DatabaseManager;
+
+    setup(async () => {
+        storagePath = await fs.mkdtemp(path.join(os.tmpdir(), 'solidrules-db-'));
+        context = createExtensionContext(storagePath);
+        database = new DatabaseManager(context);
+        await database.initialize();
+        await database.saveRulesBatch(['a', 'b', 'c', 'd', 'e'].map(createRule));
+    });
+
+    teardown(async () => {
+        database.dispose();
+        await fs.rm(storagePath, { recursive: true, force: true });
+    });
+
+    suite('concurrent writes', () => {
+        test('rule status updates run together keep every change', async () => {
+            await Promise.all([
+                database.updateRuleStatus(workspaceId, 'a', true),
+                database.updateRuleStatus(workspaceId, 'b', true),
+                database.updateRuleStatus(workspaceId, 'c', true),
+                database.updateRuleStatus(workspaceId, 'b', false),
+                database.updateRuleStatus(workspaceId, 'd', true),
+                database.updateRuleStatus(workspaceId, 'e', true),
+                database.updateRuleStatus(workspaceId, 'e', false)
+            ]);
+
+            assert.deepStrictEqual((await database.getActiveRuleIds(workspaceId)).sort(), ['a', 'c', 'd']);
+        });
+
+        test('read-modify-write transactions run together lose no increment', async () => {
+            await Promise.all(Array.from({ length: 20 }, () => database.transaction(tx => {
+                tx.setValue(counterKey, tx.getValue(counterKey, 0) + 1);
+            })));
+
+            assert.strictEqual(await database.transaction(tx => tx.getValue(counterKey, 0)), 20);
+        });
+
+        test('transactions, status and favorite updates run together all apply', async () => {
+            await Promise.all([
+                database.updateRuleStatus(workspaceId, 'a', true),
+                database.transaction(async tx => {
+                    const rule = await tx.getRule('b');
+                    tx.saveRule({ ...rule!, description: 'Edited b' });
+                    tx.setRuleActive(workspaceId, 'b', true);
+                }),
+                database.updateRuleFavorite('b', true),
+                database.updateRuleStatus(workspaceId, 'c', true),
+                database.transaction(async tx => {
+                    await tx.setFavorite('c', true);
+                    tx.setValue(counterKey, tx.getValue(counterKey, 0) + 1);
+                }),
+                database.deleteRule('d'),
+                database.updateRuleStatus(workspaceId, 'a', false),
+                database.transaction(tx => tx.setValue(counterKey, tx.getValue(counterKey, 0) + 1))
+            ]);
+
+            assert.deepStrictEqual((await database.getActiveRuleIds(workspaceId)).sort(), ['b', 'c']);
+            assert.deepStrictEqual((await database.getFavoriteRules()).map(rule => rule.id).sort(), ['b', 'c']);
+            assert.strictEqual((await database.getRuleById('b'))?.description, 'Edited b');
+            assert.strictEqual(await database.getRuleById('d'), null);
+            assert.deepStrictEqual((await database.getAllRules()).map(rule => rule.id).sort(), ['a', 'b', 'c', 'e']);
+            assert.strictEqual(await database.transaction(tx => tx.getValue(counterKey, 0)), 2);
+        });
+
+        test('a transaction that throws writes nothing and later ones still run', async () => {
+            const results = await Promise.allSettled([
+                database.updateRuleStatus(workspaceId, 'a', true),
+                database.transaction(async tx => {
+                    tx.setRuleActive(workspaceId, 'b', true);
+                    await tx.setFavorite('b', true);
+                    tx.deleteRule('c');
+                    throw new Error('Abandoned');
+                }),
+                database.updateRuleStatus(workspaceId, 'e', true)
+            ]);
+
+            assert.deepStrictEqual(results.map(result => result.status), ['fulfilled', 'rejected', 'fulfilled']);
+            assert.deepStrictEqual((await database.getActiveRuleIds(workspaceId)).sort(), ['a', 'e']);
+            assert.deepStrictEqual(await database.getFavoriteRules(), []);
+            assert.ok(await database.getRuleById('c'));
+        });
+    });
+
+    suite('commit', () => {
+        test('a failed state write puts back the rules and state written before it', async () => {
+            await database.updateRuleFavorite('a', true);
+            const update = context.globalState.update.bind(context.globalState);
+            (context.globalState as any).update = async (key: string, value: unknown) => {
+                if (key === counterKey) {
+                    throw new Error('Disk full');
+                }
+                return update(key, value);
+            };
+
+            await assert.rejects(database.transaction(async tx => {
+                tx.saveRule({ ...(await tx.getRule('a'))!, content: 'Edited a\n' });
+                tx.saveRule(createRule('f'));
+                tx.deleteRule('b');
+                await tx.setFavorite('a', false);
+                tx.setRuleActive(workspaceId, 'c', true);
+                tx.setValue(counterKey, 1);
+            }), /Disk full/);
+
+            assert.strictEqual((await database.getRuleById('a'))?.content, 'Content of a\n');
+            assert.deepStrictEqual((await database.getFavoriteRules()).map(rule => rule.id), ['a']);
+            assert.ok(await database.getRuleById('b'));
+            assert.strictEqual(await database.getRuleById('f'), null);
+            assert.deepStrictEqual(await database.getActiveRuleIds(workspaceId), []);
+
+            // The rule store on disk was rolled back too
+            const reloaded = new DatabaseManager(context);
+            await reloaded.initialize();
+            assert.deepStrictEqual((await reloaded.getAllRules()).map(rule => [rule.id, rule.content]).sort(), [
+                ['a', 'Content of a\n'], ['b', 'Content of b\n'], ['c', 'Content of c\n'], ['d', 'Content of d\n'], ['e', 'Content of e\n']
+            ]);
+            reloaded.dispose();
+        });
+
+        test('a failed write after Clear Database restores every rule', async () => {
+            (context.globalState as any).update = async () => {
+                throw new Error('Disk full');
+            };
+
+            await assert.rejects(database.clearAllData(), /Disk full/);
+            assert.deepStrictEqual((await database.getAllRules()).map(rule => rule.id).sort(), ['a', 'b', 'c', 'd', 'e']);
+            assert.strictEqual((await database.getRuleById('c'))?.content, 'Content of c\n');
+        });
+    });
+});
@@ -0,0 +1,230 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import { GitHubService } from '../../services/GitHubService';
+import { CursorRule } from '../../types';
+import { createExtensionContext } from '../mocks/context';
+
+interface RepoEntry {
+    readonly type: 'tree' | 'blob';
+    readonly sha: string;
+    readonly content?: string;
+}
+
+// awesome-cursorrules layout: rules/<name>/.cursorrules folders and rules-new/<name>.mdc files
+function createRepo(overrides: Record<string, RepoEntry> = {}): Record<string, RepoEntry> {
+    return {
+        'rules': { type: 'tree', sha: 'rules-tree' },
+        'rules/react-typescript': { type: 'tree', sha: 'react-folder-1' },
+        'rules/react-typescript/.cursorrules': { type: 'blob', sha: 'react-content-1', content: 'Use function components.\n' },
+        'rules/react-typescript/README.md': { type: 'blob', sha: 'react-readme-1', content: '# React\n\nReact with TypeScript\n' },
+        'rules-new': { type: 'tree', sha: 'rules-new-tree' },
+        'rules-new/nextjs.mdc': {
+            type: 'blob',
+            sha: 'nextjs-content-1',
+            content: '---\ndescription: Next.js conventions\nglobs: app/**/*.tsx\nalwaysApply: false\n---\n\nUse server components.\n'
+        },
+        ...overrides
+    };
+}
+
+// Octokit answering from an in-memory repository; calls are recorded as "<api> <argument>"
+function createOctokit(repo: Record<string, RepoEntry>, extraBlobs: Record<string, string> = {}) {
+    const calls: string[] = [];
+    const blobs = new Map(Object.values(repo).filter(entry => entry.content !== undefined).map(entry => [entry.sha, entry.content!]));
+    Object.entries(extraBlobs).forEach(([sha, content]) => blobs.set(sha, content));
+    const notFound = () => Object.assign(new Error('Not Found'), { status: 404 });
+
+    return {
+        calls,
+        git: {
+            getTree: async ({ tree_sha }: { tree_sha: string }) => {
+                calls.push(`git.getTree ${tree_sha}`);
+                return { data: { truncated: false, tree: Object.entries(repo).map(([path, entry]) => ({ path, type: entry.type, sha: entry.sha })) } };
+            },
+            getBlob: async ({ file_sha }: { file_sha: string }) => {
+                calls.push(`git.getBlob ${file_sha}`);
+                const content = blobs.get(file_sha);
+                if (content === undefined) {
+                    throw notFound();
+                }
+                return { data: { content: Buffer.from(content).toString('base64'), encoding: 'base64' } };
+            }
+        },
+        repos: {
+            getContent: async ({ path }: { path: string }) => {
+                calls.push(`repos.getContent ${path}`);
+                const entry = repo[path];
+                if (!entry || entry.content === undefined) {
+                    throw notFound();
+                }
+                return { data: { type: 'file', sha: entry.sha, content: Buffer.from(entry.content).toString('base64') } };
+            }
+        }
+    };
+}
+
+async function createService(octokit: ReturnType<typeof createOctokit>): Promise<GitHubService> {
+    const service = new GitHubService(createExtensionContext(os.tmpdir()));
+    // Let the constructor's client setup finish, then replace the client
+    await new Promise(resolve => setImmediate(resolve));
+    (service as any).octokit = octokit;
+    return service;
+}
+
+function storedRule(overrides: Partial<CursorRule>): CursorRule {
+    return {
+        id: 'rules-react-typescript',
+        name: 'React Typescript',
+        description: 'React with TypeScript',
+        content: 'Use function components.\n',
+        technologies: ['react', 'typescript'],
+        tags: [],
+        category: 'Frontend',
+        isActive: false,
+        isFavorite: false,
+        isCustom: false,
+        githubPath: 'rules/react-typescript',
+        sourceId: 'PatrickJS/awesome-cursorrules',
+        format: 'directory',
+        version: 'react-content-1',
+        createdAt: new Date(),
+        ...overrides
+    };
+}
+
+const reactRule = storedRule({});
+const nextjsRule = storedRule({
+    id: 'rules-new-nextjs-mdc',
+    name: 'Nextjs',
+    content: 'Use server components.\n',
+    githubPath: 'rules-new/nextjs.mdc',
+    format: 'file',
+    version: 'nextjs-content-1'
+});
+
+suite('GitHubService', () => {
+    suite('checkForUpdates', () => {
+        test('rules at the sha of their content file have no update', async () => {
+            const service = await createService(createOctokit(createRepo()));
+            const updates = await service.checkForUpdates([reactRule, nextjsRule]);
+
+            assert.deepStrictEqual(updates.get(reactRule.id), { hasUpdate: false, latestVersion: 'react-content-1' });
+            assert.deepStrictEqual(updates.get(nextjsRule.id), { hasUpdate: false, latestVersion: 'nextjs-content-1' });
+        });
+
+        test('a changed README alone is not an update', async () => {
+            const service = await createService(createOctokit(createRepo({
+                'rules/react-typescript': { type: 'tree', sha: 'react-folder-2' },
+                'rules/react-typescript/README.md': { type: 'blob', sha: 'react-readme-2', content: '# React\n\nReworded\n' }
+            })));
+            const updates = await service.checkForUpdates([reactRule]);
+
+            assert.deepStrictEqual(updates.get(reactRule.id), { hasUpdate: false, latestVersion: 'react-content-1' });
+        });
+
+        test('a changed .cursorrules or .mdc file is an update to its new blob sha', async () => {
+            const service = await createService(createOctokit(createRepo({
+                'rules/react-typescript': { type: 'tree', sha: 'react-folder-2' },
+                'rules/react-typescript/.cursorrules': { type: 'blob', sha: 'react-content-2', content: 'Use hooks.\n' },
+                'rules-new/nextjs.mdc': { type: 'blob', sha: 'nextjs-content-2', content: 'Use the app router.\n' }
+            })));
+            const updates = await service.checkForUpdates([reactRule, nextjsRule]);
+
+            assert.deepStrictEqual(updates.get(reactRule.id), { hasUpdate: true, latestVersion: 'react-content-2' });
+            assert.deepStrictEqual(updates.get(nextjsRule.id), { hasUpdate: true, latestVersion: 'nextjs-content-2' });
+        });
+
+        test('rules without a recorded version are reported as outdated', async () => {
+            const { version: _version, ...unversioned } = reactRule;
+            const service = await createService(createOctokit(createRepo()));
+            const updates = await service.checkForUpdates([unversioned]);
+
+            assert.deepStrictEqual(updates.get(reactRule.id), { hasUpdate: true, latestVersion: 'react-content-1' });
+        });
+
+        test('pinned and custom rules are not checked', async () => {
+            const octokit = createOctokit(createRepo({
+                'rules/react-typescript/.cursorrules': { type: 'blob', sha: 'react-content-2', content: 'Use hooks.\n' }
+            }));
+            const service = await createService(octokit);
+            const updates = await service.checkForUpdates([
+                { ...reactRule, isPinned: true },
+                storedRule({ id: 'custom-rule', isCustom: true })
+            ]);
+
+            assert.strictEqual(updates.size, 0);
+            assert.deepStrictEqual(octokit.calls, []);
+        });
+    });
+
+    suite('rule format', () => {
+        test('directory rules are fetched from their .cursorrules file and versioned by its sha', async () => {
+            const octokit = createOctokit(createRepo());
+            const service = await createService(octokit);
+            const rule = await service.createCursorRuleFromGitHub(service.createRuleInfo('rules/react-typescript', 'directory'));
+
+            assert.ok(octokit.calls.includes('repos.getContent rules/react-typescript/.cursorrules'));
+            assert.strictEqual(rule.format, 'directory');
+            assert.strictEqual(rule.version, 'react-content-1');
+            assert.strictEqual(rule.content, 'Use function components.\n');
+            assert.strictEqual(rule.description, 'React with TypeScript');
+        });
+
+        test('file rules stay files through an update and keep their frontmatter as fields', async () => {
+            const octokit = createOctokit(createRepo());
+            const service = await createService(octokit);
+            // As RulesManager refetches a stored rule: from its path and stored format
+            const rule = await service.createCursorRuleFromGitHub(service.createRuleInfo(nextjsRule.githubPath!, nextjsRule.format, nextjsRule.sourceId));
+
+            assert.ok(octokit.calls.includes('repos.getContent rules-new/nextjs.mdc'));
+            assert.ok(!octokit.calls.some(call => call.includes('.cursorrules')));
+            assert.strictEqual(rule.id, nextjsRule.id);
+            assert.strictEqual(rule.format, 'file');
+            assert.strictEqual(rule.version, 'nextjs-content-1');
+            assert.strictEqual(rule.content, 'Use server components.\n');
+            assert.strictEqual(rule.description, 'Next.js conventions');
+            assert.strictEqual(rule.globs, 'app/**/*.tsx');
+            assert.strictEqual(rule.alwaysApply, false);
+        });
+
+        test('the format is inferred from the path when a rule has none stored', () => {
+            const service = new GitHubService(createExtensionContext(os.tmpdir()));
+            assert.strictEqual(service.createRuleInfo('rules-new/nextjs.mdc').format, 'file');
+            assert.strictEqual(service.createRuleInfo('rules-new/nextjs.mdc').type, 'file');
+            assert.strictEqual(service.createRuleInfo('rules/react-typescript').format, 'directory');
+        });
+
+        test('refreshes read listed rules by blob sha and keep that sha as the version', async () => {
+            const octokit = createOctokit(createRepo());
+            const service = await createService(octokit);
+            const source = service.getRuleSource();
+            const listed = await service.fetchRulesList(source);
+            const files = await service.fetchRuleFiles(listed, source);
+
+            assert.deepStrictEqual(
+                listed.map(rule => [rule.path, rule.format, rule.contentSha]),
+                [['rules/react-typescript', 'directory', 'react-content-1'], ['rules-new/nextjs.mdc', 'file', 'nextjs-content-1']]
+            );
+            const rules = listed.map(rule => service.createCursorRuleFromFiles(rule, files.get(rule.path)!));
+            assert.deepStrictEqual(rules.map(rule => [rule.id, rule.format, rule.version]), [
+                [reactRule.id, 'directory', 'react-content-1'],
+                [nextjsRule.id, 'file', 'nextjs-content-1']
+            ]);
+            assert.ok(!octokit.calls.some(call => call.startsWith('repos.getContent')));
+        });
+
+        test('a content sha fetches that exact version', async () => {
+            const octokit = createOctokit(createRepo(), { 'nextjs-content-0': 'Use the pages router.\n' });
+            const service = await createService(octokit);
+            const rule = await service.createCursorRuleFromGitHub({
+                ...service.createRuleInfo('rules-new/nextjs.mdc', 'file'),
+                contentSha: 'nextjs-content-0'
+            });
+
+            assert.ok(octokit.calls.includes('git.getBlob nextjs-content-0'));
+            assert.strictEqual(rule.version, 'nextjs-content-0');
+            assert.strictEqual(rule.content, 'Use the pages router.\n');
+            assert.strictEqual(rule.format, 'file');
+        });
+    });
+});
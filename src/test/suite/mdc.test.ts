@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import { parseMdc, serializeMdc, extractRuleFrontmatter } from '../../utils/mdc';
+import { WorkspaceManager } from '../../managers/WorkspaceManager';
+import { CursorRule } from '../../types';
+
+// Body of the project rule file below the generated metadata comment
+function ruleBody(fileContent: string): string {
+    const { body } = parseMdc(fileContent);
+    return body.slice(body.indexOf('-->\n\n') + '-->\n\n'.length);
+}
+
+function createRule(overrides: Partial<CursorRule>): CursorRule {
+    return {
+        id: 'rules-react-typescript',
+        name: 'React Typescript',
+        description: 'React with TypeScript',
+        content: '',
+        technologies: ['react', 'typescript'],
+        tags: ['react'],
+        category: 'Frontend',
+        isActive: false,
+        isFavorite: false,
+        isCustom: false,
+        githubPath: 'rules/react-typescript',
+        sourceId: 'PatrickJS/awesome-cursorrules',
+        format: 'directory',
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        ...overrides
+    };
+}
+
+suite('MDC round trip', () => {
+    const workspaceManager = new WorkspaceManager();
+
+    suite('directory format (.cursorrules)', () => {
+        const content = 'You are an expert in React and TypeScript.\n\n- Prefer function components\n- Type props with interfaces: `interface Props {}`\n';
+        const rule = createRule({ content });
+
+        test('content without frontmatter parses to itself', () => {
+            const parsed = parseMdc(content);
+            assert.strictEqual(parsed.hasFrontmatter, false);
+            assert.strictEqual(parsed.body, content);
+            assert.deepStrictEqual(extractRuleFrontmatter(content), { body: content });
+        });
+
+        test('project rule file has one frontmatter block and the unchanged content', () => {
+            const file = workspaceManager.formatProjectRuleContent(rule);
+            const parsed = parseMdc(file);
+
+            assert.strictEqual(parsed.hasFrontmatter, true);
+            assert.strictEqual(parseMdc(parsed.body).hasFrontmatter, false);
+            assert.deepStrictEqual(parsed.attributes, {
+                description: 'React with TypeScript',
+                globs: '*.{tsx,jsx,ts,js,vue,svelte}',
+                alwaysApply: false
+            });
+            assert.strictEqual(ruleBody(file), content);
+        });
+
+        test('project rule file serializes back to itself', () => {
+            const file = workspaceManager.formatProjectRuleContent(rule);
+            const parsed = parseMdc(file);
+            assert.strictEqual(serializeMdc(parsed.attributes, parsed.body), file);
+        });
+    });
+
+    suite('file format (rules-new/*.mdc)', () => {
+        const body = '# Next.js App Router\n\nUse server components by default: add "use client" only when needed.\n';
+        const upstream = `---\ndescription: Next.js App Router conventions\nglobs: app/**/*.tsx, app/**/*.ts\nalwaysApply: false\n---\n\n${body}`;
+        // As GitHubService stores it: upstream frontmatter split into fields
+        const rule = createRule({
+            id: 'rules-new-nextjs-app-router-mdc',
+            name: 'Nextjs App Router',
+            description: 'Next.js App Router conventions',
+            content: body,
+            technologies: ['nextjs'],
+            githubPath: 'rules-new/nextjs-app-router.mdc',
+            format: 'file',
+            globs: 'app/**/*.tsx, app/**/*.ts',
+            alwaysApply: false
+        });
+
+        test('upstream frontmatter is read into fields', () => {
+            assert.deepStrictEqual(extractRuleFrontmatter(upstream), {
+                body,
+                description: 'Next.js App Router conventions',
+                globs: 'app/**/*.tsx, app/**/*.ts',
+                alwaysApply: false
+            });
+        });
+
+        test('upstream file serializes back to itself', () => {
+            const parsed = parseMdc(upstream);
+            assert.strictEqual(serializeMdc(parsed.attributes, parsed.body), upstream);
+        });
+
+        test('project rule file keeps the upstream fields in a single frontmatter block', () => {
+            const file = workspaceManager.formatProjectRuleContent(rule);
+            const parsed = parseMdc(file);
+
+            assert.strictEqual(parseMdc(parsed.body).hasFrontmatter, false);
+            assert.deepStrictEqual(parsed.attributes, {
+                description: 'Next.js App Router conventions',
+                globs: 'app/**/*.tsx, app/**/*.ts',
+                alwaysApply: false
+            });
+            assert.strictEqual(ruleBody(file), body);
+            assert.strictEqual(serializeMdc(parsed.attributes, parsed.body), file);
+        });
+
+        test('rules stored with the upstream frontmatter in their content format the same', () => {
+            const { globs: _globs, alwaysApply: _alwaysApply, ...legacyRule } = rule;
+            assert.strictEqual(
+                workspaceManager.formatProjectRuleContent({ ...legacyRule, description: 'nextjs, app, router', content: upstream }),
+                workspaceManager.formatProjectRuleContent(rule)
+            );
+        });
+    });
+});
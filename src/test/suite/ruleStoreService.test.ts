@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { RuleStoreService, StoredRuleRecord } from '../../services/RuleStoreService';
+
+function record(id: string): StoredRuleRecord {
+    return { id, name: id, content: `Content of ${id}\n`, technologies: ['typescript'], category: 'Frontend', sourceId: 'PatrickJS/awesome-cursorrules' };
+}
+
+async function readIndexIds(rootPath: string): Promise<string[]> {
+    const index = JSON.parse(await fs.readFile(path.join(rootPath, 'index.json'), 'utf-8'));
+    return index.rules.map((rule: StoredRuleRecord) => rule.id).sort();
+}
+
+// Drops the cache the way the index watcher does when another window rewrites index.json
+function invalidate(store: RuleStoreService): void {
+    (store as any).records = null;
+    (store as any).contents.clear();
+}
+
+suite('RuleStoreService', () => {
+    let rootPath: string;
+    let store: RuleStoreService;
+
+    setup(async () => {
+        rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'solidrules-store-'));
+        store = new RuleStoreService(rootPath);
+        await store.load();
+    });
+
+    teardown(async () => {
+        store.dispose();
+        await fs.rm(rootPath, { recursive: true, force: true });
+    });
+
+    test('a write queued before the cache is dropped still writes its rules', async () => {
+        await store.put([record('a'), record('b')]);
+        const pending = store.put([record('c')]);
+        invalidate(store);
+        await pending;
+
+        assert.deepStrictEqual(await readIndexIds(rootPath), ['a', 'b', 'c']);
+    });
+
+    test('after the cache is dropped, rules are read back from disk', async () => {
+        const pending = store.put([record('a'), record('b')]);
+        invalidate(store);
+        await pending;
+        await store.delete(['a']);
+
+        assert.deepStrictEqual(await readIndexIds(rootPath), ['b']);
+        assert.deepStrictEqual((await store.getAll()).map(rule => [rule.id, rule.content]), [['b', 'Content of b\n']]);
+    });
+
+    test('clear empties the index and the cache', async () => {
+        await store.put([record('a')]);
+        await store.clear();
+
+        assert.deepStrictEqual(await readIndexIds(rootPath), []);
+        assert.strictEqual(store.count(), 0);
+    });
+});
@@ -0,0 +1,165 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseManager } from '../../managers/DatabaseManager';
+import { RulesManager } from '../../managers/RulesManager';
+import { CursorRule } from '../../types';
+import { createExtensionContext } from '../mocks/context';
+
+const storedRule: CursorRule = {
+    id: 'rules-react-typescript',
+    name: 'React Typescript',
+    description: 'React with TypeScript',
+    content: 'Use function components.\n',
+    technologies: ['react', 'typescript'],
+    tags: [],
+    category: 'Frontend',
+    isActive: false,
+    isFavorite: false,
+    isCustom: false,
+    githubPath: 'rules/react-typescript',
+    sourceId: 'PatrickJS/awesome-cursorrules',
+    format: 'directory',
+    version: 'react-content-1',
+    createdAt: new Date('2024-01-01T00:00:00Z')
+};
+
+const upstreamRule: CursorRule = {
+    ...storedRule,
+    description: 'React with TypeScript and hooks',
+    content: 'Use hooks.\n',
+    version: 'react-content-2',
+    createdAt: new Date()
+};
+
+// RulesManager over a real database; GitHub serves upstream.rule and no workspace folder is open
+function createRulesManager(database: DatabaseManager, upstream: { rule: CursorRule }): RulesManager {
+    const githubService = {
+        createRuleInfo: (rulePath: string, format: string, sourceId: string) => ({ path: rulePath, format, sourceId }),
+        createCursorRuleFromGitHub: async () => ({ ...upstream.rule }),
+        checkForUpdates: async (rules: CursorRule[]) => new Map(rules.map(rule => [
+            rule.id,
+            { hasUpdate: rule.version !== upstream.rule.version, latestVersion: upstream.rule.version }
+        ]))
+    };
+    const workspaceManager = {
+        getWorkspaceIds: () => [],
+        getCurrentWorkspaceId: () => null
+    };
+    const notificationManager = {
+        showErrorMessage: async () => undefined,
+        showUpdateNotification: async () => undefined
+    };
+    return new RulesManager(database, githubService as any, notificationManager as any, workspaceManager as any, {} as any, {} as any, {} as any, {} as any);
+}
+
+suite('RulesManager', () => {
+    let storagePath: string;
+    let database: DatabaseManager;
+    let upstream: { rule: CursorRule };
+    let rulesManager: RulesManager;
+
+    setup(async () => {
+        storagePath = await fs.mkdtemp(path.join(os.tmpdir(), 'solidrules-rules-'));
+        database = new DatabaseManager(createExtensionContext(storagePath));
+        await database.initialize();
+        await database.saveRule(storedRule);
+        upstream = { rule: upstreamRule };
+        rulesManager = createRulesManager(database, upstream);
+    });
+
+    teardown(async () => {
+        clearTimeout((rulesManager as any).workspaceSyncTimeout);
+        clearTimeout((rulesManager as any).uiRefreshTimeout);
+        database.dispose();
+        await fs.rm(storagePath, { recursive: true, force: true });
+    });
+
+    suite('changes made while an update is under review', () => {
+        test('accepting the update keeps a favorite and rule type set during the review', async () => {
+            const update = await rulesManager.fetchRuleUpdate(storedRule.id);
+            assert.strictEqual(update.content, 'Use hooks.\n');
+
+            await database.updateRuleFavorite(storedRule.id, true);
+            await database.transaction(async tx => {
+                tx.saveRule({ ...(await tx.getRule(storedRule.id))!, mdcSettings: { ruleType: 'always' } });
+            });
+            await rulesManager.updateRule(storedRule.id);
+
+            const rule = await database.getRuleById(storedRule.id);
+            assert.strictEqual(rule?.content, 'Use hooks.\n');
+            assert.strictEqual(rule?.description, 'React with TypeScript and hooks');
+            assert.strictEqual(rule?.version, 'react-content-2');
+            assert.strictEqual(rule?.isFavorite, true);
+            assert.deepStrictEqual(rule?.mdcSettings, { ruleType: 'always' });
+            assert.deepStrictEqual((await database.getRuleHistory(storedRule.id)).map(version => version.version), ['react-content-1']);
+        });
+
+        test('the fetched update is shown with the rule as stored now', async () => {
+            await rulesManager.fetchRuleUpdate(storedRule.id);
+            await database.updateRuleFavorite(storedRule.id, true);
+
+            const update = await rulesManager.getFetchedRuleUpdate(storedRule.id);
+            assert.strictEqual(update?.content, 'Use hooks.\n');
+            assert.strictEqual(update?.isFavorite, true);
+        });
+
+        test('a rule pinned during the review is not updated', async () => {
+            await rulesManager.fetchRuleUpdate(storedRule.id);
+            await rulesManager.setRulePinned(storedRule.id, true);
+
+            await assert.rejects(rulesManager.updateRule(storedRule.id), /pinned/);
+            const rule = await database.getRuleById(storedRule.id);
+            assert.strictEqual(rule?.content, 'Use function components.\n');
+            assert.strictEqual(rule?.isPinned, true);
+        });
+
+        test('pinning and rolling back keep the favorite', async () => {
+            await rulesManager.updateRule(storedRule.id);
+            await database.updateRuleFavorite(storedRule.id, true);
+            await rulesManager.restoreRuleVersion(storedRule.id);
+
+            const rule = await database.getRuleById(storedRule.id);
+            assert.strictEqual(rule?.content, 'Use function components.\n');
+            assert.strictEqual(rule?.version, 'react-content-1');
+            assert.strictEqual(rule?.isPinned, true);
+            assert.strictEqual(rule?.isFavorite, true);
+
+            await rulesManager.setRulePinned(storedRule.id, false);
+            assert.strictEqual((await database.getRuleById(storedRule.id))?.isFavorite, true);
+        });
+    });
+
+    suite('update detection', () => {
+        test('a rule found current again is no longer pending', async () => {
+            assert.deepStrictEqual((await rulesManager.checkForUpdates()).map(update => update.latestVersion), ['react-content-2']);
+            assert.deepStrictEqual((await rulesManager.getPendingUpdates()).map(update => update.ruleId), [storedRule.id]);
+
+            // Upstream went back to the stored version
+            upstream.rule = storedRule;
+            assert.deepStrictEqual(await rulesManager.checkForUpdates(), []);
+            assert.deepStrictEqual(await rulesManager.getPendingUpdates(), []);
+            assert.strictEqual((await database.getUpdatesInfo())[0]?.hasUpdate, false);
+        });
+
+        test('an update without content changes is applied without a history entry', async () => {
+            upstream.rule = { ...storedRule, version: 'react-content-2' };
+            await rulesManager.checkForUpdates();
+            await rulesManager.fetchRuleUpdate(storedRule.id);
+
+            await rulesManager.updateRule(storedRule.id);
+            assert.strictEqual((await database.getRuleById(storedRule.id))?.version, 'react-content-2');
+            assert.deepStrictEqual(await database.getRuleHistory(storedRule.id), []);
+            assert.deepStrictEqual(await rulesManager.getPendingUpdates(), []);
+        });
+
+        test('a skipped version stays skipped when it is found again', async () => {
+            await rulesManager.checkForUpdates();
+            await rulesManager.skipRuleUpdate(storedRule.id);
+
+            assert.deepStrictEqual(await rulesManager.checkForUpdates(), []);
+            assert.deepStrictEqual(await rulesManager.getPendingUpdates(), []);
+        });
+    });
+});
@@ -1,5 +1,67 @@
 import * as vscode from 'vscode';
 
+// Layout of rules inside a source path:
+// - directory: one folder per rule containing a .cursorrules file
+// - file: one .mdc file per rule
+export type RuleFormat = 'directory' | 'file';
+
+export interface RuleSourcePath {
+    readonly path: string;
+    readonly format: RuleFormat;
+}
+
+// GitHub repository that rules are fetched from (configured via solidrules.ruleSources)
+export interface RuleSource {
+    readonly id: string;
+    readonly name: string;
+    readonly owner: string;
+    readonly repo: string;
+    readonly ref?: string | undefined;
+    readonly paths: ReadonlyArray<RuleSourcePath>;
+}
+
+// Rules fetched before sources were configurable have no sourceId and belong to this source
+export const DEFAULT_RULE_SOURCE: RuleSource = {
+    id: 'PatrickJS/awesome-cursorrules',
+    name: 'awesome-cursorrules',
+    owner: 'PatrickJS',
+    repo: 'awesome-cursorrules',
+    paths: [
+        { path: 'rules', format: 'directory' },     // Old format: directories with .cursorrules
+        { path: 'rules-new', format: 'file' }       // New format: direct .mdc files
+    ]
+};
+
+// Folder on disk indexed for .mdc and .cursorrules files (configured via solidrules.localRuleSources)
+export interface LocalRuleSource {
+    readonly id: string;
+    readonly name: string;
+    readonly path: string;
+}
+
+// Local source ids are namespaced so they never collide with GitHub owner/repo ids
+export const LOCAL_SOURCE_PREFIX = 'local:';
+
+// Cursor project rule types, expressed through the MDC frontmatter:
+// - always: alwaysApply: true
+// - autoAttached: globs set, alwaysApply: false
+// - agentRequested: description set, no globs, alwaysApply: false
+// - manual: no description, no globs, alwaysApply: false
+export type MdcRuleType = 'always' | 'autoAttached' | 'agentRequested' | 'manual';
+
+export interface MdcRuleSettings {
+    readonly ruleType: MdcRuleType;
+    readonly globs?: string | undefined;
+    readonly description?: string | undefined;
+}
+
+export const MDC_RULE_TYPE_LABELS: Readonly<Record<MdcRuleType, string>> = {
+    always: 'Always',
+    autoAttached: 'Auto Attached',
+    agentRequested: 'Agent Requested',
+    manual: 'Manual'
+};
+
 // Enhanced CursorRule interface with strict types
 export interface CursorRule {
     readonly id: string;
@@ -9,13 +71,41 @@ export interface CursorRule {
     technologies: string[];
     tags: string[];
     category: string;
+    // Workspace-scoped: projected from WorkspaceRuleConfig.activeRules, never persisted on the rule
     isActive: boolean;
     isFavorite: boolean;
     isCustom: boolean;
     githubPath?: string;
+    sourceId?: string;
+    format?: RuleFormat;
+    localPath?: string;
+    // MDC frontmatter read from the rule's source file, if it had any
+    globs?: string;
+    alwaysApply?: boolean;
+    // Rule type chosen by the user; overrides source frontmatter and category heuristics
+    mdcSettings?: MdcRuleSettings;
     lastUpdated?: Date;
     readonly createdAt: Date;
+    // Source sha for GitHub rules, file mtime for local folder rules
     version?: string;
+    // Pinned rules stay at their current version: update checks and refreshes skip them
+    isPinned?: boolean;
+}
+
+// A previous version of a source rule, kept locally so it can be restored
+export interface RuleVersion {
+    // Undefined for rules fetched before versions were recorded
+    readonly version?: string | undefined;
+    readonly fetchedAt: Date;
+    readonly content: string;
+    readonly description: string;
+    readonly globs?: string | undefined;
+    readonly alwaysApply?: boolean | undefined;
+}
+
+// Versions are shortened like git does when shown to users
+export function formatRuleVersion(version: string | undefined): string {
+    return version ? version.slice(0, 7) : 'unknown version';
 }
 
 // Enhanced Technology interface
@@ -37,13 +127,24 @@ export interface GitHubRuleInfo {
     readonly path: string;
     readonly name: string;
     readonly sha: string;
+    // Blob sha of the rule's .cursorrules or .mdc file; stored as the rule's version
+    readonly contentSha?: string;
+    readonly readmeSha?: string;
     readonly size: number;
     readonly download_url: string;
     readonly type: 'file' | 'dir';
-    readonly format?: 'directory' | 'file';
+    readonly format?: RuleFormat;
+    readonly sourceId?: string;
     readonly content?: string;
 }
 
+// Files of one GitHub rule, fetched together for a refresh
+export interface GitHubRuleFiles {
+    readonly content: string;
+    readonly contentSha: string;
+    readonly readme?: string;
+}
+
 // Enhanced UpdateInfo interface
 export interface UpdateInfo {
     readonly ruleId: string;
@@ -51,6 +152,8 @@ export interface UpdateInfo {
     readonly hasUpdate: boolean;
     readonly currentVersion?: string | undefined;
     readonly latestVersion?: string | undefined;
+    // Upstream version the user reviewed and skipped; it is not offered again
+    readonly skippedVersion?: string | undefined;
     readonly lastChecked: Date;
 }
 
@@ -61,16 +164,272 @@ export interface WorkspaceRuleConfig {
     readonly rulesDirectory: string;
     readonly lastSyncDate?: Date | undefined;
     readonly maintainLegacyFormat?: boolean | undefined;
+    // Per-workspace rule type overrides, keyed by rule id
+    readonly ruleSettings?: Readonly<Record<string, MdcRuleSettings>> | undefined;
+}
+
+// A .cursor/rules/*.mdc file found in a workspace folder that can be adopted into the library
+export interface WorkspaceRuleCandidate {
+    readonly fileName: string;
+    readonly filePath: string;
+    readonly name: string;
+    readonly description?: string | undefined;
+    readonly globs?: string | undefined;
+    readonly alwaysApply?: boolean | undefined;
+    readonly body: string;
+    // false for hand-written files (no SolidRules header), which are never overwritten
+    readonly isGenerated: boolean;
+    // Library rule whose sanitized name maps to the same file
+    readonly matchingRule?: CursorRule | undefined;
+}
+
+// Fields edited in the custom rule editor; mdcSettings unset keeps the category default rule type
+export interface CustomRuleDraft {
+    readonly name: string;
+    readonly description: string;
+    readonly category: string;
+    readonly technologies: ReadonlyArray<string>;
+    readonly tags: ReadonlyArray<string>;
+    readonly content: string;
+    readonly mdcSettings?: MdcRuleSettings | undefined;
+}
+
+// A rule read from an imported .mdc/.cursorrules/.md file or a SolidRules JSON export
+export interface RuleImportCandidate {
+    readonly name: string;
+    readonly description: string;
+    readonly content: string;
+    readonly technologies: ReadonlyArray<string>;
+    readonly tags: ReadonlyArray<string>;
+    readonly category: string;
+    readonly globs?: string | undefined;
+    readonly alwaysApply?: boolean | undefined;
+    readonly mdcSettings?: MdcRuleSettings | undefined;
+    readonly isFavorite?: boolean | undefined;
+    readonly createdAt?: Date | undefined;
+    // Id from a JSON export, used to recognize rules that were imported before
+    readonly originalId?: string | undefined;
+    readonly sourcePath: string;
+}
+
+// How to handle an imported rule whose id or rule file name is already taken
+export type ImportConflictResolution = 'skip' | 'overwrite' | 'rename';
+
+// Versioned export format for sharing a rule setup between machines
+export const RULE_COLLECTION_SCHEMA_VERSION = 1;
+
+// A rule as stored in a collection: dates are ISO strings and workspace state (isActive) is left out
+export interface RuleCollectionRule {
+    readonly id: string;
+    readonly name: string;
+    readonly description: string;
+    readonly content: string;
+    readonly technologies: ReadonlyArray<string>;
+    readonly tags: ReadonlyArray<string>;
+    readonly category: string;
+    readonly isCustom: boolean;
+    readonly githubPath?: string | undefined;
+    readonly sourceId?: string | undefined;
+    readonly format?: RuleFormat | undefined;
+    readonly globs?: string | undefined;
+    readonly alwaysApply?: boolean | undefined;
+    readonly mdcSettings?: MdcRuleSettings | undefined;
+    readonly version?: string | undefined;
+    readonly createdAt?: string | undefined;
+    readonly lastUpdated?: string | undefined;
+}
+
+// A preset as stored in a collection; rule ids refer to the collection's rules
+export interface RuleCollectionPreset {
+    readonly name: string;
+    readonly description?: string | undefined;
+    readonly ruleIds: ReadonlyArray<string>;
+}
+
+// Activation set of one workspace folder, identified by folder name since paths differ between machines
+export interface RuleCollectionWorkspace {
+    readonly name: string;
+    readonly activeRules: ReadonlyArray<string>;
+    readonly ruleSettings?: Readonly<Record<string, MdcRuleSettings>> | undefined;
+}
+
+export interface RuleCollection {
+    readonly schemaVersion: number;
+    readonly name?: string | undefined;
+    readonly exportedAt: string;
+    readonly exportedBy: string;
+    readonly rules: ReadonlyArray<RuleCollectionRule>;
+    readonly favorites: ReadonlyArray<string>;
+    readonly workspaces: ReadonlyArray<RuleCollectionWorkspace>;
+    readonly presets?: ReadonlyArray<RuleCollectionPreset> | undefined;
+}
+
+// merge: add to the current activation sets; replace: make them match the collection
+export type CollectionImportMode = 'merge' | 'replace';
+
+export interface CollectionImportResult {
+    readonly importedRules: number;
+    readonly skippedRules: number;
+    readonly favorites: number;
+    readonly workspaces: number;
+    readonly presets: number;
+}
+
+// Rules whose activation actually changed in a batch operation
+export interface ActiveRulesChange {
+    readonly activated: ReadonlyArray<string>;
+    readonly deactivated: ReadonlyArray<string>;
+}
+
+// Named bundle of rules activated together, e.g. "Next.js + Tailwind + Prisma"
+export interface RulePreset {
+    readonly id: string;
+    readonly name: string;
+    readonly description?: string | undefined;
+    readonly ruleIds: ReadonlyArray<string>;
+    readonly createdAt: Date;
+    readonly updatedAt?: Date | undefined;
+}
+
+// apply: activate the preset's rules alongside the active ones; replace: make the preset the active set
+export type PresetApplyMode = 'apply' | 'replace';
+
+// A preset compared with the active rules of a workspace folder
+export interface PresetDiff {
+    readonly toActivate: ReadonlyArray<CursorRule>;
+    readonly alreadyActive: ReadonlyArray<CursorRule>;
+    // Active rules outside the preset, deactivated by replace
+    readonly notInPreset: ReadonlyArray<CursorRule>;
+    // Preset rules no longer in the library
+    readonly missingRuleIds: ReadonlyArray<string>;
+}
+
+// Catalog of a GitHub source shipped in resources/ (built by scripts/build-snapshot.js) to seed an empty library
+export const CATALOG_SNAPSHOT_FILE = 'catalog-snapshot.json';
+export const CATALOG_SNAPSHOT_VERSION = 1;
+
+export interface CatalogSnapshotRule {
+    readonly path: string;
+    readonly format: RuleFormat;
+    readonly content: string;
+    // Git blob sha of the content file, so the first refresh only fetches rules changed since the snapshot
+    readonly contentSha: string;
+    readonly readme?: string | undefined;
+}
+
+export interface CatalogSnapshot {
+    readonly version: number;
+    readonly sourceId: string;
+    readonly generatedAt?: string | undefined;
+    readonly commit?: string | undefined;
+    readonly rules: ReadonlyArray<CatalogSnapshotRule>;
+}
+
+// Team manifest committed at the root of a workspace folder
+export const TEAM_MANIFEST_FILE = '.solidrules.json';
+export const TEAM_MANIFEST_VERSION = 1;
+
+// Rule content carried inline for custom rules, which exist in no shared source
+export interface TeamManifestCustomRule {
+    readonly description?: string | undefined;
+    readonly content: string;
+    readonly technologies?: ReadonlyArray<string> | undefined;
+    readonly tags?: ReadonlyArray<string> | undefined;
+    readonly category?: string | undefined;
+}
+
+export interface TeamManifestRule {
+    readonly id: string;
+    readonly name?: string | undefined;
+    // Rule source id and path inside it, used to install the rule when it is missing locally
+    readonly source?: string | undefined;
+    readonly path?: string | undefined;
+    // Pinned version (source sha) the team agreed on
+    readonly version?: string | undefined;
+    // Rule type override applied in this workspace folder
+    readonly settings?: MdcRuleSettings | undefined;
+    readonly custom?: TeamManifestCustomRule | undefined;
+}
+
+export interface TeamManifest {
+    readonly version: number;
+    readonly rules: ReadonlyArray<TeamManifestRule>;
+}
+
+// Differences between a folder's manifest and its local state
+export interface TeamManifestStatus {
+    readonly workspaceId: string;
+    readonly manifest: TeamManifest;
+    readonly missingRules: ReadonlyArray<TeamManifestRule>;
+    readonly rulesToActivate: ReadonlyArray<string>;
+    readonly rulesToDeactivate: ReadonlyArray<string>;
+    readonly settingsChanged: ReadonlyArray<string>;
+    readonly versionMismatches: ReadonlyArray<TeamManifestRule>;
+    readonly inSync: boolean;
 }
 
 // Enhanced SearchFilters interface with better defaults
 export interface SearchFilters {
     readonly technology?: string | undefined;
     readonly category?: string | undefined;
+    readonly source?: string | undefined;
     readonly tags?: ReadonlyArray<string> | undefined;
     readonly sortBy: 'recent' | 'alphabetical' | 'popularity';
     readonly showFavoritesOnly?: boolean | undefined;
     readonly showActiveOnly?: boolean | undefined;
+    // From the search query language: rules must match every technology listed, and have (true) or
+    // lack (false) each flag
+    readonly technologies?: ReadonlyArray<string> | undefined;
+    readonly flags?: Readonly<Partial<Record<RuleFlag, boolean>>> | undefined;
+    readonly exclude?: SearchExclusions | undefined;
+}
+
+// States a search can require with is:<flag>, or rule out with -is:<flag>
+export type RuleFlag = 'active' | 'favorite' | 'custom' | 'pinned' | 'local';
+export const RULE_FLAGS: ReadonlyArray<RuleFlag> = ['active', 'favorite', 'custom', 'pinned', 'local'];
+
+// Rules matching any of these are left out
+export interface SearchExclusions {
+    readonly technologies?: ReadonlyArray<string> | undefined;
+    readonly categories?: ReadonlyArray<string> | undefined;
+    readonly tags?: ReadonlyArray<string> | undefined;
+    readonly sources?: ReadonlyArray<string> | undefined;
+}
+
+// A search box query split into its free text and its qualifiers,
+// e.g. `tech:react -is:custom "server components" hooks`
+export interface ParsedSearchQuery {
+    // Words for the full-text search, quoted phrases included
+    readonly text: string;
+    // Quoted phrases, which must also appear verbatim in the rule
+    readonly phrases: ReadonlyArray<string>;
+    // -word and -"phrase": rules containing them are left out
+    readonly excludedText: ReadonlyArray<string>;
+    readonly filters: SearchFilters;
+}
+
+// A search query stored under a name; saving under an existing name replaces it
+export interface SavedSearch {
+    readonly name: string;
+    readonly query: string;
+    readonly createdAt: Date;
+}
+
+// A rule found by the full-text search
+export interface RuleSearchMatch {
+    readonly ruleId: string;
+    // BM25 relevance; only comparable between matches of the same query
+    readonly score: number;
+    // Index words the query matched in the rule, after prefix and typo expansion
+    readonly terms: ReadonlyArray<string>;
+    readonly snippet?: RuleSearchSnippet | undefined;
+}
+
+export interface RuleSearchSnippet {
+    readonly field: 'content' | 'description';
+    readonly text: string;
+    // [start, end) offsets of the matched words in text
+    readonly highlights: ReadonlyArray<readonly [number, number]>;
 }
 
 // Enhanced NotificationOptions interface
@@ -91,6 +450,9 @@ export enum RuleStatus {
     ERROR = 'error'
 }
 
+// Version of the persisted data layout, stored with the data. DatabaseManager migrates older data up to it on startup
+export const DATABASE_SCHEMA_VERSION = 2;
+
 // Enhanced DatabaseSchema interface for better type safety
 export interface DatabaseSchema {
     readonly rules: CursorRule;
@@ -173,6 +535,17 @@ export interface WorkspaceChangeEvent {
 }
 
 // Base TreeItem class with enhanced typing and error handling
+// contextValue of a rule node: the view state plus -custom, -github or -github-pinned so menus can target them
+export function getRuleContextValue(state: 'rule-active' | 'rule-inactive' | 'rule-favorite', rule: CursorRule): string {
+    if (rule.isCustom) {
+        return `${state}-custom`;
+    }
+    if (rule.githubPath) {
+        return `${state}-github${rule.isPinned ? '-pinned' : ''}`;
+    }
+    return state;
+}
+
 export abstract class BaseRuleTreeItem extends vscode.TreeItem {
     constructor(
         public readonly label: string,
@@ -189,6 +562,10 @@ export abstract class BaseRuleTreeItem extends vscode.TreeItem {
             if (description !== undefined) {
                 this.description = description;
             }
+            if (this.rule?.isPinned) {
+                const pin = `📌 ${formatRuleVersion(this.rule.version)}`;
+                this.description = this.description ? `${this.description} • ${pin}` : pin;
+            }
             this.iconPath = this.getIcon();
         } catch (error) {
             console.error('❌ Error initializing TreeItem:', error);
@@ -217,6 +594,8 @@ export abstract class BaseRuleTreeItem extends vscode.TreeItem {
                     `**Status:** ${this.rule.isActive ? 'Active' : 'Inactive'}`,
                     `**Favorite:** ${this.rule.isFavorite ? 'Yes' : 'No'}`,
                     `**Type:** ${this.rule.isCustom ? 'Custom' : 'GitHub'}`,
+                    ...(this.rule.isCustom ? [] : [`**Source:** ${this.rule.sourceId || DEFAULT_RULE_SOURCE.id}`]),
+                    ...(this.rule.isPinned ? [`**Pinned:** ${formatRuleVersion(this.rule.version)} (updates are skipped)`] : []),
                     '',
                     `**Created:** ${this.rule.createdAt.toLocaleDateString()}`,
                     `**Last Updated:** ${this.rule.lastUpdated?.toLocaleDateString() || 'Never'}`
@@ -256,6 +635,10 @@ export abstract class BaseRuleTreeItem extends vscode.TreeItem {
             if (this.contextValue === 'category') {
                 return new vscode.ThemeIcon('folder');
             }
+
+            if (this.contextValue === 'source') {
+                return new vscode.ThemeIcon('repo');
+            }
             
             return new vscode.ThemeIcon('file-text');
         } catch (error) {
@@ -0,0 +1,205 @@
+// Minimal parser and serializer for the YAML frontmatter used by Cursor .mdc rule files.
+// Only the flat subset Cursor writes is supported: scalars, booleans, inline [a, b] lists and "- item" lists.
+
+export type FrontmatterValue = string | boolean | string[];
+
+export interface ParsedMdc {
+    readonly attributes: Record<string, FrontmatterValue>;
+    readonly body: string;
+    readonly hasFrontmatter: boolean;
+}
+
+const FRONTMATTER_PATTERN = /^﻿?---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+export function parseMdc(text: string): ParsedMdc {
+    const match = FRONTMATTER_PATTERN.exec(text);
+    if (!match) {
+        return { attributes: {}, body: text, hasFrontmatter: false };
+    }
+
+    return {
+        attributes: parseFrontmatterBlock(match[1] || ''),
+        body: text.slice(match[0].length).replace(/^\s*\r?\n/, ''),
+        hasFrontmatter: true
+    };
+}
+
+function parseFrontmatterBlock(block: string): Record<string, FrontmatterValue> {
+    const attributes: Record<string, FrontmatterValue> = {};
+    let listKey: string | null = null;
+
+    for (const rawLine of block.split(/\r?\n/)) {
+        const line = rawLine.replace(/\s+$/, '');
+        if (!line.trim() || line.trim().startsWith('#')) {
+            continue;
+        }
+
+        // Continuation of a "key:" followed by "- item" lines
+        const listItem = /^\s+-\s*(.*)$/.exec(line) || /^-\s*(.*)$/.exec(line);
+        if (listItem && listKey) {
+            const items = attributes[listKey];
+            const value = unquote(listItem[1] || '');
+            attributes[listKey] = Array.isArray(items) ? [...items, value] : [value];
+            continue;
+        }
+
+        const pair = /^([A-Za-z0-9_-]+)\s*:\s*(.*)$/.exec(line);
+        if (!pair) {
+            listKey = null;
+            continue;
+        }
+
+        const key = pair[1]!;
+        const value = (pair[2] || '').trim();
+        listKey = value === '' ? key : null;
+        attributes[key] = value === '' ? '' : parseScalar(value);
+    }
+
+    return attributes;
+}
+
+function parseScalar(value: string): FrontmatterValue {
+    if (value === 'true' || value === 'false') {
+        return value === 'true';
+    }
+
+    if (value.startsWith('[') && value.endsWith(']')) {
+        return splitInlineList(value.slice(1, -1))
+            .map(item => unquote(item.trim()))
+            .filter(item => item.length > 0);
+    }
+
+    return unquote(value);
+}
+
+// Split "a, 'b, c', d" on commas outside quotes
+function splitInlineList(value: string): string[] {
+    const items: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+
+    for (let i = 0; i < value.length; i++) {
+        const char = value[i]!;
+        if (quote) {
+            current += char;
+            if (char === '\\' && quote === '"' && i + 1 < value.length) {
+                current += value[++i];
+            } else if (char === quote) {
+                quote = null;
+            }
+        } else if (char === ',') {
+            items.push(current);
+            current = '';
+        } else {
+            if (char === '"' || char === "'") {
+                quote = char;
+            }
+            current += char;
+        }
+    }
+    items.push(current);
+
+    return items;
+}
+
+function unquote(value: string): string {
+    if (value.length >= 2 && ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'")))) {
+        const inner = value.slice(1, -1);
+        return value.startsWith('"')
+            ? inner.replace(/\\(["n\\])/g, (_, char: string) => char === 'n' ? '\n' : char)
+            : inner.replace(/''/g, "'");
+    }
+    return value;
+}
+
+// Frontmatter helpers that tolerate both scalar and list spellings (e.g. globs: "*.ts, *.tsx" vs [*.ts, *.tsx])
+export function getString(attributes: Record<string, FrontmatterValue>, key: string): string | undefined {
+    const value = attributes[key];
+    if (typeof value === 'string') {
+        return value || undefined;
+    }
+    if (Array.isArray(value)) {
+        return value.join(', ') || undefined;
+    }
+    return undefined;
+}
+
+export function getList(attributes: Record<string, FrontmatterValue>, key: string): string[] {
+    const value = attributes[key];
+    if (Array.isArray(value)) {
+        return value;
+    }
+    if (typeof value === 'string' && value) {
+        return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+    }
+    return [];
+}
+
+export function getBoolean(attributes: Record<string, FrontmatterValue>, key: string): boolean | undefined {
+    const value = attributes[key];
+    return typeof value === 'boolean' ? value : undefined;
+}
+
+// Fields Cursor reads from a rule's frontmatter, plus the body below it
+export interface MdcRuleFrontmatter {
+    readonly body: string;
+    readonly description?: string | undefined;
+    readonly globs?: string | undefined;
+    readonly alwaysApply?: boolean | undefined;
+}
+
+// Upstream .mdc rules (e.g. rules-new/*.mdc) ship their own frontmatter; split it off so it is
+// stored as structured fields and never written as a second block in front of our own
+export function extractRuleFrontmatter(text: string): MdcRuleFrontmatter {
+    const { attributes, body, hasFrontmatter } = parseMdc(text);
+    if (!hasFrontmatter) {
+        return { body: text };
+    }
+
+    return {
+        body,
+        description: getString(attributes, 'description'),
+        globs: getString(attributes, 'globs'),
+        alwaysApply: getBoolean(attributes, 'alwaysApply')
+    };
+}
+
+// Emit a single frontmatter block followed by the body; undefined attributes are omitted.
+// Output round-trips through parseMdc.
+export function serializeMdc(attributes: Record<string, FrontmatterValue | undefined>, body: string): string {
+    const lines = ['---'];
+    for (const [key, value] of Object.entries(attributes)) {
+        if (value === undefined) {
+            continue;
+        }
+        const formatted = formatValue(value);
+        lines.push(formatted ? `${key}: ${formatted}` : `${key}:`);
+    }
+    lines.push('---', '', '');
+
+    return lines.join('\n') + body;
+}
+
+function formatValue(value: FrontmatterValue): string {
+    if (typeof value === 'boolean') {
+        return String(value);
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(item => formatScalar(item, true)).join(', ')}]`;
+    }
+    return formatScalar(value, false);
+}
+
+// Quote only when the parser would otherwise read the value differently; Cursor writes globs unquoted
+function formatScalar(value: string, inList: boolean): string {
+    const needsQuotes = value !== value.trim()
+        || /[:"'\n\r\\#]/.test(value)
+        || (inList && /[,[\]]/.test(value))
+        || (!inList && value.startsWith('[') && value.endsWith(']'))
+        || value === 'true' || value === 'false';
+
+    if (!needsQuotes) {
+        return value;
+    }
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+}
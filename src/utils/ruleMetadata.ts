@@ -0,0 +1,69 @@
+// Heuristics that derive rule metadata from a rule's path or file name (shared by GitHub and local sources)
+
+export function formatRuleName(name: string): string {
+    return name
+        .replace(/-/g, ' ')
+        .replace(/cursorrules|prompt|file/gi, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .split(' ')
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ');
+}
+
+export function parseRuleName(path: string): string[] {
+    const name = path.split('/').pop() || '';
+    return name.split('-').filter(part => 
+        !['cursorrules', 'prompt', 'file'].includes(part.toLowerCase())
+    );
+}
+
+export function parseTechnologiesFromPath(path: string): string[] {
+    const name = path.split('/').pop() || '';
+    const parts = name.split('-');
+    
+    const knownTechnologies = [
+        'react', 'vue', 'angular', 'svelte', 'next', 'nuxt', 'typescript', 'javascript',
+        'node', 'express', 'fastapi', 'django', 'flask', 'spring', 'laravel',
+        'go', 'rust', 'python', 'java', 'php', 'csharp', 'cpp',
+        'tailwind', 'css', 'sass', 'styled', 'material',
+        'mongodb', 'postgresql', 'mysql', 'sqlite', 'redis',
+        'docker', 'kubernetes', 'aws', 'azure', 'gcp',
+        'jest', 'cypress', 'playwright', 'testing'
+    ];
+
+    return parts.filter(part => 
+        knownTechnologies.some(tech => 
+            part.toLowerCase().includes(tech) || tech.includes(part.toLowerCase())
+        )
+    ).map(tech => tech.toLowerCase());
+}
+
+export function getCategoryFromTechnologies(technologies: string[]): string {
+    const categoryMap: Record<string, string[]> = {
+        'Frontend': ['react', 'vue', 'angular', 'svelte', 'next', 'nuxt', 'typescript', 'javascript'],
+        'Backend': ['node', 'express', 'fastapi', 'django', 'flask', 'spring', 'laravel', 'go', 'rust'],
+        'Mobile': ['react-native', 'flutter', 'ionic', 'xamarin'],
+        'Styling': ['tailwind', 'css', 'sass', 'styled', 'material'],
+        'Database': ['mongodb', 'postgresql', 'mysql', 'sqlite', 'redis'],
+        'DevOps': ['docker', 'kubernetes', 'aws', 'azure', 'gcp'],
+        'Testing': ['jest', 'cypress', 'playwright', 'testing']
+    };
+
+    for (const [category, techs] of Object.entries(categoryMap)) {
+        if (technologies.some(tech => techs.includes(tech))) {
+            return category;
+        }
+    }
+
+    return 'Other';
+}
+
+export function generateTagsFromPath(path: string): string[] {
+    const name = path.split('/').pop() || '';
+    const parts = name.split('-');
+    
+    return parts
+        .filter(part => !['cursorrules', 'prompt', 'file'].includes(part.toLowerCase()))
+        .map(part => part.toLowerCase());
+}
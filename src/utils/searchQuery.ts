@@ -0,0 +1,268 @@
+// Query language of the rules explorer search box, e.g.
+//   tech:react category:Frontend tag:hooks is:active -is:custom "server components" routing
+// Qualifiers: tech, category, tag, source (id or name), is (active, favorite, custom, pinned, local) and
+// sort (recent, alphabetical, popularity). A leading - negates a qualifier, word or phrase; values with
+// spaces are quoted: category:"Web Development". Everything else is full-text search
+
+import { CursorRule, ParsedSearchQuery, RuleFlag, RULE_FLAGS, SearchFilters } from '../types';
+
+export const SEARCH_QUALIFIERS = ['tech', 'category', 'tag', 'source', 'is', 'sort'] as const;
+export type SearchQualifier = typeof SEARCH_QUALIFIERS[number];
+
+// Other spellings accepted for the qualifiers
+const QUALIFIER_ALIASES: Readonly<Record<string, SearchQualifier>> = {
+    technology: 'tech',
+    cat: 'category',
+    tags: 'tag'
+};
+
+const SORT_VALUES: ReadonlyArray<SearchFilters['sortBy']> = ['recent', 'alphabetical', 'popularity'];
+
+// Optional -, optional qualifier, then a quoted (possibly still unterminated) or bare value
+const TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+const MAX_COMPLETIONS = 30;
+
+interface QueryToken {
+    readonly raw: string;
+    readonly negated: boolean;
+    readonly qualifier?: string | undefined;
+    readonly value: string;
+    readonly quoted: boolean;
+}
+
+function resolveQualifier(name: string | undefined): SearchQualifier | undefined {
+    if (!name) {
+        return undefined;
+    }
+    const lowerName = name.toLowerCase();
+    return (SEARCH_QUALIFIERS as ReadonlyArray<string>).includes(lowerName)
+        ? lowerName as SearchQualifier
+        : QUALIFIER_ALIASES[lowerName];
+}
+
+function splitQuery(query: string): QueryToken[] {
+    return Array.from(query.matchAll(TOKEN_PATTERN), match => ({
+        raw: match[0],
+        negated: match[1] === '-',
+        qualifier: match[2],
+        value: match[3] ?? match[4] ?? '',
+        quoted: match[3] !== undefined
+    }));
+}
+
+// Qualifiers are merged over baseFilters, so the search box narrows what the filter quick picks selected
+export function parseSearchQuery(query: string, baseFilters: SearchFilters = { sortBy: 'recent' }): ParsedSearchQuery {
+    const words: string[] = [];
+    const phrases: string[] = [];
+    const excludedText: string[] = [];
+    const technologies = [...(baseFilters.technologies || [])];
+    const tags = [...(baseFilters.tags || [])];
+    const flags: Partial<Record<RuleFlag, boolean>> = { ...baseFilters.flags };
+    const exclude = {
+        technologies: [...(baseFilters.exclude?.technologies || [])],
+        categories: [...(baseFilters.exclude?.categories || [])],
+        tags: [...(baseFilters.exclude?.tags || [])],
+        sources: [...(baseFilters.exclude?.sources || [])]
+    };
+    let category = baseFilters.category;
+    let source = baseFilters.source;
+    let sortBy = baseFilters.sortBy;
+
+    for (const token of splitQuery(query)) {
+        const qualifier = resolveQualifier(token.qualifier);
+        const value = token.value.trim();
+
+        if (qualifier && value) {
+            switch (qualifier) {
+                case 'tech':
+                    (token.negated ? exclude.technologies : technologies).push(value);
+                    continue;
+                case 'category':
+                    if (token.negated) {
+                        exclude.categories.push(value);
+                    } else {
+                        category = value;
+                    }
+                    continue;
+                case 'tag':
+                    (token.negated ? exclude.tags : tags).push(value);
+                    continue;
+                case 'source':
+                    if (token.negated) {
+                        exclude.sources.push(value);
+                    } else {
+                        source = value;
+                    }
+                    continue;
+                case 'is': {
+                    const flag = RULE_FLAGS.find(candidate => candidate === value.toLowerCase());
+                    if (flag) {
+                        flags[flag] = !token.negated;
+                        continue;
+                    }
+                    break;
+                }
+                case 'sort': {
+                    const sort = SORT_VALUES.find(candidate => candidate === value.toLowerCase());
+                    if (sort) {
+                        sortBy = sort;
+                        continue;
+                    }
+                    break;
+                }
+            }
+        }
+
+        // A qualifier still waiting for its value
+        if ((qualifier && !value) || resolveQualifier(token.raw.match(/^-?([a-z]+):$/i)?.[1])) {
+            continue;
+        }
+        // Unknown qualifiers and values (a URL, is:something) are searched as typed
+        const text = token.quoted && !token.qualifier ? value : token.raw.replace(/^-/, '');
+        if (!text.trim()) {
+            continue;
+        }
+        if (token.negated) {
+            excludedText.push(text);
+        } else if (token.quoted && !token.qualifier) {
+            phrases.push(text);
+        } else {
+            words.push(text);
+        }
+    }
+
+    const filters: SearchFilters = {
+        ...baseFilters,
+        sortBy,
+        ...(category && { category }),
+        ...(source && { source }),
+        ...(technologies.length > 0 && { technologies }),
+        ...(tags.length > 0 && { tags }),
+        ...(Object.keys(flags).length > 0 && { flags }),
+        ...(Object.values(exclude).some(values => values.length > 0) && { exclude })
+    };
+
+    return {
+        text: [...words, ...phrases].join(' '),
+        phrases,
+        excludedText,
+        filters
+    };
+}
+
+function hasFlag(rule: CursorRule, flag: RuleFlag): boolean {
+    switch (flag) {
+        case 'active':
+            return rule.isActive;
+        case 'favorite':
+            return rule.isFavorite;
+        case 'custom':
+            return rule.isCustom;
+        case 'pinned':
+            return Boolean(rule.isPinned);
+        case 'local':
+            return Boolean(rule.localPath);
+    }
+}
+
+// The parts of a parsed query that go beyond the single-valued filters: every technology, tags,
+// flags, exclusions and phrases. sourceKeys are the rule source's id and name, lowercased
+export function matchesSearchQuery(rule: CursorRule, query: ParsedSearchQuery, sourceKeys: ReadonlyArray<string>): boolean {
+    const { filters } = query;
+    const technologies = rule.technologies.map(tech => tech.toLowerCase());
+    const tags = rule.tags.map(tag => tag.toLowerCase());
+    const includesAny = (values: ReadonlyArray<string>, value: string) => values.some(candidate => candidate.includes(value.toLowerCase()));
+
+    if (filters.technologies?.some(technology => !includesAny(technologies, technology))) {
+        return false;
+    }
+    // Like the tag filter elsewhere, any of the tags is enough
+    if (filters.tags && filters.tags.length > 0 && !filters.tags.some(tag => includesAny(tags, tag))) {
+        return false;
+    }
+    if (filters.flags && Object.entries(filters.flags).some(([flag, expected]) => hasFlag(rule, flag as RuleFlag) !== expected)) {
+        return false;
+    }
+
+    const exclude = filters.exclude;
+    if (exclude) {
+        if (exclude.technologies?.some(technology => includesAny(technologies, technology))
+            || exclude.categories?.some(category => category.toLowerCase() === (rule.category || '').toLowerCase())
+            || exclude.tags?.some(tag => includesAny(tags, tag))
+            || exclude.sources?.some(source => sourceKeys.includes(source.toLowerCase()))) {
+            return false;
+        }
+    }
+
+    if (query.phrases.length > 0 || query.excludedText.length > 0) {
+        const text = [rule.name, rule.description, rule.content, ...rule.technologies, ...rule.tags].join('\n').toLowerCase();
+        if (query.phrases.some(phrase => !text.includes(phrase.toLowerCase()))
+            || query.excludedText.some(excluded => text.includes(excluded.toLowerCase()))) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+export interface SearchCompletion {
+    readonly label: string;
+    readonly description?: string | undefined;
+    // The whole query with the completion applied
+    readonly query: string;
+}
+
+export type SearchQualifierValues = Partial<Record<SearchQualifier, ReadonlyArray<{ value: string; description?: string }>>>;
+
+const QUALIFIER_DESCRIPTIONS: Readonly<Record<SearchQualifier, string>> = {
+    tech: 'Rules for a technology',
+    category: 'Rules in a category',
+    tag: 'Rules with a tag',
+    source: 'Rules from a source',
+    is: 'active, favorite, custom, pinned or local rules',
+    sort: 'Order of the results'
+};
+
+// Completions for the word being typed at the end of the query: qualifier names, then their values
+export function getSearchCompletions(query: string, values: SearchQualifierValues): SearchCompletion[] {
+    const lastToken = query.match(/(?:^|\s)(-?(?:[a-z]+:)?(?:"[^"]*|\S*))$/i)?.[1] ?? '';
+    const head = query.slice(0, query.length - lastToken.length);
+    const negation = lastToken.startsWith('-') ? '-' : '';
+    const token = lastToken.slice(negation.length);
+    const separator = token.indexOf(':');
+
+    if (separator === -1) {
+        const prefix = token.toLowerCase();
+        return SEARCH_QUALIFIERS
+            .filter(qualifier => qualifier.startsWith(prefix) && qualifier !== prefix)
+            .map(qualifier => ({
+                label: `${negation}${qualifier}:`,
+                description: QUALIFIER_DESCRIPTIONS[qualifier],
+                query: `${head}${negation}${qualifier}:`
+            }));
+    }
+
+    const qualifier = resolveQualifier(token.slice(0, separator));
+    if (!qualifier) {
+        return [];
+    }
+    const partial = token.slice(separator + 1).replace(/^"/, '').toLowerCase();
+    const candidates: ReadonlyArray<{ value: string; description?: string }> = qualifier === 'is'
+        ? RULE_FLAGS.map(value => ({ value }))
+        : (qualifier === 'sort' ? SORT_VALUES.map(value => ({ value })) : values[qualifier] || []);
+
+    // Values starting with what was typed come first
+    return candidates
+        .filter(candidate => candidate.value.toLowerCase().includes(partial))
+        .sort((a, b) => Number(!a.value.toLowerCase().startsWith(partial)) - Number(!b.value.toLowerCase().startsWith(partial)))
+        .slice(0, MAX_COMPLETIONS)
+        .map(candidate => {
+            const value = /\s/.test(candidate.value) ? `"${candidate.value}"` : candidate.value;
+            return {
+                label: `${negation}${qualifier}:${value}`,
+                ...(candidate.description && { description: candidate.description }),
+                query: `${head}${negation}${qualifier}:${value} `
+            };
+        });
+}
@@ -0,0 +1,77 @@
+// Minimal reader for the .tar.gz archives GitHub serves for a repository ref.
+// Only regular files are returned; paths are relative to the archive's single top-level folder.
+
+import { createHash } from 'crypto';
+import { gunzipSync } from 'zlib';
+
+const BLOCK_SIZE = 512;
+
+export function extractTarGz(archive: Buffer, include: (path: string) => boolean): Map<string, Buffer> {
+    const tar = gunzipSync(archive);
+    const files = new Map<string, Buffer>();
+    let offset = 0;
+    let longPath: string | undefined;
+
+    while (offset + BLOCK_SIZE <= tar.length) {
+        const header = tar.subarray(offset, offset + BLOCK_SIZE);
+        // Two zero blocks end the archive; the first is enough to stop
+        if (header.every(byte => byte === 0)) {
+            break;
+        }
+
+        const name = readString(header, 0, 100);
+        const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+        const type = String.fromCharCode(header[156] || 0);
+        const prefix = readString(header, 345, 155);
+        const dataStart = offset + BLOCK_SIZE;
+        const data = tar.subarray(dataStart, dataStart + size);
+        offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+        if (type === 'x') {
+            // pax extended header: a "path" record overrides the name of the next entry
+            longPath = readPaxPath(data.toString('utf-8'));
+            continue;
+        }
+        if (type === 'L') {
+            // GNU long name
+            longPath = data.toString('utf-8').replace(/\0+$/, '');
+            continue;
+        }
+
+        const fullPath = longPath ?? (prefix ? `${prefix}/${name}` : name);
+        longPath = undefined;
+        if (type !== '0' && type !== '\0') {
+            continue;
+        }
+
+        // Drop the "<owner>-<repo>-<sha>/" folder GitHub wraps the repository in
+        const path = fullPath.slice(fullPath.indexOf('/') + 1);
+        if (path && include(path)) {
+            files.set(path, Buffer.from(data));
+        }
+    }
+
+    return files;
+}
+
+// The sha git gives a file with this content, as reported by the tree and contents APIs
+export function gitBlobSha(content: Buffer): string {
+    return createHash('sha1').update(`blob ${content.length}\0`).update(content).digest('hex');
+}
+
+function readString(block: Buffer, start: number, length: number): string {
+    const field = block.subarray(start, start + length);
+    const end = field.indexOf(0);
+    return field.subarray(0, end === -1 ? field.length : end).toString('utf-8');
+}
+
+// Records look like "<length> <key>=<value>\n"
+function readPaxPath(text: string): string | undefined {
+    for (const record of text.split('\n')) {
+        const match = record.match(/^\d+ path=(.*)$/);
+        if (match) {
+            return match[1];
+        }
+    }
+    return undefined;
+}